@@ -3,11 +3,26 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Routes, Route, useNavigate, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Login from "./pages/Login";
 import Callback from "./pages/Callback";
 import Settings from "./pages/Settings";
+import ImeiHistory from "./pages/ImeiHistory";
+import StockOpname from "./pages/StockOpname";
+import StockOpnameSession from "./pages/StockOpnameSession";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Receivables from "./pages/Receivables";
+import Suppliers from "./pages/Suppliers";
+import SupplierDetail from "./pages/SupplierDetail";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import Checkout from "./pages/Checkout";
+import Promotions from "./pages/Promotions";
+import PhoneModelDetail from "./pages/PhoneModelDetail";
+import Catalog from "./pages/Catalog";
+import { RequirePermission } from "./components/RequirePermission";
 import { supabase } from "./integrations/supabase/client";
 import { useRealtimeSubscription } from "./hooks/useRealtimeSubscription";
 import type { Session } from "@supabase/supabase-js";
@@ -17,6 +32,7 @@ const App = () => {
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
   
   // Enable realtime subscriptions
   useRealtimeSubscription();
@@ -32,10 +48,12 @@ const App = () => {
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
+      // The current user's role must not survive a switch of accounts
+      queryClient.invalidateQueries({ queryKey: ['profiles', 'current'] });
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
   useEffect(() => {
     if (!loading && !session && location.pathname !== '/login' && location.pathname !== '/callback') {
@@ -60,6 +78,19 @@ const App = () => {
         <Route path="/callback" element={<Callback />} />
         <Route path="/" element={session ? <Index /> : null} />
         <Route path="/settings" element={session ? <Settings /> : null} />
+        <Route path="/imei/:imei" element={session ? <ImeiHistory /> : null} />
+        <Route path="/opname" element={session ? <RequirePermission permission="stock.opname"><StockOpname /></RequirePermission> : null} />
+        <Route path="/opname/:sessionId" element={session ? <RequirePermission permission="stock.opname"><StockOpnameSession /></RequirePermission> : null} />
+        <Route path="/checkout" element={session ? <RequirePermission permission="stock.sell"><Checkout /></RequirePermission> : null} />
+        <Route path="/customers" element={session ? <Customers /> : null} />
+        <Route path="/customers/:customerId" element={session ? <CustomerDetail /> : null} />
+        <Route path="/receivables" element={session ? <Receivables /> : null} />
+        <Route path="/suppliers" element={session ? <RequirePermission permission="stock.receive"><Suppliers /></RequirePermission> : null} />
+        <Route path="/suppliers/:supplierId" element={session ? <RequirePermission permission="stock.receive"><SupplierDetail /></RequirePermission> : null} />
+        <Route path="/purchase-orders" element={session ? <RequirePermission permission="stock.receive"><PurchaseOrders /></RequirePermission> : null} />
+        <Route path="/promotions" element={session ? <RequirePermission permission="promo.manage"><Promotions /></RequirePermission> : null} />
+        <Route path="/catalog" element={session ? <Catalog /> : null} />
+        <Route path="/models/:modelId" element={session ? <PhoneModelDetail /> : null} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Camera, CheckCircle, Package, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useMarkAsSold, SaleData } from "@/hooks/useMarkAsSold";
+import { usePermissions } from "@/hooks/usePermissions";
+import { NO_IMEI, fetchLatestCostPrices } from "@/lib/accessories";
+import { getPromoScope } from "@/lib/promotions";
+import { BarcodeScanner } from "./BarcodeScanner";
+import { ReceiptDialog } from "./ReceiptDialog";
+import { SaleConfirmationDialog } from "./SaleConfirmationDialog";
+import type { StockEntry } from "./StockTable";
+
+interface AccessoryStockTableProps {
+  selectedDate: Date;
+}
+
+type AccessoryEntry = StockEntry & {
+  phone_models: StockEntry['phone_models'] & { barcode: string | null };
+};
+
+export function AccessoryStockTable({ selectedDate }: AccessoryStockTableProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [sellingEntry, setSellingEntry] = useState<AccessoryEntry | null>(null);
+  const [receiptEventId, setReceiptEventId] = useState<number | null>(null);
+  const { can } = usePermissions();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['stock-entries', 'accessories', selectedDate],
+    queryFn: async () => {
+      const date = format(selectedDate, "yyyy-MM-dd");
+
+      const { data: entries, error } = await supabase
+        .from('stock_entries')
+        .select(`
+          *,
+          stock_locations(id, name),
+          phone_models!inner(id, brand, model, storage_capacity, color, srp, barcode, is_serialized)
+        `)
+        .eq('date', date)
+        .eq('imei', NO_IMEI)
+        .eq('phone_models.is_serialized', false)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new Error(`Gagal memuat stok aksesoris: ${error.message}`);
+
+      const costByModel = await fetchLatestCostPrices([...new Set((entries || []).map(e => e.phone_model_id))]);
+
+      return { entries: (entries || []) as AccessoryEntry[], costByModel };
+    }
+  });
+
+  const markAsSoldMutation = useMarkAsSold({
+    onSold: setReceiptEventId,
+    onSettled: () => setSellingEntry(null)
+  });
+
+  const term = searchTerm.trim().toLowerCase();
+  const entries = (data?.entries || []).filter(entry =>
+    !term ||
+    entry.phone_models.brand.toLowerCase().includes(term) ||
+    entry.phone_models.model.toLowerCase().includes(term) ||
+    entry.phone_models.barcode === searchTerm.trim()
+  );
+
+  const handleSaleConfirm = (saleData: SaleData) => {
+    if (sellingEntry) {
+      markAsSoldMutation.mutate({ entry: sellingEntry, saleData });
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-border/50 bg-card/50 backdrop-blur">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5" />
+            Stok Aksesoris
+          </CardTitle>
+          <div className="flex gap-2 pt-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Cari nama barang atau barcode..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setIsScannerOpen(true)}>
+              <Camera className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="h-12 bg-muted rounded animate-pulse" />
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Tidak ada stok aksesoris ditemukan.
+            </div>
+          ) : (
+            <div className="rounded-lg border border-border/50 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead className="min-w-[80px]">Lokasi</TableHead>
+                    <TableHead className="min-w-[150px]">Barang</TableHead>
+                    <TableHead className="min-w-[120px]">Barcode</TableHead>
+                    <TableHead className="min-w-[60px]">Awal</TableHead>
+                    <TableHead className="min-w-[60px]">Masuk</TableHead>
+                    <TableHead className="min-w-[60px]">Laku</TableHead>
+                    <TableHead className="min-w-[60px]">Akhir</TableHead>
+                    <TableHead className="min-w-[60px]">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id} className="hover:bg-muted/20 transition-colors">
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">
+                          {entry.stock_locations?.name}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium text-sm">
+                          {entry.phone_models.brand} {entry.phone_models.model}
+                        </div>
+                        {entry.phone_models.color && (
+                          <div className="text-xs text-muted-foreground">{entry.phone_models.color}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{entry.phone_models.barcode || "—"}</TableCell>
+                      <TableCell className="text-center">{entry.morning_stock}</TableCell>
+                      <TableCell className="text-center">{entry.incoming}</TableCell>
+                      <TableCell className="text-center">{entry.sold}</TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={entry.night_stock > 0 ? "outline" : "destructive"} className="text-xs">
+                          {entry.night_stock}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {can('stock.sell') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setSellingEntry(entry)}
+                            disabled={entry.night_stock <= 0}
+                          >
+                            <CheckCircle className="h-4 w-4 text-green-500" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BarcodeScanner
+        open={isScannerOpen}
+        onOpenChange={setIsScannerOpen}
+        onScanSuccess={setSearchTerm}
+        kind="product"
+        title="Scan Barcode Barang"
+        description="Arahkan kamera ke barcode di kemasan"
+      />
+
+      <SaleConfirmationDialog
+        open={!!sellingEntry}
+        onOpenChange={(isOpen) => !isOpen && setSellingEntry(null)}
+        onConfirm={handleSaleConfirm}
+        suggestedPrice={sellingEntry?.phone_models.srp || 0}
+        itemName={sellingEntry ? `${sellingEntry.phone_models.brand} ${sellingEntry.phone_models.model}` : ''}
+        srp={sellingEntry?.phone_models.srp || 0}
+        costPrice={sellingEntry ? data?.costByModel.get(sellingEntry.phone_models.id) || 0 : 0}
+        maxQty={sellingEntry?.night_stock || 1}
+        promoScope={getPromoScope(sellingEntry)}
+      />
+
+      <ReceiptDialog
+        open={receiptEventId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceiptEventId(null)}
+        saleEventId={receiptEventId}
+      />
+    </>
+  );
+}
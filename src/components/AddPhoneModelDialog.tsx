@@ -23,9 +23,11 @@ import {
   } from "@/components/ui/command"
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ChevronsUpDown } from 'lucide-react';
+import { findDuplicateVariant, getModelSeries } from '@/lib/catalog';
 
 interface AddPhoneModelDialogProps {
   open: boolean;
@@ -33,8 +35,10 @@ interface AddPhoneModelDialogProps {
 }
 
 export function AddPhoneModelDialog({ open, onOpenChange }: AddPhoneModelDialogProps) {
-  const [formData, setFormData] = useState({ model: '', storage_capacity: '' });
+  const [formData, setFormData] = useState({ model: '', series: '', ram: '', storage_capacity: '', color: '' });
   const [srpFormatted, setSrpFormatted] = useState('');
+  const [isAccessory, setIsAccessory] = useState(false);
+  const [barcode, setBarcode] = useState('');
   const [selectedBrand, setSelectedBrand] = useState('');
   const [newBrand, setNewBrand] = useState('');
   const [isAddingBrand, setIsAddingBrand] = useState(false);
@@ -49,33 +53,30 @@ export function AddPhoneModelDialog({ open, onOpenChange }: AddPhoneModelDialogP
   const { data: brands, isLoading: brandsLoading } = useQuery({
     queryKey: ['brands'],
     queryFn: async () => {
-      const { data, error } = await supabase.from('phone_models').select('brand').order('brand');
+      const { data, error } = await supabase.from('phone_models').select('brand').is('archived_at', null).order('brand');
       if (error) throw error;
       return [...new Set(data.map((item) => item.brand))];
     },
   });
 
   const addModelMutation = useMutation({
-    mutationFn: async (dataToInsert: { brand: string; model: string; storage_capacity: string; srp: number; }) => {
-      // Check if combination already exists
-      const { data: existingModel, error: checkError } = await supabase
-        .from('phone_models')
-        .select('id, brand, model, storage_capacity, color')
-        .eq('brand', dataToInsert.brand)
-        .eq('model', dataToInsert.model)
-        .eq('storage_capacity', dataToInsert.storage_capacity)
-        .maybeSingle();
+    mutationFn: async (dataToInsert: { brand: string; series: string | null; model: string; ram: string | null; storage_capacity: string | null; color: string | null; srp: number; is_serialized: boolean; barcode: string | null; }) => {
+      // Check if the same variant already exists
+      const existingModel = await findDuplicateVariant(dataToInsert);
 
-      if (checkError) throw new Error(`Gagal memeriksa model: ${checkError.message}`);
-      
       if (existingModel) {
-        throw new Error(`Model ${dataToInsert.brand} ${dataToInsert.model} ${dataToInsert.storage_capacity} sudah ada di sistem`);
+        throw new Error(existingModel.archived_at
+          ? `Model ${dataToInsert.brand} ${dataToInsert.model} sudah ada di arsip katalog`
+          : `Model ${dataToInsert.brand} ${dataToInsert.model} ${dataToInsert.storage_capacity || ''} sudah ada di sistem`);
       }
 
       const { error } = await supabase.from('phone_models').insert(dataToInsert);
       if (error) {
+        if (error.code === '23505' && error.message.includes('barcode')) {
+          throw new Error(`Barcode ${dataToInsert.barcode} sudah dipakai barang lain`);
+        }
         if (error.code === '23505') { // Unique constraint violation
-          throw new Error(`Model ${dataToInsert.brand} ${dataToInsert.model} ${dataToInsert.storage_capacity} sudah ada di sistem`);
+          throw new Error(`Model ${dataToInsert.brand} ${dataToInsert.model} ${dataToInsert.storage_capacity || ''} sudah ada di sistem`);
         }
         throw error;
       }
@@ -142,15 +143,22 @@ export function AddPhoneModelDialog({ open, onOpenChange }: AddPhoneModelDialogP
     
     addModelMutation.mutate({ 
       brand: finalBrand, 
+      series: formData.series.trim() || null,
       model: formData.model.trim(), 
+      ram: formData.ram.trim() || null,
       storage_capacity: formData.storage_capacity.trim() || null,
-      srp: srpValue 
+      color: formData.color.trim() || null,
+      srp: srpValue,
+      is_serialized: !isAccessory,
+      barcode: barcode.trim() || null
     });
   };
 
   const resetForm = () => {
-    setFormData({ model: '', storage_capacity: '' });
+    setFormData({ model: '', series: '', ram: '', storage_capacity: '', color: '' });
     setSrpFormatted('');
+    setIsAccessory(false);
+    setBarcode('');
     setSelectedBrand('');
     setNewBrand('');
     setIsAddingBrand(false);
@@ -246,9 +254,46 @@ export function AddPhoneModelDialog({ open, onOpenChange }: AddPhoneModelDialogP
             <Input id="model" value={formData.model} onChange={(e) => setFormData({...formData, model: e.target.value})} required />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="storage_capacity">Kapasitas Penyimpanan</Label>
-            <Input id="storage_capacity" value={formData.storage_capacity} onChange={(e) => setFormData({...formData, storage_capacity: e.target.value})} />
+            <Label htmlFor="series">Seri (Opsional)</Label>
+            <Input
+              id="series"
+              value={formData.series}
+              onChange={(e) => setFormData({...formData, series: e.target.value})}
+              placeholder={formData.model.trim() ? getModelSeries({ model: formData.model }) : 'cth: Galaxy A'}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="ram">RAM</Label>
+              <Input id="ram" value={formData.ram} onChange={(e) => setFormData({...formData, ram: e.target.value})} placeholder="8GB" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="storage_capacity">Penyimpanan</Label>
+              <Input id="storage_capacity" value={formData.storage_capacity} onChange={(e) => setFormData({...formData, storage_capacity: e.target.value})} placeholder="256GB" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="color">Warna</Label>
+              <Input id="color" value={formData.color} onChange={(e) => setFormData({...formData, color: e.target.value})} placeholder="Hitam" />
+            </div>
+          </div>
+          <div className="flex items-center justify-between rounded-lg border border-border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="is-accessory">Barang tanpa IMEI</Label>
+              <p className="text-xs text-muted-foreground">Aksesoris seperti charger, casing, tempered glass, kartu perdana</p>
+            </div>
+            <Switch id="is-accessory" checked={isAccessory} onCheckedChange={setIsAccessory} />
           </div>
+          {isAccessory && (
+            <div className="space-y-2">
+              <Label htmlFor="barcode">Barcode (Opsional)</Label>
+              <Input
+                id="barcode"
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                placeholder="Scan atau ketik barcode kemasan"
+              />
+            </div>
+          )}
           <div className="space-y-2">
             <Label htmlFor="srp">SRP (Harga Eceran yang Disarankan)</Label>
             <Input 
@@ -15,6 +15,9 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
 import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { ImeiHint } from "@/components/ImeiHint";
+import { useKnownTacs } from "@/hooks/useKnownTacs";
+import { normalizeImei, validateImei } from "@/lib/imei";
 
 interface AddStockDialogProps {
   open: boolean;
@@ -53,6 +56,7 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
       const { data, error } = await supabase
         .from('phone_models')
         .select('brand')
+        .is('archived_at', null)
         .order('brand');
       if (error) throw error;
       return [...new Set(data.map(item => item.brand))];
@@ -67,6 +71,7 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
       const { data, error } = await supabase
         .from('phone_models')
         .select('*')
+        .is('archived_at', null)
         .eq('brand', selectedBrand)
         .order('model');
       if (error) throw error;
@@ -75,6 +80,8 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
     enabled: !!selectedBrand
   });
 
+  const { data: knownTacs } = useKnownTacs(selectedModel, { enabled: open });
+
   // Auto-fill cost price with SRP when model is selected
   useEffect(() => {
     if (selectedModel && phoneModels) {
@@ -97,11 +104,9 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
       if (!selectedModel) {
         throw new Error('Model HP wajib dipilih');
       }
-      if (!imei.trim()) {
-        throw new Error('IMEI wajib diisi');
-      }
-      if (imei.trim().length < 10) {
-        throw new Error('IMEI tidak valid (minimal 10 karakter)');
+      const imeiError = validateImei(imei);
+      if (imeiError) {
+        throw new Error(imeiError);
       }
 
       const date = format(selectedDate, "yyyy-MM-dd");
@@ -119,7 +124,7 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
         .from('stock_events')
         .insert({
           date: date,
-          imei: imei.trim(),
+          imei: normalizeImei(imei),
           location_id: selectedLocation,
           phone_model_id: selectedModel,
           event_type: eventType,
@@ -270,6 +275,7 @@ export function AddStockDialog({ open, onOpenChange }: AddStockDialogProps) {
                 <Camera className="h-4 w-4" />
               </Button>
             </div>
+            <ImeiHint imei={imei} knownTacs={knownTacs} />
             <p className="text-sm text-muted-foreground">
               📱 Koreksi stok pagi untuk IMEI ini (bisa + atau -)
             </p>
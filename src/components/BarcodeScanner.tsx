@@ -1,33 +1,81 @@
 import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Camera, Flashlight, X } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Progress } from "@/components/ui/progress";
+import { Camera, Check, CheckCircle, Flashlight, Info, X, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { parseBoxLabel, validateImei } from "@/lib/imei";
+import { emptyUnit, type UnitInput } from "@/lib/unitIdentifiers";
+import { playScanFeedback } from "@/lib/scanFeedback";
+
+/** Returned from onScanSuccess when a scan was taken differently than it looks, e.g. merged into another unit */
+export interface ScanNotice {
+  notice: string;
+}
 
 interface BarcodeScannerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onScanSuccess: (decodedText: string) => void;
+  /** In continuous mode, returning a message rejects the scan and shows the message */
+  onScanSuccess: (decodedText: string, unit?: UnitInput) => void | string | ScanNotice | null | Promise<string | ScanNotice | null | void>;
   title?: string;
   description?: string;
+  /** "product" accepts any packaging barcode instead of a 15-digit IMEI */
+  kind?: "imei" | "product";
+  /**
+   * Keeps scanning the same box label until both IMEIs were read, also
+   * picking up the serial number, and passes them as `unit`
+   */
+  captureUnit?: boolean;
+  /** Keeps the camera open after each IMEI, for receiving a batch of units */
+  continuous?: boolean;
+  /** Units scanned so far against the expected quantity, shown in continuous mode */
+  progress?: { count: number; expected: number | null };
 }
 
+// The camera decodes a barcode several times per second while it stays in view
+const RESCAN_DELAY_MS = 5000;
+
+/** Serial numbers are printed as their own barcode, usually letters and digits */
+const isLikelySerialNumber = (text: string) =>
+  /^[A-Z0-9]{8,20}$/i.test(text) && /[A-Z]/i.test(text) && /\d/.test(text);
+
 export function BarcodeScanner({
   open,
   onOpenChange,
   onScanSuccess,
   title = "Scan Barcode IMEI",
-  description = "Arahkan kamera ke barcode di box HP"
+  description = "Arahkan kamera ke barcode di box HP",
+  kind = "imei",
+  captureUnit = false,
+  continuous = false,
+  progress
 }: BarcodeScannerProps) {
   const { toast } = useToast();
+  const navigate = useNavigate();
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const videoTrackRef = useRef<MediaStreamTrack | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [torchEnabled, setTorchEnabled] = useState(false);
   const [torchSupported, setTorchSupported] = useState(false);
+  const [pendingUnit, setPendingUnit] = useState<UnitInput | null>(null);
+  // The scan callback is registered once per opening, so it reads these through refs
+  const pendingUnitRef = useRef<UnitInput | null>(null);
+  const onScanSuccessRef = useRef(onScanSuccess);
+  onScanSuccessRef.current = onScanSuccess;
+  const isProcessingRef = useRef(false);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const [lastResult, setLastResult] = useState<{ imei: string; error: string | null; notice?: string } | null>(null);
 
   useEffect(() => {
+    pendingUnitRef.current = null;
+    setPendingUnit(null);
+    lastScanRef.current = null;
+    setLastResult(null);
+
     if (open) {
       startScanner();
     } else {
@@ -129,6 +177,9 @@ export function BarcodeScanner({
           Html5QrcodeSupportedFormats.CODE_128,
           Html5QrcodeSupportedFormats.CODE_39,
           Html5QrcodeSupportedFormats.EAN_13,
+          Html5QrcodeSupportedFormats.EAN_8,
+          Html5QrcodeSupportedFormats.UPC_A,
+          Html5QrcodeSupportedFormats.UPC_E,
           Html5QrcodeSupportedFormats.ITF,
           Html5QrcodeSupportedFormats.QR_CODE,
         ]
@@ -138,20 +189,45 @@ export function BarcodeScanner({
         { facingMode: "environment" },
         config,
         (decodedText) => {
-          // Sanitize and validate
-          const cleanedText = decodedText.trim().replace(/\D/g, '');
+          if (kind === "product") {
+            const barcode = decodedText.trim();
+            if (!barcode) return;
+            onScanSuccessRef.current(barcode);
+            onOpenChange(false);
+            return;
+          }
+
+          if (continuous) {
+            handleContinuousScan(decodedText);
+            return;
+          }
+
+          if (captureUnit) {
+            handleUnitScan(decodedText);
+            return;
+          }
+
+          // Box labels may hold both IMEIs; the first one identifies the unit
+          const cleanedText = parseBoxLabel(decodedText).imeis[0] ?? decodedText.trim().replace(/\D/g, '');
           
-          if (cleanedText.length === 15) {
+          const imeiError = validateImei(cleanedText);
+
+          if (!imeiError) {
             toast({
               title: "IMEI berhasil di-scan",
               description: cleanedText,
+              action: (
+                <ToastAction altText="Lihat riwayat IMEI" onClick={() => navigate(`/imei/${cleanedText}`)}>
+                  Riwayat
+                </ToastAction>
+              ),
             });
-            onScanSuccess(cleanedText);
+            onScanSuccessRef.current(cleanedText);
             onOpenChange(false);
           } else {
             toast({
               title: "Format IMEI tidak valid",
-              description: "IMEI harus 15 digit",
+              description: imeiError,
               variant: "destructive"
             });
           }
@@ -172,6 +248,75 @@ export function BarcodeScanner({
     }
   };
 
+  const finishUnit = (unit: UnitInput) => {
+    toast({
+      title: "IMEI berhasil di-scan",
+      description: [unit.imei, unit.imei2, unit.serialNumber && `S/N ${unit.serialNumber}`].filter(Boolean).join(" • "),
+    });
+    onScanSuccessRef.current(unit.imei, unit);
+    onOpenChange(false);
+  };
+
+  // Passes every new IMEI on without closing; a box label holding both IMEIs becomes one unit
+  const handleContinuousScan = async (decodedText: string) => {
+    const label = parseBoxLabel(decodedText);
+    if (label.imeis.length === 0 || isProcessingRef.current) return;
+
+    const code = label.imeis.join(",");
+    const lastScan = lastScanRef.current;
+    if (lastScan?.code === code && Date.now() - lastScan.at < RESCAN_DELAY_MS) return;
+
+    isProcessingRef.current = true;
+    const unit = { imei: label.imeis[0], imei2: label.imeis[1] ?? "", serialNumber: label.serialNumber ?? "" };
+    try {
+      const result = await onScanSuccessRef.current(unit.imei, unit);
+      const notice = result && typeof result === "object" ? result.notice : undefined;
+      playScanFeedback(typeof result === "string" ? "error" : notice ? "notice" : "success");
+      setLastResult({ imei: unit.imei, error: typeof result === "string" ? result : null, notice });
+    } catch (err) {
+      playScanFeedback("error");
+      setLastResult({ imei: unit.imei, error: (err as Error).message });
+    } finally {
+      lastScanRef.current = { code, at: Date.now() };
+      isProcessingRef.current = false;
+    }
+  };
+
+  // Collects IMEI 1, IMEI 2 and the serial number from one or more barcodes on the box
+  const handleUnitScan = (decodedText: string) => {
+    const current = pendingUnitRef.current ?? emptyUnit();
+    const unit = { ...current };
+    const label = parseBoxLabel(decodedText);
+
+    for (const imei of label.imeis) {
+      if (imei === unit.imei || imei === unit.imei2) continue;
+      if (!unit.imei) unit.imei = imei;
+      else if (!unit.imei2) unit.imei2 = imei;
+    }
+
+    const plainText = decodedText.trim();
+    if (label.serialNumber) {
+      unit.serialNumber = label.serialNumber;
+    } else if (unit.imei && label.imeis.length === 0 && isLikelySerialNumber(plainText)) {
+      unit.serialNumber = plainText.toUpperCase();
+    }
+
+    // The camera reads the same barcode many times per second; other barcodes
+    // on the box (EAN, model code) are ignored without an error
+    if (unit.imei === current.imei && unit.imei2 === current.imei2 && unit.serialNumber === current.serialNumber) {
+      return;
+    }
+
+    if (unit.imei && unit.imei2) {
+      pendingUnitRef.current = null;
+      finishUnit(unit);
+      return;
+    }
+
+    pendingUnitRef.current = unit;
+    setPendingUnit(unit);
+  };
+
   const stopScanner = async () => {
     if (scannerRef.current) {
       try {
@@ -240,6 +385,64 @@ export function BarcodeScanner({
             className="w-full rounded-lg overflow-hidden border-2 border-border"
             style={{ minHeight: "300px" }}
           />
+
+          {continuous && (
+            <div className="space-y-2">
+              {progress && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>Ter-scan</span>
+                    <span className="font-semibold">
+                      {progress.count}{progress.expected ? ` / ${progress.expected}` : ""} unit
+                    </span>
+                  </div>
+                  {progress.expected ? (
+                    <Progress value={Math.min(progress.count / progress.expected, 1) * 100} className="h-2" />
+                  ) : null}
+                </div>
+              )}
+              {lastResult ? (
+                <div className={`flex items-start gap-2 rounded-lg p-3 text-sm ${lastResult.error ? "bg-destructive/10 text-destructive" : lastResult.notice ? "bg-amber-500/10 text-amber-700 dark:text-amber-500" : "bg-muted"}`}>
+                  {lastResult.error
+                    ? <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    : lastResult.notice
+                      ? <Info className="h-4 w-4 mt-0.5 shrink-0" />
+                      : <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />}
+                  <div className="min-w-0">
+                    <div className="font-mono">{lastResult.imei}</div>
+                    <div className={lastResult.error || lastResult.notice ? "" : "text-muted-foreground"}>{lastResult.error ?? lastResult.notice ?? "Ditambahkan"}</div>
+                  </div>
+                </div>
+              ) : (
+                <div className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+                  Scan IMEI satu per satu, kamera tetap menyala sampai Selesai
+                </div>
+              )}
+            </div>
+          )}
+
+          {captureUnit && !continuous && (
+            <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+              {pendingUnit?.imei ? (
+                <>
+                  <div>IMEI 1: <span className="font-mono">{pendingUnit.imei}</span></div>
+                  {pendingUnit.serialNumber && (
+                    <div>S/N: <span className="font-mono">{pendingUnit.serialNumber}</span></div>
+                  )}
+                  <div className="text-muted-foreground">Arahkan kamera ke barcode IMEI 2</div>
+                </>
+              ) : (
+                <div className="text-muted-foreground">Scan IMEI 1, lalu IMEI 2 dan S/N dari label box yang sama</div>
+              )}
+            </div>
+          )}
+
+          {captureUnit && !continuous && pendingUnit?.imei && (
+            <Button className="w-full" onClick={() => finishUnit(pendingUnit)}>
+              <Check className="h-4 w-4 mr-2" />
+              Selesai tanpa IMEI 2
+            </Button>
+          )}
           
           <div className="flex gap-2">
             <Button
@@ -256,8 +459,8 @@ export function BarcodeScanner({
               className="flex-1"
               onClick={() => onOpenChange(false)}
             >
-              <X className="h-4 w-4 mr-2" />
-              Batal
+              {continuous ? <Check className="h-4 w-4 mr-2" /> : <X className="h-4 w-4 mr-2" />}
+              {continuous ? "Selesai" : "Batal"}
             </Button>
           </div>
         </div>
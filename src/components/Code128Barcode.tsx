@@ -0,0 +1,42 @@
+import { useMemo } from "react";
+import { encodeCode128 } from "@/lib/code128";
+
+interface Code128BarcodeProps {
+  value: string;
+  className?: string;
+}
+
+// Scanners need a blank margin of at least 10 modules on both sides
+const QUIET_ZONE = 10;
+
+/**
+ * Code 128 barcode drawn as SVG, so it stays sharp at any print size.
+ * It stretches to the size given by `className`.
+ */
+export function Code128Barcode({ value, className }: Code128BarcodeProps) {
+  const { bars, width } = useMemo(() => {
+    const widths = encodeCode128(value);
+    const bars: { x: number; width: number }[] = [];
+    let x = QUIET_ZONE;
+    widths.forEach((moduleWidth, index) => {
+      if (index % 2 === 0) bars.push({ x, width: moduleWidth });
+      x += moduleWidth;
+    });
+    return { bars, width: x + QUIET_ZONE };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} 100`}
+      preserveAspectRatio="none"
+      className={className}
+      role="img"
+      aria-label={value}
+    >
+      <rect width={width} height={100} fill="white" />
+      {bars.map(bar => (
+        <rect key={bar.x} x={bar.x} width={bar.width} height={100} fill="black" />
+      ))}
+    </svg>
+  );
+}
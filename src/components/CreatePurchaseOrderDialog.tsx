@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Calendar as CalendarIcon, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PurchaseOrderLineInput } from "@/lib/purchaseOrders";
+import { SupplierInput, resolveSupplierId } from "@/lib/suppliers";
+import { cn } from "@/lib/utils";
+
+interface CreatePurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CreatePurchaseOrderDialog({ open, onOpenChange }: CreatePurchaseOrderDialogProps) {
+  const [supplier, setSupplier] = useState<SupplierInput | null>(null);
+  const [expectedDate, setExpectedDate] = useState<Date | null>(null);
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLineInput[]>([]);
+  const [modelId, setModelId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [unitCost, setUnitCost] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: phoneModels } = useQuery({
+    queryKey: ['phone-models', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('id, brand, model, storage_capacity, color, srp')
+        .is('archived_at', null)
+        .order('brand')
+        .order('model');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open
+  });
+
+  const getModelName = (phoneModelId: string) => {
+    const model = phoneModels?.find(m => m.id === phoneModelId);
+    return model ? [model.brand, model.model, model.storage_capacity, model.color].filter(Boolean).join(' ') : '-';
+  };
+
+  const parsedQuantity = parseInt(quantity) || 0;
+  const parsedUnitCost = parseInt(unitCost.replace(/\D/g, '')) || 0;
+  const totalCost = lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+
+  const resetForm = () => {
+    setSupplier(null);
+    setExpectedDate(null);
+    setNotes("");
+    setLines([]);
+    setModelId("");
+    setQuantity("1");
+    setUnitCost("");
+  };
+
+  const addLine = () => {
+    if (!modelId || parsedQuantity <= 0) return;
+    // Ordering the same model twice adds to the existing line
+    const existing = lines.find(l => l.phoneModelId === modelId);
+    setLines(existing
+      ? lines.map(l => l === existing ? { ...l, quantity: l.quantity + parsedQuantity, unitCost: parsedUnitCost } : l)
+      : [...lines, { phoneModelId: modelId, quantity: parsedQuantity, unitCost: parsedUnitCost }]);
+    setModelId("");
+    setQuantity("1");
+    setUnitCost("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supplier) throw new Error('Supplier wajib dipilih');
+      if (lines.length === 0) throw new Error('Tambahkan minimal 1 model HP');
+
+      const supplierId = await resolveSupplierId(supplier);
+
+      const { data: order, error: orderError } = await supabase
+        .from('purchase_orders')
+        .insert({
+          supplier_id: supplierId,
+          expected_date: expectedDate ? format(expectedDate, 'yyyy-MM-dd') : null,
+          notes: notes.trim() || null
+        })
+        .select('id, order_number')
+        .single();
+
+      if (orderError) throw new Error(`Gagal menyimpan PO: ${orderError.message}`);
+
+      const { error: linesError } = await supabase
+        .from('purchase_order_lines')
+        .insert(lines.map(l => ({
+          purchase_order_id: order.id,
+          phone_model_id: l.phoneModelId,
+          quantity: l.quantity,
+          unit_cost: l.unitCost
+        })));
+
+      if (linesError) {
+        // Do not leave an empty PO behind
+        await supabase.from('purchase_orders').delete().eq('id', order.id);
+        throw new Error(`Gagal menyimpan barang PO: ${linesError.message}`);
+      }
+
+      return order.order_number;
+    },
+    onSuccess: (orderNumber) => {
+      toast({ title: "Berhasil", description: `PO ${orderNumber} dibuat` });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      resetForm();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>PO Baru</DialogTitle>
+          <DialogDescription>
+            Catat pesanan ke distributor sebelum barang datang
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pb-4">
+          <SupplierPicker value={supplier} onChange={setSupplier} />
+
+          <div className="space-y-2">
+            <Label>Perkiraan Datang (Opsional)</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn("w-full justify-start text-left font-normal", !expectedDate && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {expectedDate ? format(expectedDate, "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={expectedDate ?? undefined}
+                  onSelect={(d) => setExpectedDate(d ?? null)}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2 rounded-lg border border-border p-3">
+            <Label>Barang Dipesan</Label>
+            <Select
+              value={modelId}
+              onValueChange={(value) => {
+                setModelId(value);
+                const model = phoneModels?.find(m => m.id === value);
+                if (model?.srp) setUnitCost(model.srp.toLocaleString('id-ID'));
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pilih model HP" />
+              </SelectTrigger>
+              <SelectContent>
+                {phoneModels?.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {getModelName(model.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input
+                className="w-20"
+                inputMode="numeric"
+                placeholder="Qty"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value.replace(/\D/g, ''))}
+              />
+              <Input
+                className="flex-1"
+                inputMode="numeric"
+                placeholder="Harga per unit"
+                value={unitCost}
+                onChange={(e) => {
+                  const digits = e.target.value.replace(/\D/g, '');
+                  setUnitCost(digits ? parseInt(digits).toLocaleString('id-ID') : '');
+                }}
+              />
+              <Button type="button" variant="outline" size="icon" onClick={addLine} disabled={!modelId || parsedQuantity <= 0}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {lines.length > 0 && (
+              <div className="space-y-1 pt-2">
+                {lines.map((line) => (
+                  <div key={line.phoneModelId} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">{getModelName(line.phoneModelId)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {line.quantity} x Rp {line.unitCost.toLocaleString('id-ID')}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => setLines(lines.filter(l => l !== line))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-1 mt-1 text-sm font-semibold">
+                  <span>Total</span>
+                  <span>Rp {totalCost.toLocaleString('id-ID')}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Catatan (Opsional)</Label>
+            <Textarea
+              placeholder="Misal: dipesan via WhatsApp ke sales"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !supplier || lines.length === 0}
+              className="flex-1"
+            >
+              {createMutation.isPending ? "Menyimpan..." : "Simpan PO"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useProfiles } from "@/hooks/useProfiles";
+import type { CreditSaleSummary } from "@/hooks/useCreditSales";
+import { INSTALLMENT_STATUS_BADGES } from "@/lib/credit";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+
+interface CreditPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  credit: CreditSaleSummary | null;
+}
+
+export function CreditPaymentDialog({ open, onOpenChange, credit }: CreditPaymentDialogProps) {
+  // Suggests the rest of the next installment; the list remounts this dialog per credit sale
+  const [amount, setAmount] = useState(() => {
+    const suggested = credit?.nextInstallment?.remaining ?? credit?.outstanding ?? 0;
+    return suggested > 0 ? suggested.toLocaleString('id-ID') : "";
+  });
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+  const [paidAt, setPaidAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { getUserName } = useProfiles();
+
+  const parsedAmount = parseInt(amount.replace(/\D/g, '')) || 0;
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      if (!credit) return;
+      if (parsedAmount > credit.outstanding) throw new Error('Pembayaran melebihi sisa piutang');
+
+      const { error } = await supabase
+        .from('credit_payments')
+        .insert({
+          credit_sale_id: credit.id,
+          amount: parsedAmount,
+          method,
+          reference: reference.trim() || null,
+          paid_at: paidAt,
+        });
+
+      if (error) throw new Error(`Gagal menyimpan pembayaran: ${error.message}`);
+    },
+    onSuccess: () => {
+      const isPaidOff = credit && parsedAmount === credit.outstanding;
+      toast({
+        title: "Berhasil",
+        description: isPaidOff
+          ? `Kredit ${credit?.customer?.name} lunas`
+          : `Pembayaran Rp ${parsedAmount.toLocaleString('id-ID')} dicatat`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['credit-sales'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-method-stats'] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!credit) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>Pembayaran Cicilan</DialogTitle>
+          <DialogDescription>
+            {credit.customer?.name} • {credit.itemName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg bg-muted p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Harga Jual:</span>
+              <span className="font-medium">Rp {credit.totalPrice.toLocaleString('id-ID')}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Sudah Dibayar (termasuk DP):</span>
+              <span className="font-medium">Rp {credit.collected.toLocaleString('id-ID')}</span>
+            </div>
+            <div className="flex justify-between border-t pt-1 mt-1">
+              <span className="font-semibold">Sisa Piutang:</span>
+              <span className="font-semibold text-destructive">Rp {credit.outstanding.toLocaleString('id-ID')}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Jadwal Cicilan</Label>
+            <div className="rounded-lg border border-border divide-y divide-border text-sm">
+              {credit.installments.map((installment) => {
+                const badge = INSTALLMENT_STATUS_BADGES[installment.status];
+                return (
+                  <div key={installment.installmentNumber} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div>
+                      <div className="font-medium">Cicilan {installment.installmentNumber}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDateShort(parseDbDate(installment.dueDate))}
+                        {installment.daysOverdue > 0 && ` • terlambat ${installment.daysOverdue} hari`}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div>Rp {installment.amount.toLocaleString('id-ID')}</div>
+                      <Badge variant={badge.variant} className="text-xs">{badge.label}</Badge>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {credit.status === 'active' && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="credit-payment-amount">Jumlah Bayar (Rp)</Label>
+                <Input
+                  id="credit-payment-amount"
+                  inputMode="numeric"
+                  value={amount}
+                  onChange={(e) => {
+                    const digits = e.target.value.replace(/\D/g, '');
+                    setAmount(digits ? parseInt(digits).toLocaleString('id-ID') : '');
+                  }}
+                />
+              </div>
+              <div className="flex gap-2">
+                <div className="space-y-2 flex-1">
+                  <Label>Metode</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_METHOD_LABELS).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="credit-payment-date">Tanggal</Label>
+                  <Input
+                    id="credit-payment-date"
+                    type="date"
+                    value={paidAt}
+                    onChange={(e) => setPaidAt(e.target.value)}
+                  />
+                </div>
+              </div>
+              {method !== 'cash' && (
+                <Input
+                  placeholder="No. referensi (opsional)"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          {credit.payments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Riwayat Pembayaran</Label>
+              <div className="rounded-lg border border-border divide-y divide-border text-sm">
+                {credit.payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div>
+                      <div>{formatDateShort(parseDbDate(payment.paid_at))}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                        {payment.reference && ` (${payment.reference})`}
+                        {payment.created_by && ` • ${getUserName(payment.created_by)}`}
+                      </div>
+                    </div>
+                    <span className="font-medium">Rp {payment.amount.toLocaleString('id-ID')}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Tutup
+          </Button>
+          {credit.status === 'active' && (
+            <Button
+              onClick={() => paymentMutation.mutate()}
+              disabled={parsedAmount <= 0 || parsedAmount > credit.outstanding || !paidAt || paymentMutation.isPending}
+            >
+              {paymentMutation.isPending ? "Menyimpan..." : "Simpan Pembayaran"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { addMonths } from "date-fns";
+import { Calendar as CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { CreditTerms, buildInstallmentSchedule } from "@/lib/credit";
+import { formatDateShort } from "@/lib/dateUtils";
+
+const TENOR_OPTIONS = [1, 2, 3, 4, 5, 6, 9, 12];
+
+interface CreditSaleInputProps {
+  price: number;
+  value: CreditTerms | null;
+  onChange: (terms: CreditTerms | null) => void;
+}
+
+export function CreditSaleInput({ price, value, onChange }: CreditSaleInputProps) {
+  const [enabled, setEnabled] = useState(!!value);
+  const [downPayment, setDownPayment] = useState("");
+  const [tenor, setTenor] = useState(3);
+  const [firstDueDate, setFirstDueDate] = useState<Date>(() => addMonths(new Date(), 1));
+
+  const parsedDownPayment = parseInt(downPayment.replace(/\D/g, '')) || 0;
+
+  // The schedule follows the price, which can still change in the manual entry form
+  useEffect(() => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      downPayment: parsedDownPayment,
+      installments: buildInstallmentSchedule(price - parsedDownPayment, tenor, firstDueDate),
+    });
+  }, [enabled, parsedDownPayment, tenor, firstDueDate, price, onChange]);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="credit-sale-toggle">Jual Kredit</Label>
+        <Switch id="credit-sale-toggle" checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="credit-down-payment">DP (Rp)</Label>
+              <Input
+                id="credit-down-payment"
+                inputMode="numeric"
+                placeholder="0"
+                value={downPayment}
+                onChange={(e) => {
+                  const digits = e.target.value.replace(/\D/g, '');
+                  setDownPayment(digits ? parseInt(digits).toLocaleString('id-ID') : '');
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tenor</Label>
+              <Select value={String(tenor)} onValueChange={(v) => setTenor(parseInt(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TENOR_OPTIONS.map((months) => (
+                    <SelectItem key={months} value={String(months)}>{months}x cicilan</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Jatuh Tempo Pertama</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {formatDateShort(firstDueDate)}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={firstDueDate}
+                  onSelect={(date) => date && setFirstDueDate(date)}
+                  initialFocus
+                  className="pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          {parsedDownPayment >= price ? (
+            <p className="text-sm text-destructive">DP harus lebih kecil dari harga jual.</p>
+          ) : (
+            <div className="rounded-lg bg-muted p-3 space-y-1 text-sm">
+              {value?.installments.map((installment, index) => (
+                <div key={index} className="flex justify-between">
+                  <span>Cicilan {index + 1} • {formatDateShort(installment.dueDate)}</span>
+                  <span className="font-medium">Rp {installment.amount.toLocaleString('id-ID')}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t pt-1 mt-1">
+                <span className="font-semibold">Sisa Piutang:</span>
+                <span className="font-semibold">Rp {(price - parsedDownPayment).toLocaleString('id-ID')}</span>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { CreditSaleSummary } from "@/hooks/useCreditSales";
+import { CREDIT_STATUS_BADGES } from "@/lib/credit";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { cn } from "@/lib/utils";
+import { CreditPaymentDialog } from "./CreditPaymentDialog";
+
+interface CreditSaleListProps {
+  credits: CreditSaleSummary[];
+  showCustomer?: boolean;
+}
+
+export function CreditSaleList({ credits, showCustomer = true }: CreditSaleListProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Looked up on every render so the dialog shows fresh numbers after a payment
+  const selectedCredit = credits.find(c => c.id === selectedId) || null;
+
+  return (
+    <>
+      <div className="space-y-2">
+        {credits.map((credit) => {
+          const status = CREDIT_STATUS_BADGES[credit.status] || CREDIT_STATUS_BADGES.active;
+          const next = credit.nextInstallment;
+
+          return (
+            <div
+              key={credit.id}
+              className={cn(
+                "flex items-center justify-between gap-4 rounded-lg border border-border p-3",
+                credit.status === 'cancelled' && "opacity-60"
+              )}
+            >
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex flex-wrap items-center gap-2">
+                  {showCustomer && credit.customer ? (
+                    <Link to={`/customers/${credit.customer.id}`} className="font-medium hover:underline">
+                      {credit.customer.name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{credit.itemName}</span>
+                  )}
+                  <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                </div>
+                {showCustomer && <div className="text-sm">{credit.itemName}</div>}
+                <Link to={`/imei/${credit.imei}`} className="text-xs font-mono text-primary hover:underline">
+                  {credit.imei}
+                </Link>
+                <div className="text-xs text-muted-foreground">
+                  Terjual {formatDateShort(parseDbDate(credit.saleDate))}
+                  {credit.status === 'active' && next && (
+                    <span className={cn(next.status === 'overdue' && "text-destructive font-medium")}>
+                      {' • '}Cicilan {next.installmentNumber} jatuh tempo {formatDateShort(parseDbDate(next.dueDate))}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="text-right shrink-0 space-y-1">
+                <div className="text-xs text-muted-foreground">Sisa</div>
+                <div className="font-semibold">Rp {credit.outstanding.toLocaleString('id-ID')}</div>
+                <Button variant="outline" size="sm" onClick={() => setSelectedId(credit.id)}>
+                  {credit.status === 'active' ? 'Bayar' : 'Detail'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <CreditPaymentDialog
+        key={selectedId}
+        open={!!selectedCredit}
+        onOpenChange={(isOpen) => !isOpen && setSelectedId(null)}
+        credit={selectedCredit}
+      />
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PROFIT_RECOGNITION_LABELS, ProfitRecognitionRule, normalizeProfitRecognitionRule } from "@/lib/credit";
+
+const SETTING_KEY = 'credit_profit_recognition';
+
+export function CreditSettingsCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rule, isLoading } = useQuery({
+    queryKey: ['app-settings', SETTING_KEY],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', SETTING_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return normalizeProfitRecognitionRule(data?.value);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (value: ProfitRecognitionRule) => {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key: SETTING_KEY, value, updated_at: new Date().toISOString() });
+
+      if (error) throw new Error(`Gagal menyimpan pengaturan: ${error.message}`);
+    },
+    onSuccess: (_, value) => {
+      toast({ title: "Berhasil", description: `Laba kredit kini diakui: ${PROFIT_RECOGNITION_LABELS[value].label}` });
+      queryClient.invalidateQueries({ queryKey: ['app-settings', SETTING_KEY] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Penjualan Kredit</CardTitle>
+        <CardDescription>
+          Kapan laba dari penjualan kredit diakui. Berlaku untuk penjualan kredit berikutnya.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse">
+            <div className="h-24 bg-muted rounded" />
+          </div>
+        ) : (
+          <RadioGroup
+            value={rule}
+            onValueChange={(value) => updateMutation.mutate(value as ProfitRecognitionRule)}
+            disabled={updateMutation.isPending}
+          >
+            {Object.entries(PROFIT_RECOGNITION_LABELS).map(([key, { label, description }]) => (
+              <div key={key} className="flex items-start gap-3 rounded-lg border border-border p-3">
+                <RadioGroupItem value={key} id={`profit-rule-${key}`} className="mt-0.5" />
+                <Label htmlFor={`profit-rule-${key}`} className="space-y-1 font-normal cursor-pointer">
+                  <div className="font-medium">{label}</div>
+                  <div className="text-sm text-muted-foreground">{description}</div>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
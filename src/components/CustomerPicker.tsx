@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { CustomerInput } from "@/lib/customers";
+
+interface CustomerPickerProps {
+  value: CustomerInput | null;
+  onChange: (customer: CustomerInput | null) => void;
+  required?: boolean;
+}
+
+export function CustomerPicker({ value, onChange, required = false }: CustomerPickerProps) {
+  const [search, setSearch] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+
+  // PostgREST filter syntax uses these characters, so they are stripped from the term
+  const term = search.trim().replace(/[,()%]/g, "");
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: ['customers', 'search', term],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .or(`name.ilike.%${term}%,phone.ilike.%${term}%`)
+        .order('name')
+        .limit(8);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: term.length >= 2 && !value
+  });
+
+  const resetForm = () => {
+    setSearch("");
+    setIsCreating(false);
+    setName("");
+    setPhone("");
+    setAddress("");
+  };
+
+  if (value) {
+    return (
+      <div className="space-y-2">
+        <Label>Pelanggan</Label>
+        <div className="flex items-start justify-between gap-2 rounded-lg border border-border p-3">
+          <div className="min-w-0 text-sm">
+            <div className="font-medium">
+              {value.name}
+              {!value.id && <span className="ml-2 text-xs text-muted-foreground">(baru)</span>}
+            </div>
+            {value.phone && <div className="text-muted-foreground">{value.phone}</div>}
+            {value.address && <div className="text-xs text-muted-foreground truncate">{value.address}</div>}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={() => {
+              onChange(null);
+              resetForm();
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isCreating) {
+    return (
+      <div className="space-y-3 rounded-lg border border-border p-3">
+        <div className="flex items-center justify-between">
+          <Label>Pelanggan Baru</Label>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsCreating(false)}>
+            Batal
+          </Button>
+        </div>
+        <Input placeholder="Nama pelanggan" value={name} onChange={(e) => setName(e.target.value)} />
+        <Input
+          placeholder="No. HP (opsional)"
+          inputMode="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+        />
+        <Textarea
+          placeholder="Alamat (opsional)"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          rows={2}
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          className="w-full"
+          disabled={!name.trim()}
+          onClick={() => onChange({ name: name.trim(), phone: phone.trim() || null, address: address.trim() || null })}
+        >
+          Gunakan Pelanggan Ini
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>{required ? "Pelanggan (wajib untuk kredit)" : "Pelanggan (opsional)"}</Label>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Cari nama atau no. HP"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+      {term.length >= 2 && (
+        <div className="rounded-lg border border-border divide-y divide-border max-h-48 overflow-y-auto">
+          {results?.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="w-full px-3 py-2 text-left text-sm hover:bg-muted/50 transition-colors"
+              onClick={() => onChange({ id: customer.id, name: customer.name, phone: customer.phone, address: customer.address })}
+            >
+              <div className="font-medium">{customer.name}</div>
+              {customer.phone && <div className="text-xs text-muted-foreground">{customer.phone}</div>}
+            </button>
+          ))}
+          {!isFetching && results?.length === 0 && (
+            <div className="px-3 py-2 text-sm text-muted-foreground">Pelanggan tidak ditemukan.</div>
+          )}
+        </div>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => {
+          setIsCreating(true);
+          // Carry over what was typed into the matching field
+          if (/^[\d+\s-]+$/.test(term)) setPhone(term);
+          else setName(term);
+        }}
+      >
+        <UserPlus className="h-4 w-4 mr-2" />
+        Pelanggan Baru
+      </Button>
+    </div>
+  );
+}
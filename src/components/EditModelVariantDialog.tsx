@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { isAccessory } from "@/lib/accessories";
+import { CatalogModel, findDuplicateVariant, getModelSeries } from "@/lib/catalog";
+
+interface EditModelVariantDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phoneModel: CatalogModel | null;
+}
+
+export function EditModelVariantDialog({ open, onOpenChange, phoneModel }: EditModelVariantDialogProps) {
+  const [formData, setFormData] = useState({ brand: '', series: '', model: '', ram: '', storage_capacity: '', color: '', barcode: '' });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!open || !phoneModel) return;
+    setFormData({
+      brand: phoneModel.brand,
+      series: phoneModel.series || '',
+      model: phoneModel.model,
+      ram: phoneModel.ram || '',
+      storage_capacity: phoneModel.storage_capacity || '',
+      color: phoneModel.color || '',
+      barcode: phoneModel.barcode || ''
+    });
+  }, [open, phoneModel]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      if (!phoneModel) return;
+      const values = {
+        brand: formData.brand.trim().toUpperCase(),
+        series: formData.series.trim() || null,
+        model: formData.model.trim(),
+        ram: formData.ram.trim() || null,
+        storage_capacity: formData.storage_capacity.trim() || null,
+        color: formData.color.trim() || null,
+        barcode: isAccessory(phoneModel) ? formData.barcode.trim() || null : phoneModel.barcode
+      };
+
+      if (values.brand.length < 2) throw new Error('Nama merk minimal 2 karakter');
+      if (values.model.length < 2) throw new Error('Model HP minimal 2 karakter');
+
+      const duplicate = await findDuplicateVariant(values, phoneModel.id);
+      if (duplicate) {
+        throw new Error(duplicate.archived_at
+          ? 'Varian yang sama sudah ada di arsip. Pulihkan atau gabungkan model tersebut.'
+          : 'Varian yang sama sudah ada. Gunakan Gabungkan untuk menyatukan keduanya.');
+      }
+
+      const { error } = await supabase
+        .from('phone_models')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', phoneModel.id);
+
+      if (error) {
+        if (error.code === '23505' && error.message.includes('barcode')) {
+          throw new Error(`Barcode ${values.barcode} sudah dipakai barang lain`);
+        }
+        throw new Error(`Gagal menyimpan model: ${error.message}`);
+      }
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "Model diperbarui" });
+      queryClient.invalidateQueries({ queryKey: ['phone-models'] });
+      queryClient.invalidateQueries({ queryKey: ['brands'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const setField = (field: keyof typeof formData) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFormData(current => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>Edit Model</DialogTitle>
+          <DialogDescription>
+            Perubahan berlaku untuk semua stok dan riwayat model ini. SRP diubah dari halaman detail model.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pb-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="variant-brand">Merk</Label>
+              <Input id="variant-brand" value={formData.brand} onChange={setField('brand')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variant-series">Seri</Label>
+              <Input
+                id="variant-series"
+                value={formData.series}
+                onChange={setField('series')}
+                placeholder={formData.model ? getModelSeries({ model: formData.model }) : 'cth: Galaxy A'}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="variant-model">Model</Label>
+            <Input id="variant-model" value={formData.model} onChange={setField('model')} />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="variant-ram">RAM</Label>
+              <Input id="variant-ram" value={formData.ram} onChange={setField('ram')} placeholder="8GB" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variant-storage">Penyimpanan</Label>
+              <Input id="variant-storage" value={formData.storage_capacity} onChange={setField('storage_capacity')} placeholder="256GB" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variant-color">Warna</Label>
+              <Input id="variant-color" value={formData.color} onChange={setField('color')} placeholder="Hitam" />
+            </div>
+          </div>
+          {isAccessory(phoneModel) && (
+            <div className="space-y-2">
+              <Label htmlFor="variant-barcode">Barcode</Label>
+              <Input id="variant-barcode" value={formData.barcode} onChange={setField('barcode')} />
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate()}
+              disabled={updateMutation.isPending || !formData.brand.trim() || !formData.model.trim()}
+              className="flex-1"
+            >
+              {updateMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { Calendar as CalendarIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +14,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
@@ -29,12 +34,14 @@ interface EditPhoneModelDialogProps {
 
 export function EditPhoneModelDialog({ open, onOpenChange, phoneModel }: EditPhoneModelDialogProps) {
   const [srpFormatted, setSrpFormatted] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState<Date>(new Date());
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   useEffect(() => {
     if (phoneModel) {
       setSrpFormatted(phoneModel.srp ? formatPrice(phoneModel.srp.toString()) : '');
+      setEffectiveDate(new Date());
     }
   }, [phoneModel]);
 
@@ -50,15 +57,18 @@ export function EditPhoneModelDialog({ open, onOpenChange, phoneModel }: EditPho
   const updateMutation = useMutation({
     mutationFn: async (srp: number) => {
       if (!phoneModel) return;
-      const { error } = await supabase
-        .from('phone_models')
-        .update({ srp })
-        .eq('id', phoneModel.id);
+      // Recorded in the price history; phone_models.srp follows the price in effect today
+      const { error } = await supabase.rpc('set_phone_model_srp', {
+        p_phone_model_id: phoneModel.id,
+        p_srp: srp,
+        p_effective_date: format(effectiveDate, 'yyyy-MM-dd')
+      });
       if (error) throw error;
     },
     onSuccess: () => {
       toast({ title: 'SRP berhasil diupdate' });
       queryClient.invalidateQueries({ queryKey: ['phone-models'] });
+      queryClient.invalidateQueries({ queryKey: ['price-history', phoneModel?.id] });
       onOpenChange(false);
     },
     onError: (error: any) => {
@@ -105,6 +115,33 @@ export function EditPhoneModelDialog({ open, onOpenChange, phoneModel }: EditPho
               autoFocus
             />
           </div>
+          <div className="space-y-2">
+            <Label>Berlaku Sejak</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full justify-start text-left font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(effectiveDate, 'PPP', { locale: id })}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={effectiveDate}
+                  onSelect={(date) => date && setEffectiveDate(date)}
+                  disabled={(date) => date > new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <p className="text-xs text-muted-foreground">
+              Penjualan sejak tanggal ini memakai SRP baru
+            </p>
+          </div>
           <DialogFooter>
             <Button type="submit" disabled={updateMutation.isPending}>
               Update SRP
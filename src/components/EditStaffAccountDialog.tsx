@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { AppRole, normalizeRole, ROLE_LABELS } from '@/lib/permissions';
+
+export type StaffAccount = Database['public']['Functions']['list_staff_accounts']['Returns'][number];
+
+interface EditStaffAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: StaffAccount | null;
+  isSelf: boolean;
+}
+
+const NO_LOCATION = 'none';
+
+export function EditStaffAccountDialog({ open, onOpenChange, account, isSelf }: EditStaffAccountDialogProps) {
+  const [fullName, setFullName] = useState('');
+  const [role, setRole] = useState<AppRole>('cashier');
+  const [homeLocationId, setHomeLocationId] = useState(NO_LOCATION);
+  const [isActive, setIsActive] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('stock_locations').select('*').order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  useEffect(() => {
+    if (account) {
+      setFullName(account.full_name || '');
+      setRole(normalizeRole(account.role));
+      setHomeLocationId(account.home_location_id || NO_LOCATION);
+      setIsActive(account.is_active);
+    }
+  }, [account]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      if (!account) return;
+      const { error } = await supabase.rpc('update_staff_account', {
+        p_user_id: account.user_id,
+        p_full_name: fullName,
+        p_role: role,
+        p_home_location_id: homeLocationId === NO_LOCATION ? null : homeLocationId,
+        p_is_active: isActive,
+      });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      toast({ title: 'Berhasil', description: 'Data pengguna berhasil diupdate.' });
+      queryClient.invalidateQueries({ queryKey: ['staff-accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Gagal', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate();
+  };
+
+  if (!account) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>Edit Pengguna</DialogTitle>
+          <DialogDescription>{account.email}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 pb-4">
+          <div className="space-y-2">
+            <Label htmlFor="full-name">Nama Lengkap</Label>
+            <Input
+              id="full-name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              placeholder="cth: Budi Santoso"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Peran</Label>
+            {/* Owners cannot demote themselves, otherwise they could lock themselves out */}
+            <Select value={role} onValueChange={(value) => setRole(value as AppRole)} disabled={isSelf}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as AppRole[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Lokasi Utama</Label>
+            <Select value={homeLocationId} onValueChange={setHomeLocationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LOCATION}>Tidak ada</SelectItem>
+                {locations?.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between rounded-lg border border-border p-3">
+            <div>
+              <Label htmlFor="is-active">Akun Aktif</Label>
+              <p className="text-xs text-muted-foreground">Akun nonaktif tidak bisa mengubah data stok</p>
+            </div>
+            <Switch id="is-active" checked={isActive} onCheckedChange={setIsActive} disabled={isSelf} />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? 'Menyimpan...' : 'Simpan'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
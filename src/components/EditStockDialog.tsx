@@ -8,6 +8,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { StockEntry } from "./StockTable"; // Assuming StockEntry is exported from StockTable
+import { ImeiHint } from "./ImeiHint";
+import { useKnownTacs } from "@/hooks/useKnownTacs";
+import { normalizeImei, validateImei } from "@/lib/imei";
 
 interface EditStockDialogProps {
   open: boolean;
@@ -20,6 +23,7 @@ export function EditStockDialog({ open, onOpenChange, stockEntry }: EditStockDia
   const [imei, setImei] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: knownTacs } = useKnownTacs(stockEntry?.phone_models.id, { enabled: open });
 
   useEffect(() => {
     if (stockEntry) {
@@ -29,20 +33,20 @@ export function EditStockDialog({ open, onOpenChange, stockEntry }: EditStockDia
   }, [stockEntry]);
 
   const editStockMutation = useMutation({
-    mutationFn: async ({ notes, imei }: { notes: string; imei: string }) => {
+    mutationFn: async ({ notes, imei: rawImei }: { notes: string; imei: string }) => {
       if (!stockEntry) throw new Error("Tidak ada entri stok yang dipilih");
+      const imei = normalizeImei(rawImei);
       
       // Validate IMEI if changed
-      if (imei.trim() && imei.trim() !== stockEntry.imei) {
-        if (imei.trim().length < 10) {
-          throw new Error('IMEI tidak valid (minimal 10 karakter)');
-        }
+      if (imei && imei !== stockEntry.imei) {
+        const imeiError = validateImei(imei);
+        if (imeiError) throw new Error(imeiError);
         
         // Check if new IMEI already exists
         const { data: existingImei, error: checkError } = await supabase
           .from('stock_entries')
           .select('id')
-          .eq('imei', imei.trim())
+          .eq('imei', imei)
           .neq('id', stockEntry.id)
           .maybeSingle();
 
@@ -57,7 +61,7 @@ export function EditStockDialog({ open, onOpenChange, stockEntry }: EditStockDia
         .from('stock_entries')
         .update({ 
           notes: notes.trim() || null, 
-          imei: imei.trim() || null 
+          imei: imei || null 
         })
         .eq('id', stockEntry.id);
 
@@ -110,6 +114,7 @@ export function EditStockDialog({ open, onOpenChange, stockEntry }: EditStockDia
               onChange={(e) => setImei(e.target.value)}
               inputMode="numeric"
             />
+            {imei !== (stockEntry?.imei || "") && <ImeiHint imei={imei} knownTacs={knownTacs} />}
           </div>
           <div className="space-y-2">
             <Label>Catatan</Label>
@@ -8,6 +8,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Check, X, Edit3 } from 'lucide-react';
 import { StockEntry } from './StockTable';
+import { ImeiHint } from './ImeiHint';
+import { useKnownTacs } from '@/hooks/useKnownTacs';
+import { normalizeImei, validateImei, validateImeiPair } from '@/lib/imei';
+import { findRegisteredNumbers, updateUnitIdentifier } from '@/lib/unitIdentifiers';
 
 interface EditStockInlineProps {
   stockEntry: StockEntry;
@@ -18,6 +22,8 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     imei: stockEntry.imei || '',
+    imei2: stockEntry.imei2 || '',
+    serial_number: stockEntry.serial_number || '',
     notes: stockEntry.notes || '',
     cost_price: stockEntry.cost_price || 0,
     selling_price: stockEntry.selling_price || 0,
@@ -41,6 +47,8 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
     }
   });
 
+  const { data: knownTacs } = useKnownTacs(formData.phone_model_id, { enabled: isEditing });
+
   // Fetch locations for selection
   const { data: locations } = useQuery({
     queryKey: ['locations'],
@@ -56,24 +64,23 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
 
   const updateStockMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
-      // Validate IMEI if changed
-      if (data.imei.trim() && data.imei.trim() !== stockEntry.imei) {
-        if (data.imei.trim().length < 10) {
-          throw new Error('IMEI tidak valid (minimal 10 karakter)');
-        }
-        
-        // Check if new IMEI already exists
-        const { data: existingImei, error: checkError } = await supabase
-          .from('stock_entries')
-          .select('id')
-          .eq('imei', data.imei.trim())
-          .neq('id', stockEntry.id)
-          .maybeSingle();
+      const imei = normalizeImei(data.imei);
+      const imei2 = normalizeImei(data.imei2);
+      const serialNumber = data.serial_number.trim().toUpperCase();
+      const imeiChanged = imei !== (stockEntry.imei || '');
+      const imei2Changed = imei2 !== (stockEntry.imei2 || '');
+
+      if (imei2 && !imei) throw new Error('IMEI 2 hanya bisa diisi bersama IMEI');
 
-        if (checkError) throw new Error(`Gagal memeriksa IMEI: ${checkError.message}`);
+      // Validate IMEI if changed
+      if ((imei && imeiChanged) || imei2Changed) {
+        const imeiError = imei2 ? validateImeiPair(imei, imei2).error : validateImei(imei);
+        if (imeiError) throw new Error(imeiError);
         
-        if (existingImei) {
-          throw new Error('IMEI ini sudah terdaftar untuk stok lain');
+        // Check if either number already belongs to another unit in stock
+        const registered = await findRegisteredNumbers(imei2 ? [imei, imei2] : [imei], stockEntry.imei || undefined);
+        if (registered.length > 0) {
+          throw new Error(`IMEI ${registered.join(', ')} sudah terdaftar untuk stok lain`);
         }
       }
 
@@ -81,7 +88,7 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
       const { error: updateError } = await supabase
         .from('stock_entries')
         .update({
-          imei: data.imei.trim() || null,
+          imei: imei || null,
           notes: data.notes.trim() || null,
           cost_price: data.cost_price || 0,
           selling_price: data.selling_price || 0,
@@ -92,6 +99,10 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
 
       if (updateError) throw new Error(`Gagal update stok: ${updateError.message}`);
 
+      if (imei && (imeiChanged || imei2Changed || serialNumber !== (stockEntry.serial_number || ''))) {
+        await updateUnitIdentifier(stockEntry.imei, { imei, imei2, serialNumber });
+      }
+
       // If phone model or location changed, we need to update stock_events too
       if (data.phone_model_id !== stockEntry.phone_models.id || 
           data.location_id !== stockEntry.stock_locations.id) {
@@ -126,6 +137,7 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
       });
       queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['unit-identifiers'] });
       setIsEditing(false);
     },
     onError: (error: any) => {
@@ -144,6 +156,8 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
   const handleCancel = () => {
     setFormData({
       imei: stockEntry.imei || '',
+      imei2: stockEntry.imei2 || '',
+      serial_number: stockEntry.serial_number || '',
       notes: stockEntry.notes || '',
       cost_price: stockEntry.cost_price || 0,
       selling_price: stockEntry.selling_price || 0,
@@ -178,6 +192,37 @@ export function EditStockInline({ stockEntry, onCancel }: EditStockInlineProps)
             placeholder="Masukkan IMEI"
             className="mt-1"
           />
+          {(formData.imei !== (stockEntry.imei || '') || formData.phone_model_id !== stockEntry.phone_models.id) && (
+            <div className="mt-1">
+              <ImeiHint imei={formData.imei} knownTacs={knownTacs} />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-sm font-medium">IMEI 2</label>
+            <Input
+              value={formData.imei2}
+              onChange={(e) => setFormData(prev => ({ ...prev, imei2: e.target.value }))}
+              placeholder="Opsional"
+              className="mt-1"
+            />
+            {formData.imei2 !== (stockEntry.imei2 || '') && (
+              <div className="mt-1">
+                <ImeiHint imei={formData.imei2} pairedWith={formData.imei} />
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">S/N</label>
+            <Input
+              value={formData.serial_number}
+              onChange={(e) => setFormData(prev => ({ ...prev, serial_number: e.target.value }))}
+              placeholder="Opsional"
+              className="mt-1"
+            />
+          </div>
         </div>
         
         <div>
@@ -1,51 +1,122 @@
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Plus, Truck, Smartphone, MapPin, Tags } from 'lucide-react';
+import { Plus, Truck, Smartphone, MapPin, Tags, Undo2, ClipboardCheck, Users, Wallet, Factory, ClipboardList, ShoppingCart, BadgePercent, Library, LucideIcon } from 'lucide-react';
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/lib/permissions';
 import { AddStockDialog } from './AddStockDialog';
 import { IncomingStockDialog } from './IncomingStockDialog';
 import { AddPhoneModelDialog } from './AddPhoneModelDialog';
 import { ManageBrandsDialog } from './ManageBrandsDialog';
 import { AddLocationDialog } from './AddLocationDialog';
+import { ReturnStockDialog } from './ReturnStockDialog';
 
 export function FabMenu() {
   const [dialog, setDialog] = useState<string | null>(null);
   const [popoverOpen, setPopoverOpen] = useState(false);
+  const navigate = useNavigate();
+  const { can } = usePermissions();
 
-  const handleActionClick = (dialogName: string) => {
-    setDialog(dialogName);
+  const handleActionClick = (action: { dialog?: string; path?: string }) => {
+    if (action.path) navigate(action.path);
+    else setDialog(action.dialog);
     setPopoverOpen(false);
   };
 
-  const actions = [
+  const actions: { label: string; icon: LucideIcon; dialog?: string; path?: string; permission: Permission }[] = [
+    {
+      label: 'Kasir',
+      icon: ShoppingCart,
+      path: '/checkout',
+      permission: 'stock.sell',
+    },
     {
       label: 'HP Datang',
       icon: Truck,
       dialog: 'incomingStock',
+      permission: 'stock.receive',
+    },
+    {
+      label: 'Retur HP',
+      icon: Undo2,
+      dialog: 'returnStock',
+      permission: 'stock.return',
+    },
+    {
+      label: 'Stock Opname',
+      icon: ClipboardCheck,
+      path: '/opname',
+      permission: 'stock.opname',
+    },
+    {
+      label: 'Pelanggan',
+      icon: Users,
+      path: '/customers',
+      permission: 'stock.sell',
+    },
+    {
+      label: 'Piutang',
+      icon: Wallet,
+      path: '/receivables',
+      permission: 'stock.sell',
+    },
+    {
+      label: 'Supplier',
+      icon: Factory,
+      path: '/suppliers',
+      permission: 'stock.receive',
+    },
+    {
+      label: 'Purchase Order',
+      icon: ClipboardList,
+      path: '/purchase-orders',
+      permission: 'stock.receive',
+    },
+    {
+      label: 'Promo',
+      icon: BadgePercent,
+      path: '/promotions',
+      permission: 'promo.manage',
+    },
+    {
+      label: 'Katalog',
+      icon: Library,
+      path: '/catalog',
+      permission: 'stock.sell',
     },
     // Hidden: Koreksi Stok Pagi
     // {
     //   label: 'Koreksi Stok Pagi',
     //   icon: Plus,
     //   dialog: 'addStock',
+    //   permission: 'stock.edit',
     // },
     {
       label: 'Tambah Model HP',
       icon: Smartphone,
       dialog: 'addPhoneModel',
+      permission: 'catalog.manage',
     },
     {
       label: 'Kelola Merk',
       icon: Tags,
       dialog: 'manageBrands',
+      permission: 'catalog.manage',
     },
     {
       label: 'Tambah Lokasi',
       icon: MapPin,
       dialog: 'addLocation',
+      permission: 'catalog.manage',
     },
   ];
 
+  const allowedActions = actions.filter(action => can(action.permission));
+
+  // Nothing to offer, e.g. while the role is still loading
+  if (allowedActions.length === 0 && !dialog) return null;
+
   return (
     <>
       <div className="fixed bottom-24 right-6 z-50 md:bottom-6">
@@ -57,12 +128,12 @@ export function FabMenu() {
           </PopoverTrigger>
           <PopoverContent className="w-auto p-2" side="top" align="end">
             <div className="flex flex-col gap-2">
-              {actions.map((action) => (
+              {allowedActions.map((action) => (
                 <Button
-                  key={action.dialog}
+                  key={action.label}
                   variant="ghost"
                   className="flex justify-start items-center gap-4 px-4 py-2"
-                  onClick={() => handleActionClick(action.dialog)}
+                  onClick={() => handleActionClick(action)}
                 >
                   <action.icon className="h-5 w-5" />
                   <span>{action.label}</span>
@@ -78,6 +149,7 @@ export function FabMenu() {
       {dialog === 'addPhoneModel' && <AddPhoneModelDialog open={true} onOpenChange={() => setDialog(null)} />}
       {dialog === 'manageBrands' && <ManageBrandsDialog open={true} onOpenChange={() => setDialog(null)} />}
       {dialog === 'addLocation' && <AddLocationDialog open={true} onOpenChange={() => setDialog(null)} />}
+      {dialog === 'returnStock' && <ReturnStockDialog open={true} onOpenChange={() => setDialog(null)} />}
     </>
   );
 }
@@ -0,0 +1,36 @@
+import { AlertTriangle } from "lucide-react";
+import { IMEI_LENGTH, getTacWarning, isValidImei, normalizeImei, validateImei, validateImeiPair } from "@/lib/imei";
+
+interface ImeiHintProps {
+  imei: string;
+  /** TACs seen before for the selected model, see useKnownTacs */
+  knownTacs?: Set<string>;
+  /** For an IMEI 2 input: the unit's IMEI 1, checked as a dual-SIM pair */
+  pairedWith?: string;
+}
+
+/**
+ * Inline validation message under an IMEI input. Stays quiet while the IMEI
+ * is still being typed.
+ */
+export function ImeiHint({ imei, knownTacs, pairedWith }: ImeiHintProps) {
+  const value = normalizeImei(imei);
+  if (!value) return null;
+
+  const isComplete = value.length >= IMEI_LENGTH || /\D/.test(value);
+  const error = isComplete ? validateImei(value) : null;
+  if (error) return <p className="text-xs text-destructive">{error}</p>;
+
+  const pair = pairedWith && isComplete && isValidImei(pairedWith) ? validateImeiPair(pairedWith, value) : null;
+  if (pair?.error) return <p className="text-xs text-destructive">{pair.error}</p>;
+
+  const warning = pair ? pair.warning : getTacWarning(value, knownTacs);
+  if (!warning) return null;
+
+  return (
+    <p className="flex items-start gap-1 text-xs text-amber-600 dark:text-amber-500">
+      <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+      {warning}
+    </p>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { differenceInDays } from "date-fns";
+import { ArrowRightLeft, Camera, CheckCircle, History, MapPin, Search, Undo2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useMarkAsSold, SaleData } from "@/hooks/useMarkAsSold";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { resolveImeiState, sortEventsChronologically } from "@/lib/stockEvents";
+import { getPromoScope } from "@/lib/promotions";
+import { fetchUnitIdentifiers, resolveUnitImei } from "@/lib/unitIdentifiers";
+import { BarcodeScanner } from "./BarcodeScanner";
+import { SaleConfirmationDialog } from "./SaleConfirmationDialog";
+import { ReceiptDialog } from "./ReceiptDialog";
+import { TransferStockDialog } from "./TransferStockDialog";
+import { ReturnStockDialog } from "./ReturnStockDialog";
+import { StockEntry } from "./StockTable";
+
+interface ImeiLookupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Looked up right away, e.g. a code read by a handheld scanner */
+  initialQuery?: string;
+}
+
+const STATUS_BADGES: Record<string, { label: string; variant: "success" | "destructive" | "warning" | "outline" }> = {
+  tersedia: { label: "Tersedia", variant: "success" },
+  terjual: { label: "Terjual", variant: "destructive" },
+  diretur: { label: "Diretur ke Supplier", variant: "warning" },
+  keluar: { label: "Keluar", variant: "outline" },
+  unknown: { label: "Tidak Diketahui", variant: "outline" },
+};
+
+export function ImeiLookupDialog({ open, onOpenChange, initialQuery }: ImeiLookupDialogProps) {
+  const [input, setInput] = useState("");
+  const [imei, setImei] = useState("");
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [action, setAction] = useState<'sell' | 'transfer' | 'return' | null>(null);
+  const [receiptEventId, setReceiptEventId] = useState<number | null>(null);
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    if (open && initialQuery) {
+      setInput(initialQuery);
+      setImei(initialQuery);
+    }
+  }, [open, initialQuery]);
+
+  const { data: lookup, isFetching } = useQuery({
+    queryKey: ['stock-events', 'imei-lookup', imei],
+    queryFn: async () => {
+      // The unit may be looked up by its IMEI 2 or serial number
+      const unitImei = await resolveUnitImei(imei);
+      const [eventsRes, entriesRes, identifiers] = await Promise.all([
+        supabase
+          .from('stock_events')
+          .select('*, stock_locations(id, name)')
+          .eq('imei', unitImei),
+        supabase
+          .from('stock_entries')
+          .select(`
+            *,
+            stock_locations(id, name),
+            phone_models(id, brand, model, storage_capacity, color, srp)
+          `)
+          .eq('imei', unitImei)
+          .order('date', { ascending: false })
+          .limit(10),
+        fetchUnitIdentifiers([unitImei]),
+      ]);
+
+      if (eventsRes.error) throw eventsRes.error;
+      if (entriesRes.error) throw entriesRes.error;
+
+      const events = sortEventsChronologically(eventsRes.data || []);
+      if (events.length === 0) return null;
+
+      const state = resolveImeiState(events);
+
+      // The most recent snapshot at the unit's current location drives the quick actions
+      const entries = (entriesRes.data || []) as StockEntry[];
+      const entry = entries.find(e => e.stock_locations?.id === state.locationId) || entries[0] || null;
+
+      // Age counts from the last time the unit entered stock
+      const lastIncoming = [...events].reverse().find(e => e.event_type === 'masuk' || e.event_type === 'retur_in');
+      const ageInDays = state.status === 'tersedia' && lastIncoming
+        ? differenceInDays(new Date(), parseDbDate(lastIncoming.date))
+        : null;
+
+      return {
+        imei: unitImei,
+        identifier: identifiers.get(unitImei) ?? null,
+        state,
+        entry,
+        ageInDays,
+        locationName: events.find(e => e.location_id === state.locationId)?.stock_locations?.name || '-',
+      };
+    },
+    enabled: open && !!imei
+  });
+
+  const markAsSoldMutation = useMarkAsSold({
+    onSold: setReceiptEventId,
+    onSettled: () => setAction(null)
+  });
+
+  const handleSearch = (value: string) => {
+    const cleaned = value.trim();
+    if (cleaned) setImei(cleaned);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setInput("");
+      setImei("");
+      setAction(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const entry = lookup?.entry || null;
+  const status = STATUS_BADGES[lookup?.state.status || 'unknown'];
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+            <DialogTitle>Cari IMEI</DialogTitle>
+            <DialogDescription>
+              Scan atau ketik IMEI 1, IMEI 2 atau S/N untuk melihat posisi dan status HP
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 pb-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSearch(input);
+              }}
+            >
+              <Input
+                placeholder="Masukkan IMEI atau S/N"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                maxLength={20}
+                autoFocus
+                className="flex-1"
+              />
+              <Button type="submit" variant="outline" size="icon">
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="outline" size="icon" onClick={() => setScannerOpen(true)}>
+                <Camera className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {isFetching && (
+              <div className="animate-pulse">
+                <div className="h-24 bg-muted rounded" />
+              </div>
+            )}
+
+            {!isFetching && imei && !lookup && (
+              <div className="text-center py-4 text-muted-foreground">
+                IMEI {imei} tidak ditemukan.
+              </div>
+            )}
+
+            {!isFetching && lookup && (
+              <div className="space-y-4">
+                <div className="rounded-lg bg-muted p-4 space-y-2">
+                  <div className="font-semibold">
+                    {entry?.phone_models?.brand} {entry?.phone_models?.model}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {[entry?.phone_models?.storage_capacity, entry?.phone_models?.color].filter(Boolean).join(' • ')}
+                  </div>
+                  <div className="font-mono text-sm">{lookup.imei}</div>
+                  {lookup.identifier?.imei2 && (
+                    <div className="font-mono text-sm">{lookup.identifier.imei2}</div>
+                  )}
+                  {lookup.identifier?.serial_number && (
+                    <div className="text-xs text-muted-foreground">S/N {lookup.identifier.serial_number}</div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 pt-1">
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      {lookup.locationName}
+                    </span>
+                  </div>
+                  {lookup.ageInDays !== null && (
+                    <div className="text-sm">
+                      Umur stok: <span className="font-semibold">{lookup.ageInDays} hari</span>
+                    </div>
+                  )}
+                  {lookup.state.lastEvent && (
+                    <div className="text-xs text-muted-foreground">
+                      Transaksi terakhir: {formatDateShort(parseDbDate(lookup.state.lastEvent.date))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setAction('sell')}
+                    disabled={!entry || lookup.state.status !== 'tersedia' || !can('stock.sell')}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
+                    Jual
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setAction('transfer')}
+                    disabled={!entry || lookup.state.status !== 'tersedia' || !can('stock.transfer')}
+                  >
+                    <ArrowRightLeft className="h-4 w-4 mr-2 text-blue-500" />
+                    Transfer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setAction('return')}
+                    disabled={!entry || !['tersedia', 'terjual'].includes(lookup.state.status) || !can('stock.return')}
+                  >
+                    <Undo2 className="h-4 w-4 mr-2 text-orange-500" />
+                    Retur
+                  </Button>
+                  <Button variant="outline" onClick={() => navigate(`/imei/${lookup.imei}`)}>
+                    <History className="h-4 w-4 mr-2" />
+                    Riwayat
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <BarcodeScanner
+        open={scannerOpen}
+        onOpenChange={setScannerOpen}
+        onScanSuccess={(scannedImei) => {
+          setInput(scannedImei);
+          handleSearch(scannedImei);
+          setScannerOpen(false);
+        }}
+      />
+
+      <SaleConfirmationDialog
+        open={action === 'sell'}
+        onOpenChange={(isOpen) => !isOpen && setAction(null)}
+        onConfirm={(saleData: SaleData) => entry && markAsSoldMutation.mutate({ entry, saleData })}
+        suggestedPrice={entry?.phone_models?.srp || 0}
+        itemName={entry ? `${entry.phone_models?.brand} ${entry.phone_models?.model}` : ''}
+        srp={entry?.phone_models?.srp || 0}
+        costPrice={entry?.cost_price || 0}
+        promoScope={getPromoScope(entry)}
+      />
+
+      <ReceiptDialog
+        open={receiptEventId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceiptEventId(null)}
+        saleEventId={receiptEventId}
+      />
+
+      <TransferStockDialog
+        open={action === 'transfer'}
+        onOpenChange={(isOpen) => !isOpen && setAction(null)}
+        stockEntry={entry}
+      />
+
+      <ReturnStockDialog
+        open={action === 'return'}
+        onOpenChange={(isOpen) => !isOpen && setAction(null)}
+        stockEntry={entry}
+        defaultType={lookup?.state.status === 'tersedia' ? 'retur_out' : 'retur_in'}
+      />
+    </>
+  );
+}
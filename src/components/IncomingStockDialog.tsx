@@ -1,20 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
-import { Calendar as CalendarIcon, Camera, Plus, X } from "lucide-react";
+import { Calendar as CalendarIcon, Camera, Plus, ScanLine, Split, X } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
-import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { usePermissions } from "@/hooks/usePermissions";
+import { BarcodeScanner, type ScanNotice } from "@/components/BarcodeScanner";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { SupplierInput, resolveSupplierId } from "@/lib/suppliers";
+import { usePurchaseOrders } from "@/hooks/usePurchaseOrders";
+import { NO_IMEI, findItemByBarcode, isAccessory } from "@/lib/accessories";
+import { findDualSimPairs, isLikelyDualSimPair, normalizeImei, parseBoxLabel, validateImeiPair, validateImei } from "@/lib/imei";
+import { UnitInput, emptyUnit, findRegisteredNumbers, saveUnitIdentifiers } from "@/lib/unitIdentifiers";
+import { useKnownTacs } from "@/hooks/useKnownTacs";
+import { ImeiHint } from "@/components/ImeiHint";
+import { useBarcodeWedge } from "@/hooks/useBarcodeWedge";
+import { playScanFeedback } from "@/lib/scanFeedback";
+import type { LabelData } from "@/lib/labels";
+import { PrintLabelsDialog } from "@/components/PrintLabelsDialog";
+
+const PRINT_LABELS_STORAGE_KEY = "printLabelsAfterIncoming";
 
 interface IncomingStockDialogProps {
   open: boolean;
@@ -27,11 +44,25 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
   const [selectedBrand, setSelectedBrand] = useState<string>("");
   const [selectedModel, setSelectedModel] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
-  const [imeiList, setImeiList] = useState<string[]>([""]);
+  const [units, setUnits] = useState<UnitInput[]>([emptyUnit()]);
+  // Units whose IMEI 2 was filled from the next scan, so staff can split them back
+  const [autoPairedImeis, setAutoPairedImeis] = useState<Set<string>>(new Set());
+  const [quantity, setQuantity] = useState<string>("1");
   const [costPrice, setCostPrice] = useState<string>("");
   const [scanningIndex, setScanningIndex] = useState<number | null>(null);
+  const [isScanningBarcode, setIsScanningBarcode] = useState(false);
+  const [isBatchScanning, setIsBatchScanning] = useState(false);
+  const [expectedQuantity, setExpectedQuantity] = useState<string>("");
+  const [printLabelsAfterSave, setPrintLabelsAfterSave] = useState(() => localStorage.getItem(PRINT_LABELS_STORAGE_KEY) === "true");
+  const [printBatch, setPrintBatch] = useState<LabelData[] | null>(null);
+  const [supplier, setSupplier] = useState<SupplierInput | null>(null);
+  const [invoiceNumber, setInvoiceNumber] = useState<string>("");
+  const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [purchaseOrderId, setPurchaseOrderId] = useState<string>("");
+  const [purchaseOrderLineId, setPurchaseOrderLineId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { profile } = usePermissions();
 
   // Fetch locations
   const { data: locations } = useQuery({
@@ -53,6 +84,7 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
       const { data, error } = await supabase
         .from('phone_models')
         .select('brand')
+        .is('archived_at', null)
         .order('brand');
       if (error) throw error;
       return [...new Set(data.map(item => item.brand))];
@@ -67,6 +99,7 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
       const { data, error } = await supabase
         .from('phone_models')
         .select('*')
+        .is('archived_at', null)
         .eq('brand', selectedBrand)
         .order('model');
       if (error) throw error;
@@ -75,15 +108,158 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
     enabled: !!selectedBrand
   });
 
-  // Auto-fill cost price with SRP when model is selected
+  const { data: openOrders } = usePurchaseOrders({ openOnly: true, enabled: open });
+  const selectedOrder = openOrders?.find(o => o.id === purchaseOrderId) || null;
+  const selectedOrderLine = selectedOrder?.lines.find(l => l.id === purchaseOrderLineId) || null;
+  const isAccessoryItem = isAccessory(phoneModels?.find(m => m.id === selectedModel));
+  const { data: knownTacs } = useKnownTacs(isAccessoryItem ? null : selectedModel, { enabled: open });
+  const dualSimPairs = isAccessoryItem ? [] : findDualSimPairs(units.map(u => u.imei));
+  const scannedCount = units.filter(u => normalizeImei(u.imei) !== "").length;
+  const expectedCount = selectedOrderLine ? selectedOrderLine.backOrder : parseInt(expectedQuantity) || null;
+
+  // Batch scans arrive faster than re-renders, so they check and append against this copy
+  const unitsRef = useRef(units);
+  unitsRef.current = units;
+
+  // Preselect the user's home location
   useEffect(() => {
-    if (selectedModel && phoneModels) {
+    if (open && !selectedLocation && profile?.home_location_id) {
+      setSelectedLocation(profile.home_location_id);
+    }
+  }, [open, selectedLocation, profile?.home_location_id]);
+
+  // Auto-fill cost price with SRP when model is selected (a PO line brings its agreed cost instead)
+  useEffect(() => {
+    if (selectedModel && phoneModels && !purchaseOrderLineId) {
       const model = phoneModels.find(m => m.id === selectedModel);
       if (model && model.srp && model.srp > 0) {
         setCostPrice(model.srp.toLocaleString('id-ID'));
       }
     }
-  }, [selectedModel, phoneModels]);
+  }, [selectedModel, phoneModels, purchaseOrderLineId]);
+
+  const updateUnit = (index: number, changes: Partial<UnitInput>) => {
+    setUnits(prev => prev.map((unit, i) => i === index ? { ...unit, ...changes } : unit));
+  };
+
+  // Moves an automatically paired IMEI 2 back into a unit of its own, right after the original
+  const splitPairedUnit = (imei: string) => {
+    const next = unitsRef.current.flatMap(u =>
+      u.imei === imei && u.imei2 ? [{ ...u, imei2: "" }, { ...emptyUnit(), imei: u.imei2 }] : [u]
+    );
+    unitsRef.current = next;
+    setUnits(next);
+    setAutoPairedImeis(prev => {
+      const rest = new Set(prev);
+      rest.delete(imei);
+      return rest;
+    });
+  };
+
+  // Returns why a scan from the continuous scanner is rejected, a notice when it became
+  // the IMEI 2 of the previous unit, or null once the unit is added
+  const handleBatchScan = async (imei: string, scannedUnit?: UnitInput): Promise<string | ScanNotice | null> => {
+    const unit = scannedUnit ?? { ...emptyUnit(), imei };
+    const current = unitsRef.current.filter(u => normalizeImei(u.imei) !== "");
+    const listed = new Set(current.flatMap(u => [normalizeImei(u.imei), normalizeImei(u.imei2)]).filter(Boolean));
+    const numbers = [unit.imei, unit.imei2].filter(Boolean);
+
+    const duplicate = numbers.find(n => listed.has(n));
+    if (duplicate) return `IMEI ${duplicate} sudah ada di daftar`;
+
+    // The other IMEI of the unit scanned just before fills its IMEI 2 instead of a new row
+    const previous = current[current.length - 1];
+    const isSecondImei = !unit.imei2 && !!previous && !previous.imei2 && isLikelyDualSimPair(previous.imei, unit.imei);
+
+    if (!isSecondImei && expectedCount && current.length >= expectedCount) {
+      return `Sudah ${expectedCount} unit, sesuai jumlah yang diharapkan`;
+    }
+
+    const registered = await findRegisteredNumbers(numbers);
+    if (registered.length > 0) return `IMEI ${registered.join(", ")} sudah terdaftar di stok`;
+
+    const next = isSecondImei
+      ? unitsRef.current.map(u => u === previous ? { ...u, imei2: unit.imei } : u)
+      : [...current, unit];
+    unitsRef.current = next;
+    setUnits(next);
+
+    if (!isSecondImei) return null;
+    setAutoPairedImeis(prev => new Set(prev).add(previous.imei));
+    return { notice: `Dianggap IMEI 2 dari unit sebelumnya (${previous.imei}). Bila unit lain, tekan Pisahkan di daftar IMEI.` };
+  };
+
+  const handleOrderChange = (orderId: string) => {
+    const order = openOrders?.find(o => o.id === orderId);
+    setPurchaseOrderId(order ? order.id : "");
+    setPurchaseOrderLineId(null);
+    setSelectedBrand("");
+    setSelectedModel("");
+    setCostPrice("");
+    setSupplier(order?.supplier ? { id: order.supplier.id, name: order.supplier.name } : null);
+  };
+
+  const handleOrderLineChange = (lineId: string) => {
+    const line = selectedOrder?.lines.find(l => l.id === Number(lineId));
+    if (!line) return;
+    setPurchaseOrderLineId(line.id);
+    setSelectedBrand(line.brand);
+    setSelectedModel(line.phoneModelId);
+    setCostPrice(line.unitCost > 0 ? line.unitCost.toLocaleString('id-ID') : "");
+  };
+
+  const handleBarcodeScan = async (barcode: string) => {
+    try {
+      const item = await findItemByBarcode(barcode);
+      if (!item) {
+        toast({ title: "Gagal", description: `Barcode ${barcode} belum terdaftar di katalog`, variant: "destructive" });
+        return;
+      }
+      setSelectedBrand(item.brand);
+      setSelectedModel(item.id);
+    } catch (error) {
+      toast({ title: "Gagal", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  // A handheld scanner adds the next unit; a packaging barcode selects the accessory
+  useBarcodeWedge(async (code) => {
+    const label = parseBoxLabel(code);
+    if (isAccessoryItem || label.imeis.length === 0) {
+      handleBarcodeScan(code);
+      return;
+    }
+
+    let result: string | ScanNotice | null;
+    try {
+      result = await handleBatchScan(label.imeis[0], {
+        imei: label.imeis[0],
+        imei2: label.imeis[1] ?? "",
+        serialNumber: label.serialNumber ?? ""
+      });
+    } catch (error) {
+      result = (error as Error).message;
+    }
+
+    if (typeof result === "string") {
+      playScanFeedback("error");
+      toast({ title: "Gagal", description: result, variant: "destructive" });
+    } else if (result) {
+      const pairedImei = unitsRef.current.find(u => u.imei2 === label.imeis[0])?.imei ?? "";
+      playScanFeedback("notice");
+      toast({
+        title: "IMEI 2",
+        description: result.notice,
+        action: (
+          <ToastAction altText="Pisahkan jadi unit sendiri" onClick={() => splitPairedUnit(pairedImei)}>
+            Pisahkan
+          </ToastAction>
+        ),
+      });
+    } else {
+      playScanFeedback("success");
+    }
+  }, { enabled: open && scanningIndex === null && !isBatchScanning && !isScanningBarcode && printBatch === null });
 
   const incomingStockMutation = useMutation({
     mutationFn: async () => {
@@ -98,82 +274,163 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
         throw new Error('Model HP wajib dipilih');
       }
 
-      // Filter out empty IMEIs
-      const validImeis = imeiList.filter(imei => imei.trim() !== "");
-      
-      if (validImeis.length === 0) {
-        throw new Error('Harap masukkan minimal 1 IMEI');
-      }
+      // Filter out empty IMEIs; accessories are counted instead of listed
+      const validUnits = isAccessoryItem ? [] : units
+        .map(u => ({ imei: normalizeImei(u.imei), imei2: normalizeImei(u.imei2), serialNumber: u.serialNumber.trim().toUpperCase() }))
+        .filter(u => u.imei !== "");
+      const validImeis = validUnits.map(u => u.imei);
+      const receivedQty = isAccessoryItem ? parseInt(quantity) || 0 : validUnits.length;
+
+      if (isAccessoryItem) {
+        if (receivedQty <= 0) {
+          throw new Error('Jumlah barang harus lebih dari 0');
+        }
+      } else {
+        if (validImeis.length === 0) {
+          throw new Error('Harap masukkan minimal 1 IMEI');
+        }
+
+        // Validate IMEI format and check digit
+        for (const unit of validUnits) {
+          const imeiError = unit.imei2 ? validateImeiPair(unit.imei, unit.imei2).error : validateImei(unit.imei);
+          if (imeiError) throw new Error(imeiError);
+        }
 
-      // Validate IMEI format (15 digits)
-      for (const imei of validImeis) {
-        if (imei.length !== 15) {
-          throw new Error(`IMEI ${imei} harus 15 digit`);
+        // Check for duplicates in the list, across both IMEIs of every unit
+        const allNumbers = validUnits.flatMap(u => u.imei2 ? [u.imei, u.imei2] : [u.imei]);
+        const duplicates = allNumbers.filter((imei, index) => allNumbers.indexOf(imei) !== index);
+        if (duplicates.length > 0) {
+          throw new Error(`IMEI duplikat: ${duplicates.join(", ")}`);
         }
       }
 
-      // Check for duplicates in the list
-      const duplicates = validImeis.filter((imei, index) => validImeis.indexOf(imei) !== index);
-      if (duplicates.length > 0) {
-        throw new Error(`IMEI duplikat: ${duplicates.join(", ")}`);
+      if (selectedOrder) {
+        if (!selectedOrderLine) throw new Error('Pilih barang dari PO');
+        if (receivedQty > selectedOrderLine.backOrder) {
+          throw new Error(`PO ${selectedOrder.orderNumber} hanya menunggu ${selectedOrderLine.backOrder} unit ${selectedOrderLine.itemName}`);
+        }
       }
 
       const date = format(selectedDate, "yyyy-MM-dd");
 
-      // Check for duplicate IMEI in database
-      const { data: existingStock, error: checkError } = await supabase
-        .from('stock_events')
-        .select('imei')
-        .in('imei', validImeis);
-
-      if (checkError) throw new Error(`Gagal memeriksa IMEI: ${checkError.message}`);
-
-      if (existingStock && existingStock.length > 0) {
-        const existingImeis = existingStock.map(s => s.imei).join(", ");
-        throw new Error(`IMEI sudah terdaftar: ${existingImeis}`);
+      if (validUnits.length > 0) {
+        // Check for duplicate IMEI in database, as either number of a unit in stock
+        const registered = await findRegisteredNumbers(validUnits.flatMap(u => u.imei2 ? [u.imei, u.imei2] : [u.imei]));
+        if (registered.length > 0) {
+          throw new Error(`IMEI sudah terdaftar: ${registered.join(", ")}`);
+        }
       }
 
       // Parse cost price - remove dots and convert to number
       const costPriceNum = costPrice ? parseInt(costPrice.replace(/\./g, '')) : 0;
 
-      // Insert multiple stock events
-      const eventsToInsert = validImeis.map(imei => ({
+      // Units bought from a supplier are grouped under one purchase (the supplier's invoice)
+      let purchaseId: string | null = null;
+      if (supplier) {
+        const supplierId = await resolveSupplierId(supplier);
+        const { data: purchase, error: purchaseError } = await supabase
+          .from('purchases')
+          .insert({
+            supplier_id: supplierId,
+            invoice_number: invoiceNumber.trim() || null,
+            purchase_date: date,
+            due_date: dueDate ? format(dueDate, "yyyy-MM-dd") : null
+          })
+          .select('id')
+          .single();
+
+        if (purchaseError?.code === '23505') {
+          throw new Error(`No. nota ${invoiceNumber.trim()} sudah tercatat untuk supplier ini`);
+        }
+        if (purchaseError) throw new Error(`Gagal menyimpan pembelian: ${purchaseError.message}`);
+        purchaseId = purchase.id;
+      }
+
+      // Insert multiple stock events (one per IMEI, or a single event carrying the accessory quantity)
+      const baseEvent = {
         date: date,
-        imei: imei.trim(),
         location_id: selectedLocation,
         phone_model_id: selectedModel,
         event_type: 'masuk',
-        qty: 1,
+        purchase_id: purchaseId,
+        purchase_order_line_id: purchaseOrderLineId,
         notes: notes || null,
         metadata: costPriceNum > 0 ? { cost_price: costPriceNum } : {}
-      }));
+      };
+      const eventsToInsert = isAccessoryItem
+        ? [{ ...baseEvent, imei: NO_IMEI, qty: receivedQty }]
+        : validImeis.map(imei => ({ ...baseEvent, imei, qty: 1 }));
 
       const { error: eventError } = await supabase
         .from('stock_events')
         .insert(eventsToInsert);
 
       if (eventError) {
+        // Do not leave an empty purchase behind
+        if (purchaseId) await supabase.from('purchases').delete().eq('id', purchaseId);
         throw new Error(`Gagal menyimpan event: ${eventError.message}`);
       }
 
+      try {
+        await saveUnitIdentifiers(validUnits);
+      } catch (error) {
+        throw new Error(`Barang tercatat, tapi IMEI 2/S/N belum tersimpan: ${(error as Error).message}`);
+      }
+
+      // A PO is done once every line has been received in full
+      if (selectedOrder && selectedOrder.lines.every(l =>
+        l.received + (l.id === purchaseOrderLineId ? receivedQty : 0) >= l.quantity
+      )) {
+        const { error: closeError } = await supabase
+          .from('purchase_orders')
+          .update({ status: 'closed', closed_at: new Date().toISOString() })
+          .eq('id', selectedOrder.id);
+
+        if (closeError) throw new Error(`Barang tercatat, tapi gagal menutup PO: ${closeError.message}`);
+      }
+
       // 2. Cascade recalculation happens automatically via database trigger
+      const model = phoneModels?.find(m => m.id === selectedModel);
+      const labels: LabelData[] = validUnits.map(unit => ({
+        imei: unit.imei,
+        brand: model?.brand || selectedBrand,
+        model: model?.model || '',
+        storage: model?.storage_capacity || null,
+        srp: model?.srp || 0,
+        locationName: locations?.find(l => l.id === selectedLocation)?.name || null,
+      }));
+      return { receivedQty, labels };
     },
-    onSuccess: () => {
+    onSuccess: ({ receivedQty, labels }) => {
       toast({
         title: "Berhasil",
-        description: `${imeiList.filter(i => i.trim()).length} unit berhasil dicatat`,
+        description: `${receivedQty} unit berhasil dicatat`,
       });
       queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ['purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['unit-identifiers'] });
+      // The form stays mounted behind the label dialog and closes together with it
+      if (printLabelsAfterSave && labels.length > 0) setPrintBatch(labels);
+      else onOpenChange(false);
       // Reset form
       setSelectedDate(new Date());
       setSelectedLocation("");
       setSelectedBrand("");
       setSelectedModel("");
       setNotes("");
-      setImeiList([""]);
+      setUnits([emptyUnit()]);
+      setAutoPairedImeis(new Set());
+      setExpectedQuantity("");
+      setQuantity("1");
       setCostPrice("");
+      setSupplier(null);
+      setInvoiceNumber("");
+      setDueDate(null);
+      setPurchaseOrderId("");
+      setPurchaseOrderLineId(null);
     },
     onError: (error: any) => {
       toast({
@@ -185,12 +442,12 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
   });
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open && printBatch === null} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
           <DialogTitle>HP Datang</DialogTitle>
           <DialogDescription>
-            Rekap HP datang
+            Rekap HP dan aksesoris datang
           </DialogDescription>
         </DialogHeader>
         
@@ -237,93 +494,258 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
             </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label>Merk</Label>
-            <Select value={selectedBrand} onValueChange={setSelectedBrand}>
-              <SelectTrigger>
-                <SelectValue placeholder="Pilih merk" />
-              </SelectTrigger>
-              <SelectContent>
-                {brands?.map(brand => (
-                  <SelectItem key={brand} value={brand}>
-                    {brand}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {openOrders && openOrders.length > 0 && (
+            <div className="space-y-2">
+              <Label>Terima dari PO (Opsional)</Label>
+              <Select value={purchaseOrderId || "none"} onValueChange={handleOrderChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Tanpa PO</SelectItem>
+                  {openOrders.map(order => (
+                    <SelectItem key={order.id} value={order.id}>
+                      {order.orderNumber} • {order.supplier?.name} ({order.received}/{order.ordered})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
+          {selectedOrder ? (
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <div className="rounded-lg bg-muted p-3 text-sm font-medium">{selectedOrder.supplier?.name}</div>
+            </div>
+          ) : (
+            <SupplierPicker value={supplier} onChange={setSupplier} />
+          )}
+
+          {supplier && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>No. Nota / Faktur</Label>
+                <Input
+                  placeholder="Opsional"
+                  value={invoiceNumber}
+                  onChange={(e) => setInvoiceNumber(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Jatuh Tempo</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn("w-full justify-start text-left font-normal", !dueDate && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {dueDate ? format(dueDate, "d MMM yyyy", { locale: id }) : <span>Tunai</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={dueDate ?? undefined}
+                      onSelect={(d) => setDueDate(d ?? null)}
+                      disabled={(date) => date < selectedDate}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+            </div>
+          )}
+
+          {selectedOrder ? (
+            <div className="space-y-2">
+              <Label>Barang PO</Label>
+              <Select value={purchaseOrderLineId ? String(purchaseOrderLineId) : ""} onValueChange={handleOrderLineChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih barang yang datang" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedOrder.lines.filter(l => l.backOrder > 0).map(line => (
+                    <SelectItem key={line.id} value={String(line.id)}>
+                      {line.itemName} ({line.received}/{line.quantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedOrderLine && (
+                <p className="text-sm text-muted-foreground">
+                  Sudah diterima {selectedOrderLine.received} dari {selectedOrderLine.quantity} unit,
+                  menunggu {selectedOrderLine.backOrder} unit lagi
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Merk</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setIsScanningBarcode(true)}>
+                  <Camera className="h-4 w-4 mr-1" />
+                  Scan Barcode
+                </Button>
+              </div>
+              <Select value={selectedBrand} onValueChange={setSelectedBrand}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih merk" />
+                </SelectTrigger>
+                <SelectContent>
+                  {brands?.map(brand => (
+                    <SelectItem key={brand} value={brand}>
+                      {brand}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Model HP</Label>
+              <Select value={selectedModel} onValueChange={setSelectedModel} disabled={!selectedBrand}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih model HP" />
+                </SelectTrigger>
+                <SelectContent>
+                  {phoneModels?.map(model => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.model} {model.storage_capacity && `- ${model.storage_capacity}`} {model.color && `- ${model.color}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            </>
+          )}
+
+          {isAccessoryItem ? (
           <div className="space-y-2">
-            <Label>Model HP</Label>
-            <Select value={selectedModel} onValueChange={setSelectedModel} disabled={!selectedBrand}>
-              <SelectTrigger>
-                <SelectValue placeholder="Pilih model HP" />
-              </SelectTrigger>
-              <SelectContent>
-                {phoneModels?.map(model => (
-                  <SelectItem key={model.id} value={model.id}>
-                    {model.model} {model.storage_capacity && `- ${model.storage_capacity}`} {model.color && `- ${model.color}`}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Label>Jumlah *</Label>
+            <Input
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value.replace(/\D/g, ''))}
+              inputMode="numeric"
+            />
+            <p className="text-sm text-muted-foreground">Barang tanpa IMEI dicatat per jumlah</p>
           </div>
-
+          ) : (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>IMEI * (15 digit)</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => setImeiList([...imeiList, ""])}
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Tambah
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsBatchScanning(true)}
+                >
+                  <ScanLine className="h-4 w-4 mr-1" />
+                  Scan Beruntun
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setUnits([...units, emptyUnit()])}
+                  disabled={!!selectedOrderLine && units.length >= selectedOrderLine.backOrder}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Tambah
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              {!selectedOrderLine && (
+                <Input
+                  placeholder="Jumlah di dus"
+                  value={expectedQuantity}
+                  onChange={(e) => setExpectedQuantity(e.target.value.replace(/\D/g, ''))}
+                  inputMode="numeric"
+                  className="h-8 w-32"
+                />
+              )}
+              <span className={cn("text-muted-foreground", expectedCount && scannedCount >= expectedCount && "text-green-600 font-medium")}>
+                {scannedCount}{expectedCount ? ` / ${expectedCount}` : ''} unit
+              </span>
             </div>
             
             <div className="space-y-2 max-h-[200px] overflow-y-auto">
-              {imeiList.map((imei, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    placeholder={`IMEI #${index + 1}`}
-                    value={imei}
-                    onChange={(e) => {
-                      const newList = [...imeiList];
-                      newList[index] = e.target.value;
-                      setImeiList(newList);
-                    }}
-                    maxLength={15}
-                    inputMode="numeric"
-                    className="flex-1"
-                  />
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="icon"
-                    onClick={() => setScanningIndex(index)}
-                  >
-                    <Camera className="h-4 w-4" />
-                  </Button>
-                  {imeiList.length > 1 && (
+              {units.map((unit, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={`IMEI #${index + 1}`}
+                      value={unit.imei}
+                      onChange={(e) => updateUnit(index, { imei: e.target.value })}
+                      maxLength={15}
+                      inputMode="numeric"
+                      className="flex-1"
+                    />
                     <Button
                       type="button"
-                      variant="ghost"
+                      variant="outline"
                       size="icon"
-                      onClick={() => {
-                        const newList = imeiList.filter((_, i) => i !== index);
-                        setImeiList(newList.length === 0 ? [""] : newList);
-                      }}
+                      onClick={() => setScanningIndex(index)}
                     >
-                      <X className="h-4 w-4" />
+                      <Camera className="h-4 w-4" />
                     </Button>
+                    {units.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          const newList = units.filter((_, i) => i !== index);
+                          setUnits(newList.length === 0 ? [emptyUnit()] : newList);
+                        }}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <ImeiHint imei={unit.imei} knownTacs={knownTacs} />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="IMEI 2 (opsional)"
+                      value={unit.imei2}
+                      onChange={(e) => updateUnit(index, { imei2: e.target.value })}
+                      maxLength={15}
+                      inputMode="numeric"
+                      className="h-8 text-sm"
+                    />
+                    <Input
+                      placeholder="S/N (opsional)"
+                      value={unit.serialNumber}
+                      onChange={(e) => updateUnit(index, { serialNumber: e.target.value })}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                  <ImeiHint imei={unit.imei2} pairedWith={unit.imei} />
+                  {unit.imei2 && autoPairedImeis.has(unit.imei) && (
+                    <div className="flex items-center justify-between gap-2 text-xs text-amber-600 dark:text-amber-500">
+                      <span>IMEI 2 diisi otomatis dari scan berikutnya</span>
+                      <Button type="button" variant="ghost" size="sm" className="h-7" onClick={() => splitPairedUnit(unit.imei)}>
+                        <Split className="h-3 w-3 mr-1" />
+                        Pisahkan
+                      </Button>
+                    </div>
                   )}
                 </div>
               ))}
             </div>
-            <p className="text-sm text-muted-foreground">Scan atau input manual</p>
+            {dualSimPairs.map(([first, second]) => (
+              <p key={`${first}-${second}`} className="text-xs text-amber-600 dark:text-amber-500">
+                ⚠️ {first} dan {second} tampaknya IMEI 1 dan IMEI 2 dari HP dual SIM yang sama. Bila benar, pindahkan salah satunya ke kolom IMEI 2.
+              </p>
+            ))}
+            <p className="text-sm text-muted-foreground">Scan atau input manual. HP dual SIM: isi IMEI 2 di baris yang sama, bukan baris baru.</p>
           </div>
+          )}
 
           <div className="space-y-2">
             <Label>Harga Modal</Label>
@@ -351,6 +773,20 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
             />
           </div>
 
+          {!isAccessoryItem && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="print-labels-toggle">Cetak label setelah disimpan</Label>
+              <Switch
+                id="print-labels-toggle"
+                checked={printLabelsAfterSave}
+                onCheckedChange={(checked) => {
+                  setPrintLabelsAfterSave(checked);
+                  localStorage.setItem(PRINT_LABELS_STORAGE_KEY, String(checked));
+                }}
+              />
+            </div>
+          )}
+
           <div className="flex gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
               Batal
@@ -366,14 +802,50 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
         </div>
       </DialogContent>
 
+      <PrintLabelsDialog
+        open={printBatch !== null}
+        onOpenChange={(isOpen) => {
+          if (isOpen) return;
+          setPrintBatch(null);
+          onOpenChange(false);
+        }}
+        labels={printBatch || []}
+      />
+
+      <BarcodeScanner
+        open={isScanningBarcode}
+        onOpenChange={setIsScanningBarcode}
+        onScanSuccess={handleBarcodeScan}
+        kind="product"
+        title="Scan Barcode Barang"
+        description="Arahkan kamera ke barcode di kemasan"
+      />
+
+      <BarcodeScanner
+        open={isBatchScanning}
+        onOpenChange={setIsBatchScanning}
+        continuous
+        title="Scan Beruntun"
+        description="Scan IMEI semua unit di dus tanpa menutup kamera"
+        onScanSuccess={handleBatchScan}
+        progress={{ count: scannedCount, expected: expectedCount }}
+      />
+
       <BarcodeScanner
         open={scanningIndex !== null}
         onOpenChange={(open) => !open && setScanningIndex(null)}
-        onScanSuccess={(scannedImei) => {
+        captureUnit
+        title="Scan Label Box"
+        description="Arahkan kamera ke barcode IMEI 1, IMEI 2 dan S/N di box HP"
+        onScanSuccess={(scannedImei, scannedUnit) => {
           if (scanningIndex !== null) {
-            const newList = [...imeiList];
-            newList[scanningIndex] = scannedImei;
-            setImeiList(newList);
+            const newList = [...units];
+            newList[scanningIndex] = scannedUnit ?? { ...emptyUnit(), imei: scannedImei };
+            // When receiving a PO line, keep a fresh row ready until the line is fulfilled
+            if (selectedOrderLine && scanningIndex === newList.length - 1 && newList.length < selectedOrderLine.backOrder) {
+              newList.push(emptyUnit());
+            }
+            setUnits(newList);
             setScanningIndex(null);
           }
         }}
@@ -381,3 +853,4 @@ export function IncomingStockDialog({ open, onOpenChange }: IncomingStockDialogP
     </Dialog>
   );
 }
+
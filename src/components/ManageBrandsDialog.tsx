@@ -25,7 +25,7 @@ import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from "@/components/ui/skeleton";
-import { Pencil, Trash2 } from 'lucide-react';
+import { Archive, Pencil } from 'lucide-react';
 
 interface ManageBrandsDialogProps {
   open: boolean;
@@ -40,13 +40,13 @@ export function ManageBrandsDialog({ open, onOpenChange }: ManageBrandsDialogPro
   const [editingBrand, setEditingBrand] = useState('');
   const [newBrandName, setNewBrandName] = useState('');
 
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [deletingBrand, setDeletingBrand] = useState('');
+  const [isArchiveDialogOpen, setIsArchiveDialogOpen] = useState(false);
+  const [archivingBrand, setArchivingBrand] = useState('');
 
   const { data: brands, isLoading: brandsLoading } = useQuery({
     queryKey: ['brands'],
     queryFn: async () => {
-      const { data, error } = await supabase.from('phone_models').select('brand').order('brand');
+      const { data, error } = await supabase.from('phone_models').select('brand').is('archived_at', null).order('brand');
       if (error) throw error;
       return [...new Set(data.map((item) => item.brand))];
     },
@@ -80,24 +80,30 @@ export function ManageBrandsDialog({ open, onOpenChange }: ManageBrandsDialogPro
     editBrandMutation.mutate({ oldName: editingBrand, newName: newBrandName.trim().toUpperCase() });
   }
 
-  const deleteBrandMutation = useMutation({
+  // Models are archived, not deleted, so their stock history stays intact
+  const archiveBrandMutation = useMutation({
     mutationFn: async (brandName: string) => {
-        const { error } = await supabase.rpc('delete_brand', { brand_name: brandName });
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+            .from('phone_models')
+            .update({ archived_at: new Date().toISOString(), archived_by: user?.id ?? null })
+            .eq('brand', brandName)
+            .is('archived_at', null);
         if (error) throw error;
     },
     onSuccess: (_, brandName) => {
-        toast({ title: `Merk "${brandName}" berhasil dihapus` });
+        toast({ title: `Merk "${brandName}" berhasil diarsipkan` });
         queryClient.invalidateQueries({ queryKey: ['brands'] });
         queryClient.invalidateQueries({ queryKey: ['phone-models'] });
-        setIsDeleteDialogOpen(false);
+        setIsArchiveDialogOpen(false);
     },
     onError: (error: any) => {
         toast({ title: 'Error', description: error.message, variant: 'destructive' });
     },
   });
 
-  const handleDeleteBrand = () => {
-    deleteBrandMutation.mutate(deletingBrand);
+  const handleArchiveBrand = () => {
+    archiveBrandMutation.mutate(archivingBrand);
   }
 
   return (
@@ -106,7 +112,7 @@ export function ManageBrandsDialog({ open, onOpenChange }: ManageBrandsDialogPro
         <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
             <DialogTitle>Kelola Merk</DialogTitle>
-            <DialogDescription>Edit atau hapus merk HP yang ada</DialogDescription>
+            <DialogDescription>Edit atau arsipkan merk HP yang ada</DialogDescription>
           </DialogHeader>
           <div className="space-y-2 pb-4">
             {brandsLoading ? (
@@ -129,10 +135,10 @@ export function ManageBrandsDialog({ open, onOpenChange }: ManageBrandsDialogPro
                                     <Pencil className="h-4 w-4" />
                                 </Button>
                                 <Button variant="ghost" size="icon" onClick={() => {
-                                    setDeletingBrand(brand);
-                                    setIsDeleteDialogOpen(true);
+                                    setArchivingBrand(brand);
+                                    setIsArchiveDialogOpen(true);
                                 }}>
-                                    <Trash2 className="h-4 w-4" />
+                                    <Archive className="h-4 w-4" />
                                 </Button>
                             </div>
                         </li>
@@ -170,20 +176,20 @@ export function ManageBrandsDialog({ open, onOpenChange }: ManageBrandsDialogPro
         </DialogContent>
       </Dialog>
 
-      {/* Delete Brand Alert Dialog */}
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+      {/* Archive Brand Alert Dialog */}
+      <AlertDialog open={isArchiveDialogOpen} onOpenChange={setIsArchiveDialogOpen}>
         <AlertDialogContent>
             <AlertDialogHeader>
-                <AlertDialogTitle>Anda yakin ingin menghapus merk ini?</AlertDialogTitle>
+                <AlertDialogTitle>Arsipkan merk {archivingBrand}?</AlertDialogTitle>
                 <AlertDialogDescription>
-                    Tindakan ini tidak dapat diurungkan. Ini akan menghapus merk secara permanen
-                    dan semua model HP terkait dari database.
+                    Semua model merk ini tidak muncul lagi saat input stok dan PO. Stok dan
+                    riwayatnya tetap tersimpan, dan model bisa dipulihkan dari halaman Katalog.
                 </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
                 <AlertDialogCancel>Batal</AlertDialogCancel>
-                <AlertDialogAction onClick={handleDeleteBrand} disabled={deleteBrandMutation.isPending}>
-                    {deleteBrandMutation.isPending ? 'Menghapus...' : 'Ya, Hapus'}
+                <AlertDialogAction onClick={handleArchiveBrand} disabled={archiveBrandMutation.isPending}>
+                    {archiveBrandMutation.isPending ? 'Mengarsipkan...' : 'Ya, Arsipkan'}
                 </AlertDialogAction>
             </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CatalogModel, getVariantLabel } from "@/lib/catalog";
+
+interface MergePhoneModelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Duplicate that is merged away */
+  phoneModel: CatalogModel | null;
+  /** Catalog to pick the model to keep from */
+  models: CatalogModel[];
+}
+
+export function MergePhoneModelsDialog({ open, onOpenChange, phoneModel, models }: MergePhoneModelsDialogProps) {
+  const [targetId, setTargetId] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) setTargetId('');
+  }, [open]);
+
+  // Only items of the same kind can be merged; the same brand comes first
+  const candidates = phoneModel
+    ? models
+        .filter(m => m.id !== phoneModel.id && m.is_serialized === phoneModel.is_serialized)
+        .sort((a, b) => Number(b.brand === phoneModel.brand) - Number(a.brand === phoneModel.brand))
+    : [];
+  const target = candidates.find(m => m.id === targetId);
+
+  const describe = (model: CatalogModel) => `${model.brand} ${model.model} (${getVariantLabel(model)})`;
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      if (!phoneModel || !target) return;
+      const { error } = await supabase.rpc('merge_phone_models', {
+        p_source_id: phoneModel.id,
+        p_target_id: target.id
+      });
+      if (error) throw new Error(`Gagal menggabungkan model: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: `${phoneModel ? describe(phoneModel) : 'Model'} digabung ke ${target ? describe(target) : 'model tujuan'}` });
+      queryClient.invalidateQueries({ queryKey: ['phone-models'] });
+      queryClient.invalidateQueries({ queryKey: ['brands'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['promotions'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>Gabungkan Model</DialogTitle>
+          <DialogDescription>
+            Stok, riwayat, PO dan promo {phoneModel ? describe(phoneModel) : ''} dipindahkan ke model yang dipilih, lalu model ini dihapus.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pb-4">
+          <div className="space-y-2">
+            <Label>Gabungkan ke</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pilih model yang dipertahankan" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {describe(model)}{model.archived_at ? ' - diarsipkan' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target && (
+            <p className="text-sm text-muted-foreground">
+              SRP dan riwayat harga {describe(target)} tetap dipakai. Tindakan ini tidak dapat diurungkan.
+            </p>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => mergeMutation.mutate()}
+              disabled={mergeMutation.isPending || !target}
+              className="flex-1"
+            >
+              {mergeMutation.isPending ? "Menggabungkan..." : "Gabungkan"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { PAYMENT_METHOD_LABELS, PaymentLine, PaymentMethod, getPaymentTotal, settlePayments } from "@/lib/payments";
+
+interface PaymentLinesInputProps {
+  price: number;
+  value: PaymentLine[];
+  onChange: (payments: PaymentLine[]) => void;
+}
+
+const formatAmount = (amount: number) => amount ? amount.toLocaleString('id-ID') : '';
+
+const parseAmount = (value: string) => parseInt(value.replace(/\D/g, '')) || 0;
+
+export function PaymentLinesInput({ price, value, onChange }: PaymentLinesInputProps) {
+  const isSplit = value.length > 1;
+  const difference = price - getPaymentTotal(settlePayments(value, price));
+
+  const updateLine = (index: number, changes: Partial<PaymentLine>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    const lines = settlePayments(value, price);
+    const unusedMethod = (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+      .find(method => !lines.some(line => line.method === method)) || 'cash';
+    onChange([...lines, { method: unusedMethod, amount: Math.max(price - getPaymentTotal(lines), 0), reference: '' }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Pembayaran</Label>
+      {value.map((line, index) => (
+        <div key={index} className="rounded-lg border border-border p-2 space-y-2">
+          <div className="flex gap-2">
+            <Select value={line.method} onValueChange={(method) => updateLine(index, { method: method as PaymentMethod })}>
+              <SelectTrigger className="w-36 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                  <SelectItem key={method} value={method}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              inputMode="numeric"
+              placeholder="Jumlah"
+              value={formatAmount(isSplit ? line.amount : price)}
+              onChange={(e) => updateLine(index, { amount: parseAmount(e.target.value) })}
+              disabled={!isSplit}
+            />
+            {isSplit && (
+              <Button type="button" variant="ghost" size="icon" className="shrink-0" onClick={() => removeLine(index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {line.method !== 'cash' && (
+            <Input
+              placeholder="No. referensi (opsional)"
+              value={line.reference || ''}
+              onChange={(e) => updateLine(index, { reference: e.target.value })}
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="h-4 w-4 mr-1" />
+          Tambah Metode
+        </Button>
+        {isSplit && (
+          <span className={cn("text-sm font-medium", difference === 0 ? "text-green-600" : "text-red-600")}>
+            {difference === 0
+              ? "Pembayaran sesuai"
+              : difference > 0
+                ? `Kurang Rp ${difference.toLocaleString('id-ID')}`
+                : `Lebih Rp ${Math.abs(difference).toLocaleString('id-ID')}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
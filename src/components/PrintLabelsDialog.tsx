@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { Printer } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  LABEL_LAYOUTS,
+  LabelData,
+  LabelLayout,
+  getSavedLabelLayout,
+  paginateLabels,
+  saveLabelLayout,
+} from "@/lib/labels";
+import { UnitLabel } from "./UnitLabel";
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  labels: LabelData[];
+}
+
+const PREVIEW_LIMIT = 6;
+
+export function PrintLabelsDialog({ open, onOpenChange, labels }: PrintLabelsDialogProps) {
+  const [layout, setLayout] = useState<LabelLayout>(getSavedLabelLayout);
+  const { sheet } = LABEL_LAYOUTS[layout];
+  const pages = paginateLabels(labels, layout);
+
+  const handleLayoutChange = (value: string) => {
+    if (!value) return;
+    setLayout(value as LabelLayout);
+    saveLabelLayout(value as LabelLayout);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+            <DialogTitle>Cetak Label</DialogTitle>
+            <DialogDescription>
+              {labels.length} label{sheet ? `, ${pages.length} lembar` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ToggleGroup type="single" value={layout} onValueChange={handleLayoutChange} className="justify-start flex-wrap">
+            {Object.entries(LABEL_LAYOUTS).map(([key, { label }]) => (
+              <ToggleGroupItem key={key} value={key} size="sm" variant="outline">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="rounded-lg border border-border bg-muted p-4 overflow-x-auto">
+            <div className="flex flex-wrap justify-center gap-2">
+              {labels.slice(0, PREVIEW_LIMIT).map((label) => (
+                <div key={label.imei} className="shadow-sm">
+                  <UnitLabel data={label} layout={layout} />
+                </div>
+              ))}
+            </div>
+            {labels.length > PREVIEW_LIMIT && (
+              <p className="text-center text-sm text-muted-foreground mt-2">
+                dan {labels.length - PREVIEW_LIMIT} label lainnya
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Tutup
+            </Button>
+            <Button onClick={() => window.print()} disabled={labels.length === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              Cetak
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Only the labels are visible when printing, see .label-print-root in index.css */}
+      {open && labels.length > 0 && createPortal(
+        <div className="label-print-root">
+          <style>{sheet
+            ? `@page { size: A4 portrait; margin: ${sheet.margin}; }`
+            : `@page { size: ${LABEL_LAYOUTS[layout].width} ${LABEL_LAYOUTS[layout].height}; margin: 0; }`}
+          </style>
+          {pages.map((page, index) => (
+            <div
+              key={index}
+              className="grid justify-center"
+              style={{
+                gridTemplateColumns: `repeat(${sheet?.columns ?? 1}, ${LABEL_LAYOUTS[layout].width})`,
+                breakAfter: index < pages.length - 1 ? "page" : "auto",
+              }}
+            >
+              {page.map((label) => (
+                <UnitLabel key={label.imei} data={label} layout={layout} />
+              ))}
+            </div>
+          ))}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
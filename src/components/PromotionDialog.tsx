@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Calendar as CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { parseDbDate } from "@/lib/dateUtils";
+import { DISCOUNT_TYPE_LABELS, DiscountType, Promotion } from "@/lib/promotions";
+import { cn } from "@/lib/utils";
+
+interface PromotionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Promo to edit; a new one is created when empty */
+  promotion?: Promotion | null;
+}
+
+// Select items cannot have an empty value, so "all" stands for an unscoped promo
+const ALL = 'all';
+
+export function PromotionDialog({ open, onOpenChange, promotion }: PromotionDialogProps) {
+  const [name, setName] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percentage");
+  const [discountValue, setDiscountValue] = useState("");
+  const [brand, setBrand] = useState(ALL);
+  const [phoneModelId, setPhoneModelId] = useState(ALL);
+  const [locationId, setLocationId] = useState(ALL);
+  const [startDate, setStartDate] = useState<Date>(new Date());
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [isActive, setIsActive] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(promotion?.name || "");
+    setDiscountType((promotion?.discount_type as DiscountType) || "percentage");
+    setDiscountValue(promotion ? promotion.discount_value.toLocaleString('id-ID') : "");
+    setBrand(promotion?.brand || ALL);
+    setPhoneModelId(promotion?.phone_model_id || ALL);
+    setLocationId(promotion?.location_id || ALL);
+    setStartDate(promotion ? parseDbDate(promotion.start_date) : new Date());
+    setEndDate(promotion ? parseDbDate(promotion.end_date) : null);
+    setIsActive(promotion?.is_active ?? true);
+  }, [open, promotion]);
+
+  const { data: phoneModels } = useQuery({
+    queryKey: ['phone-models', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('id, brand, model, storage_capacity, color, srp')
+        .is('archived_at', null)
+        .order('brand')
+        .order('model');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_locations')
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open
+  });
+
+  const brands = [...new Set((phoneModels || []).map(m => m.brand))];
+  const brandModels = (phoneModels || []).filter(m => brand === ALL || m.brand === brand);
+  const parsedValue = parseInt(discountValue.replace(/\D/g, '')) || 0;
+  const isValueValid = parsedValue > 0 && (discountType !== 'percentage' || parsedValue <= 100);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!name.trim()) throw new Error('Nama promo wajib diisi');
+      if (!isValueValid) throw new Error('Besar potongan tidak valid');
+      if (!endDate || endDate < startDate) throw new Error('Tanggal berakhir harus setelah tanggal mulai');
+
+      const values = {
+        name: name.trim(),
+        discount_type: discountType,
+        discount_value: parsedValue,
+        brand: brand === ALL ? null : brand,
+        phone_model_id: phoneModelId === ALL ? null : phoneModelId,
+        location_id: locationId === ALL ? null : locationId,
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        end_date: format(endDate, 'yyyy-MM-dd'),
+        is_active: isActive
+      };
+
+      const { error } = promotion
+        ? await supabase.from('promotions').update({ ...values, updated_at: new Date().toISOString() }).eq('id', promotion.id)
+        : await supabase.from('promotions').insert(values);
+
+      if (error) throw new Error(`Gagal menyimpan promo: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: `Promo ${name.trim()} disimpan` });
+      queryClient.invalidateQueries({ queryKey: ['promotions'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const renderDatePicker = (value: Date | null, onChange: (date: Date) => void) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn("w-full justify-start text-left font-normal", !value && "text-muted-foreground")}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {value ? format(value, "dd MMM yyyy", { locale: id }) : <span>Pilih tanggal</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={value ?? undefined}
+          onSelect={(d) => d && onChange(d)}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>{promotion ? 'Edit Promo' : 'Promo Baru'}</DialogTitle>
+          <DialogDescription>
+            Potongan dari harga SRP, ditawarkan otomatis saat penjualan
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pb-4">
+          <div className="space-y-2">
+            <Label htmlFor="promo-name">Nama Promo</Label>
+            <Input
+              id="promo-name"
+              placeholder="Misal: Promo Gajian"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Jenis Potongan</Label>
+              <Select value={discountType} onValueChange={(value) => setDiscountType(value as DiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DISCOUNT_TYPE_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">{discountType === 'percentage' ? 'Persen' : 'Rupiah per unit'}</Label>
+              <Input
+                id="promo-value"
+                inputMode="numeric"
+                value={discountValue}
+                onChange={(e) => {
+                  const digits = e.target.value.replace(/\D/g, '');
+                  setDiscountValue(digits ? parseInt(digits).toLocaleString('id-ID') : '');
+                }}
+              />
+              {discountType === 'percentage' && parsedValue > 100 && (
+                <p className="text-xs text-destructive">Maksimal 100%</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Merk</Label>
+            <Select
+              value={brand}
+              onValueChange={(value) => {
+                setBrand(value);
+                setPhoneModelId(ALL);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua merk</SelectItem>
+                {brands.map((b) => (
+                  <SelectItem key={b} value={b}>{b}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Model</Label>
+            <Select value={phoneModelId} onValueChange={setPhoneModelId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua model</SelectItem>
+                {brandModels.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {[model.brand, model.model, model.storage_capacity, model.color].filter(Boolean).join(' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lokasi</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua lokasi</SelectItem>
+                {locations?.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Mulai</Label>
+              {renderDatePicker(startDate, setStartDate)}
+            </div>
+            <div className="space-y-2">
+              <Label>Berakhir</Label>
+              {renderDatePicker(endDate, setEndDate)}
+            </div>
+          </div>
+
+          {promotion && (
+            <div className="flex items-center justify-between rounded-lg border border-border p-3">
+              <Label htmlFor="promo-active" className="font-normal cursor-pointer">Promo aktif</Label>
+              <Switch id="promo-active" checked={isActive} onCheckedChange={setIsActive} />
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !name.trim() || !isValueValid || !endDate}
+              className="flex-1"
+            >
+              {saveMutation.isPending ? "Menyimpan..." : "Simpan Promo"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
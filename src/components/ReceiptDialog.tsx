@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Printer } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfiles } from "@/hooks/useProfiles";
+import { getSalePayments, mergePaymentLines } from "@/lib/payments";
+import {
+  RECEIPT_LAYOUTS,
+  ReceiptData,
+  ReceiptLayout,
+  getSavedReceiptLayout,
+  saveReceiptLayout,
+} from "@/lib/receipt";
+import { SaleReceipt } from "./SaleReceipt";
+
+interface ReceiptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saleEventId: number | null;
+}
+
+type SaleMetadata = {
+  selling_price?: number;
+  qty?: number;
+  list_price?: number;
+  line_discount?: number;
+  basket_discount?: number;
+  down_payment?: number;
+  trade_in_imei?: string;
+  trade_in_value?: number;
+};
+
+export function ReceiptDialog({ open, onOpenChange, saleEventId }: ReceiptDialogProps) {
+  const [layout, setLayout] = useState<ReceiptLayout>(getSavedReceiptLayout);
+  const { getUserName } = useProfiles();
+
+  const { data: sale, isLoading } = useQuery({
+    queryKey: ['stock-events', 'receipt', saleEventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_events')
+        .select(`
+          id, date, imei, metadata, receipt_number, transaction_id, created_by, created_at,
+          stock_locations(name),
+          phone_models(brand, model, storage_capacity, color),
+          customers(name, phone)
+        `)
+        .eq('id', saleEventId)
+        .single();
+
+      if (error) throw error;
+      if (!data.transaction_id) return { ...data, items: [data] };
+
+      // Cart sales print every item of the transaction on one nota
+      const { data: items, error: itemsError } = await supabase
+        .from('stock_events')
+        .select(`
+          id, imei, metadata,
+          phone_models(brand, model, storage_capacity, color)
+        `)
+        .eq('transaction_id', data.transaction_id)
+        .eq('event_type', 'laku')
+        .order('id', { ascending: true });
+
+      if (itemsError) throw itemsError;
+      return { ...data, items };
+    },
+    enabled: open && saleEventId !== null
+  });
+
+  const metadata = (sale?.metadata ?? {}) as SaleMetadata;
+  const itemMetadata = (sale?.items || []).map(item => (item.metadata ?? {}) as SaleMetadata);
+
+  const receipt: ReceiptData | null = sale ? {
+    receiptNumber: sale.receipt_number || `#${sale.id}`,
+    date: sale.date,
+    recordedAt: sale.created_at,
+    items: sale.items.map((item, index) => ({
+      brand: item.phone_models?.brand || '',
+      model: item.phone_models?.model || '',
+      storage: item.phone_models?.storage_capacity || null,
+      color: item.phone_models?.color || null,
+      imei: item.imei,
+      qty: itemMetadata[index].qty ?? 1,
+      listPrice: itemMetadata[index].list_price ?? itemMetadata[index].selling_price ?? 0,
+      discount: itemMetadata[index].line_discount ?? 0,
+    })),
+    basketDiscount: itemMetadata.reduce((sum, m) => sum + (m.basket_discount || 0), 0),
+    price: itemMetadata.reduce((sum, m) => sum + (m.selling_price || 0), 0),
+    payments: mergePaymentLines(sale.items.flatMap(item => getSalePayments(item.metadata))),
+    downPayment: metadata.down_payment ?? null,
+    tradeIn: metadata.trade_in_imei ? { imei: metadata.trade_in_imei, value: metadata.trade_in_value || 0 } : null,
+    locationName: sale.stock_locations?.name || null,
+    cashierName: getUserName(sale.created_by),
+    customerName: sale.customers?.name || null,
+    customerPhone: sale.customers?.phone || null,
+  } : null;
+
+  const handleLayoutChange = (value: string) => {
+    if (!value) return;
+    setLayout(value as ReceiptLayout);
+    saveReceiptLayout(value as ReceiptLayout);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+            <DialogTitle>Cetak Nota</DialogTitle>
+            <DialogDescription>
+              {receipt ? `No. Nota ${receipt.receiptNumber}` : 'Memuat data penjualan...'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ToggleGroup type="single" value={layout} onValueChange={handleLayoutChange} className="justify-start">
+            {Object.entries(RECEIPT_LAYOUTS).map(([key, { label }]) => (
+              <ToggleGroupItem key={key} value={key} size="sm" variant="outline">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="rounded-lg border border-border bg-muted p-4 overflow-x-auto">
+            {isLoading || !receipt ? (
+              <div className="h-64 bg-background rounded animate-pulse" />
+            ) : (
+              <div className="w-fit mx-auto shadow-sm">
+                <SaleReceipt data={receipt} layout={layout} />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Tutup
+            </Button>
+            <Button onClick={() => window.print()} disabled={!receipt}>
+              <Printer className="h-4 w-4 mr-2" />
+              Cetak
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Only this copy is visible when printing, see .receipt-print-root in index.css */}
+      {open && receipt && createPortal(
+        <div className="receipt-print-root">
+          <style>{`@page { size: ${RECEIPT_LAYOUTS[layout].pageSize}; margin: ${layout === 'a5' ? '10mm' : '0'}; }`}</style>
+          <SaleReceipt data={receipt} layout={layout} />
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import { ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Permission } from "@/lib/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { can, isLoading } = usePermissions();
+  const navigate = useNavigate();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!can(permission)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4 px-4 text-center">
+        <ShieldAlert className="h-12 w-12 text-muted-foreground" />
+        <div>
+          <h1 className="text-xl font-bold">Akses Ditolak</h1>
+          <p className="text-sm text-muted-foreground">Peran Anda tidak memiliki akses ke halaman ini.</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/')}>
+          Kembali ke Dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
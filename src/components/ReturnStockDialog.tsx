@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Calendar as CalendarIcon, Camera } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { getVoidsByEventId, resolveImeiState, sortEventsChronologically } from "@/lib/stockEvents";
+import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { StockEntry } from "./StockTable";
+
+type ReturnKind = 'retur_in' | 'retur_out';
+
+interface ReturnStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stockEntry?: StockEntry | null;
+  defaultType?: ReturnKind;
+}
+
+const RETURN_REASONS: Record<ReturnKind, string[]> = {
+  retur_in: ['Rusak / cacat', 'Tidak sesuai pesanan', 'Pembeli berubah pikiran', 'Klaim garansi'],
+  retur_out: ['Cacat pabrik', 'Mati total', 'Tidak sesuai pesanan', 'Kelebihan kirim'],
+};
+
+export function ReturnStockDialog({ open, onOpenChange, stockEntry, defaultType }: ReturnStockDialogProps) {
+  const [returnType, setReturnType] = useState<ReturnKind>(defaultType || 'retur_in');
+  const [imei, setImei] = useState<string>(stockEntry?.imei || "");
+  const [returnDate, setReturnDate] = useState<Date>(new Date());
+  const [reason, setReason] = useState<string>("");
+  const [notes, setNotes] = useState<string>("");
+  const [refundAmount, setRefundAmount] = useState<string>("");
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Sync form with the row the dialog was opened from
+  useEffect(() => {
+    if (open) {
+      setImei(stockEntry?.imei || "");
+      setReturnType(defaultType || 'retur_in');
+    }
+  }, [open, stockEntry, defaultType]);
+
+  const resetForm = () => {
+    setImei("");
+    setReturnDate(new Date());
+    setReason("");
+    setNotes("");
+    setRefundAmount("");
+  };
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const cleanImei = imei.trim();
+      if (!cleanImei) throw new Error('IMEI wajib diisi');
+      if (!reason.trim()) throw new Error('Alasan retur wajib diisi');
+
+      // Replay the IMEI's events to know where it is and whether it was sold
+      const { data: events, error: eventsError } = await supabase
+        .from('stock_events')
+        .select('*')
+        .eq('imei', cleanImei);
+
+      if (eventsError) throw new Error(`Gagal memeriksa IMEI: ${eventsError.message}`);
+      if (!events || events.length === 0) throw new Error(`IMEI ${cleanImei} tidak ditemukan`);
+
+      const state = resolveImeiState(events);
+
+      if (returnType === 'retur_in' && state.status !== 'terjual') {
+        throw new Error('Retur pelanggan hanya bisa untuk HP yang sudah terjual');
+      }
+      if (returnType === 'retur_out' && state.status !== 'tersedia') {
+        throw new Error('Retur ke supplier hanya bisa untuk HP yang masih tersedia');
+      }
+
+      const refundNum = refundAmount ? parseInt(refundAmount.replace(/\./g, '')) : 0;
+      const saleMetadata = (state.lastSaleEvent?.metadata || {}) as { selling_price?: number };
+
+      // A unit sent back to the supplier is returned against the purchase it was received on
+      const voids = getVoidsByEventId(events);
+      const purchaseEvent = returnType === 'retur_out'
+        ? sortEventsChronologically(events.filter(e => e.event_type === 'masuk' && !voids.has(e.id))).pop()
+        : null;
+      const purchaseCost = (purchaseEvent?.metadata as { cost_price?: number } | null)?.cost_price;
+
+      const metadata = returnType === 'retur_in'
+        ? {
+            reason: reason.trim(),
+            sale_event_id: state.lastSaleEvent?.id ?? null,
+            selling_price: saleMetadata.selling_price ?? null,
+            ...(refundNum > 0 ? { refund_amount: refundNum } : {}),
+          }
+        : {
+            reason: reason.trim(),
+            ...(purchaseEvent ? { purchase_event_id: purchaseEvent.id } : {}),
+            ...(purchaseCost ? { cost_price: purchaseCost } : {}),
+          };
+
+      const label = returnType === 'retur_in' ? 'Retur dari pelanggan' : 'Retur ke supplier';
+
+      const { error: eventError } = await supabase
+        .from('stock_events')
+        .insert({
+          date: format(returnDate, 'yyyy-MM-dd'),
+          imei: cleanImei,
+          location_id: state.locationId,
+          phone_model_id: state.phoneModelId,
+          event_type: returnType,
+          qty: 1,
+          purchase_id: purchaseEvent?.purchase_id ?? null,
+          notes: `${label}: ${reason.trim()}${notes.trim() ? ` - ${notes.trim()}` : ''}`,
+          metadata
+        });
+
+      if (eventError) throw new Error(`Gagal menyimpan event: ${eventError.message}`);
+
+      // Cascade recalculation happens automatically via database trigger
+    },
+    onSuccess: () => {
+      toast({
+        title: "Berhasil",
+        description: returnType === 'retur_in'
+          ? "Retur pelanggan dicatat, HP kembali ke stok"
+          : "Retur ke supplier dicatat",
+      });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['purchases'] });
+      resetForm();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
+          <DialogTitle>Retur HP</DialogTitle>
+          <DialogDescription>
+            Catat retur dari pelanggan atau retur ke supplier
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pb-4">
+          <div className="space-y-2">
+            <Label>Jenis Retur</Label>
+            <Select value={returnType} onValueChange={(v) => { setReturnType(v as ReturnKind); setReason(""); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="retur_in">Retur dari Pelanggan</SelectItem>
+                <SelectItem value="retur_out">Retur ke Supplier</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>IMEI</Label>
+            {stockEntry ? (
+              <div className="rounded-lg bg-muted p-3">
+                <p className="font-medium">{stockEntry.phone_models.brand} {stockEntry.phone_models.model}</p>
+                <p className="text-sm text-muted-foreground font-mono">{stockEntry.imei}</p>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Masukkan IMEI"
+                  value={imei}
+                  onChange={(e) => setImei(e.target.value)}
+                  maxLength={15}
+                  inputMode="numeric"
+                  className="flex-1"
+                />
+                <Button type="button" variant="outline" size="icon" onClick={() => setScannerOpen(true)}>
+                  <Camera className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tanggal Retur</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant={"outline"}
+                  className={cn(
+                    "w-full justify-start text-left font-normal",
+                    !returnDate && "text-muted-foreground"
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {returnDate ? format(returnDate, "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={returnDate}
+                  onSelect={(d) => d && setReturnDate(d)}
+                  disabled={(date) => date > new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Alasan *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pilih alasan retur" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS[returnType].map(r => (
+                  <SelectItem key={r} value={r}>{r}</SelectItem>
+                ))}
+                <SelectItem value="Lainnya">Lainnya</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {returnType === 'retur_in' && (
+            <div className="space-y-2">
+              <Label>Uang Dikembalikan (Opsional)</Label>
+              <Input
+                placeholder="Jumlah refund ke pelanggan"
+                value={refundAmount}
+                onChange={(e) => {
+                  const numOnly = e.target.value.replace(/\D/g, '');
+                  setRefundAmount(numOnly ? parseInt(numOnly).toLocaleString('id-ID') : '');
+                }}
+                inputMode="numeric"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Catatan (Opsional)</Label>
+            <Textarea
+              placeholder="Tambahkan catatan..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              onClick={() => returnMutation.mutate()}
+              disabled={returnMutation.isPending || !reason}
+              className="flex-1"
+            >
+              {returnMutation.isPending ? "Memproses..." : "Simpan Retur"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+
+      <BarcodeScanner
+        open={scannerOpen}
+        onOpenChange={setScannerOpen}
+        onScanSuccess={(scannedImei) => {
+          setImei(scannedImei);
+          setScannerOpen(false);
+        }}
+      />
+    </Dialog>
+  );
+}
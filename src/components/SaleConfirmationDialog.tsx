@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { format } from "date-fns";
-import { Calendar as CalendarIcon } from "lucide-react";
+import { AlertTriangle, Calendar as CalendarIcon, Tag } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   Dialog,
@@ -13,23 +13,45 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import type { SaleData } from "@/hooks/useMarkAsSold";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePriceHistory } from "@/hooks/usePriceHistory";
+import { usePromotions } from "@/hooks/usePromotions";
+import type { CreditTerms } from "@/lib/credit";
+import type { CustomerInput } from "@/lib/customers";
+import { PaymentLine, getPaymentTotal, settlePayments } from "@/lib/payments";
+import { getSrpOnDate } from "@/lib/priceHistory";
+import { PromoScope, findBestPromotion, isBelowCost } from "@/lib/promotions";
+import { TradeInData, isTradeInComplete } from "@/lib/tradeIn";
+import { CreditSaleInput } from "./CreditSaleInput";
+import { CustomerPicker } from "./CustomerPicker";
+import { PaymentLinesInput } from "./PaymentLinesInput";
+import { TradeInInput } from "./TradeInInput";
 
 interface SaleConfirmationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onConfirm: (saleData: { price: number; date: Date; srp: number; costPrice: number }) => void;
+  onConfirm: (saleData: SaleData) => void;
   suggestedPrice: number;
   itemName: string;
   srp: number;
   costPrice: number;
+  /** Set for accessories: pieces available, sold in bulk at a per-piece price */
+  maxQty?: number;
+  /** The item and location, to look up promos and the SRP history */
+  promoScope?: PromoScope;
 }
 
+const DEFAULT_PAYMENTS: PaymentLine[] = [{ method: 'cash', amount: 0, reference: '' }];
+
 export function SaleConfirmationDialog({
   open,
   onOpenChange,
@@ -38,10 +60,22 @@ export function SaleConfirmationDialog({
   itemName,
   srp,
   costPrice,
+  maxQty,
+  promoScope,
 }: SaleConfirmationDialogProps) {
   const [showManualEntry, setShowManualEntry] = useState(false);
+  const [quantity, setQuantity] = useState("1");
   const [manualPrice, setManualPrice] = useState(suggestedPrice.toLocaleString('id-ID'));
   const [saleDate, setSaleDate] = useState<Date>(new Date());
+  const [customer, setCustomer] = useState<CustomerInput | null>(null);
+  const [payments, setPayments] = useState<PaymentLine[]>(DEFAULT_PAYMENTS);
+  const [credit, setCredit] = useState<CreditTerms | null>(null);
+  const [tradeIn, setTradeIn] = useState<TradeInData | null>(null);
+  const [applyPromo, setApplyPromo] = useState(true);
+  const [belowCostApproved, setBelowCostApproved] = useState(false);
+  const { can, profile } = usePermissions();
+  const { data: promotions } = usePromotions({ activeOnly: true, enabled: open && !!promoScope });
+  const { data: priceHistory } = usePriceHistory(promoScope?.phoneModelId, { enabled: open });
 
   const formatPrice = (value: string) => {
     const numOnly = value.replace(/\D/g, '');
@@ -52,12 +86,33 @@ export function SaleConfirmationDialog({
     return parseInt(formattedPrice.replace(/\./g, '')) || 0;
   };
 
+  const qty = maxQty ? parseInt(quantity) || 0 : 1;
+
+  // SRP and promos are taken on the sale date, so a backdated manual sale gets the prices of that day
+  const saleDay = showManualEntry ? saleDate : new Date();
+  const saleSrp = getSrpOnDate(priceHistory || [], saleDay, srp);
+  const availablePromo = findBestPromotion(promotions || [], promoScope, saleSrp, saleDay);
+  const promotion = applyPromo ? availablePromo : null;
+  const suggestedTotal = (saleSrp - (promotion?.unitDiscount || 0)) * qty;
+
+  const getBelowCostApproval = (price: number) =>
+    belowCostApproved && profile && isBelowCost(price, costPrice * qty)
+      ? { userId: profile.user_id, name: profile.full_name || '' }
+      : null;
+
   const handleUseSRP = () => {
     onConfirm({
-      price: suggestedPrice,
+      price: suggestedTotal,
       date: new Date(),
-      srp,
+      srp: saleSrp,
       costPrice,
+      qty: maxQty ? qty : undefined,
+      customer,
+      payments: settlePayments(payments, getAmountDueNow(suggestedTotal)),
+      credit,
+      tradeIn,
+      promotion,
+      belowCostApproval: getBelowCostApproval(suggestedTotal),
     });
     resetState();
   };
@@ -67,16 +122,44 @@ export function SaleConfirmationDialog({
     onConfirm({
       price,
       date: saleDate,
-      srp,
+      srp: saleSrp,
       costPrice,
+      qty: maxQty ? qty : undefined,
+      customer,
+      payments: settlePayments(payments, getAmountDueNow(price)),
+      credit,
+      tradeIn,
+      promotion,
+      belowCostApproval: getBelowCostApproval(price),
     });
     resetState();
   };
 
   const resetState = () => {
     setShowManualEntry(false);
+    setQuantity("1");
     setManualPrice(suggestedPrice.toLocaleString('id-ID'));
     setSaleDate(new Date());
+    setCustomer(null);
+    setPayments(DEFAULT_PAYMENTS);
+    setCredit(null);
+    setTradeIn(null);
+    setApplyPromo(true);
+    setBelowCostApproved(false);
+  };
+
+  // The trade-in value is deducted from the price; what is left can be financed
+  const getNetPrice = (price: number) => price - (tradeIn?.value || 0);
+
+  // On a credit sale only the down payment is paid at the counter
+  const getAmountDueNow = (price: number) => credit ? credit.downPayment : getNetPrice(price);
+
+  const isSaleValid = (price: number) => {
+    if (qty < 1 || (maxQty && qty > maxQty)) return false;
+    const amountDueNow = getAmountDueNow(price);
+    if (getPaymentTotal(settlePayments(payments, amountDueNow)) !== amountDueNow) return false;
+    if (tradeIn && !isTradeInComplete(tradeIn, price)) return false;
+    return !credit || (!!customer && credit.downPayment < getNetPrice(price) && credit.installments.length > 0);
   };
 
   const handleOpenChange = (isOpen: boolean) => {
@@ -87,8 +170,59 @@ export function SaleConfirmationDialog({
   };
 
   // Use cost price if available, otherwise use SRP
-  const costBasis = costPrice > 0 ? costPrice : srp;
-  const profitLoss = suggestedPrice - costBasis;
+  const costBasis = (costPrice > 0 ? costPrice : saleSrp) * qty;
+  const profitLoss = suggestedTotal - costBasis;
+
+  const promoInput = availablePromo ? (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+      <Label htmlFor="apply-promo" className="flex items-center gap-2 font-normal cursor-pointer">
+        <Tag className="h-4 w-4 text-primary" />
+        <span>
+          <span className="font-medium">{availablePromo.name}</span>
+          <span className="block text-xs text-muted-foreground">
+            Potongan Rp {availablePromo.unitDiscount.toLocaleString('id-ID')}{maxQty ? ' per pcs' : ''}
+          </span>
+        </span>
+      </Label>
+      <Switch id="apply-promo" checked={applyPromo} onCheckedChange={setApplyPromo} />
+    </div>
+  ) : null;
+
+  const renderBelowCostWarning = (price: number) => isBelowCost(price, costPrice * qty) ? (
+    <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2 font-medium text-destructive">
+        <AlertTriangle className="h-4 w-4" />
+        Harga jual di bawah modal
+      </div>
+      {can('sale.approve_below_cost') ? (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="approve-below-cost"
+            checked={belowCostApproved}
+            onCheckedChange={(checked) => setBelowCostApproved(checked === true)}
+          />
+          <Label htmlFor="approve-below-cost" className="font-normal cursor-pointer">
+            Saya menyetujui harga ini sebagai pemilik
+          </Label>
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Penjualan ini akan ditandai untuk ditinjau pemilik.</p>
+      )}
+    </div>
+  ) : null;
+
+  const quantityInput = maxQty ? (
+    <div className="space-y-2">
+      <Label htmlFor="sale-qty">Jumlah (stok {maxQty})</Label>
+      <Input
+        id="sale-qty"
+        inputMode="numeric"
+        value={quantity}
+        onChange={(e) => setQuantity(e.target.value.replace(/\D/g, ''))}
+      />
+      {qty > maxQty && <p className="text-xs text-destructive">Stok tidak cukup</p>}
+    </div>
+  ) : null;
 
   if (showManualEntry) {
     return (
@@ -102,8 +236,12 @@ export function SaleConfirmationDialog({
           </DialogHeader>
           
           <div className="space-y-4 py-4 pb-4">
+            {quantityInput}
+
+            {promoInput}
+
             <div className="space-y-2">
-              <Label htmlFor="manual-price">Harga Jual (Rp)</Label>
+              <Label htmlFor="manual-price">{maxQty ? 'Harga Jual Total (Rp)' : 'Harga Jual (Rp)'}</Label>
               <Input
                 id="manual-price"
                 type="text"
@@ -150,7 +288,7 @@ export function SaleConfirmationDialog({
               )}
               <div className="flex justify-between">
                 <span>Harga SRP:</span>
-                <span className="font-medium">Rp {srp.toLocaleString('id-ID')}</span>
+                <span className="font-medium">Rp {saleSrp.toLocaleString('id-ID')}</span>
               </div>
               <div className="flex justify-between">
                 <span>Harga Jual:</span>
@@ -160,9 +298,9 @@ export function SaleConfirmationDialog({
                 <span className="font-semibold">Laba/Rugi:</span>
                 <span className={cn(
                   "font-semibold",
-                  parsePriceToNumber(manualPrice) - (costPrice > 0 ? costPrice : srp) >= 0 ? "text-green-600" : "text-red-600"
+                  parsePriceToNumber(manualPrice) - costBasis >= 0 ? "text-green-600" : "text-red-600"
                 )}>
-                  Rp {(parsePriceToNumber(manualPrice) - (costPrice > 0 ? costPrice : srp)).toLocaleString('id-ID')}
+                  Rp {(parsePriceToNumber(manualPrice) - costBasis).toLocaleString('id-ID')}
                 </span>
               </div>
               {costPrice > 0 && (
@@ -171,13 +309,27 @@ export function SaleConfirmationDialog({
                 </div>
               )}
             </div>
+
+            {renderBelowCostWarning(parsePriceToNumber(manualPrice))}
+
+            {!maxQty && (
+              <TradeInInput price={parsePriceToNumber(manualPrice)} value={tradeIn} onChange={setTradeIn} />
+            )}
+
+            <CreditSaleInput price={getNetPrice(parsePriceToNumber(manualPrice))} value={credit} onChange={setCredit} />
+
+            {getAmountDueNow(parsePriceToNumber(manualPrice)) > 0 && (
+              <PaymentLinesInput price={getAmountDueNow(parsePriceToNumber(manualPrice))} value={payments} onChange={setPayments} />
+            )}
+
+            <CustomerPicker value={customer} onChange={setCustomer} required={!!credit} />
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowManualEntry(false)}>
               Kembali
             </Button>
-            <Button onClick={handleManualSubmit}>
+            <Button onClick={handleManualSubmit} disabled={!isSaleValid(parsePriceToNumber(manualPrice))}>
               Konfirmasi Penjualan
             </Button>
           </DialogFooter>
@@ -192,7 +344,7 @@ export function SaleConfirmationDialog({
         <DialogHeader className="sticky top-0 bg-background z-10 pb-4">
           <DialogTitle>Konfirmasi Penjualan</DialogTitle>
           <DialogDescription>
-            Apakah HP ini terjual hari ini dengan harga SRP?
+            {maxQty ? 'Apakah barang ini terjual hari ini dengan harga' : 'Apakah HP ini terjual hari ini dengan harga'} {promotion ? 'promo' : 'SRP'}?
           </DialogDescription>
         </DialogHeader>
 
@@ -202,6 +354,10 @@ export function SaleConfirmationDialog({
             <div className="font-semibold">{itemName}</div>
           </div>
 
+          {quantityInput}
+
+          {promoInput}
+
           <div className="rounded-lg bg-muted p-4 space-y-2">
             {costPrice > 0 && (
               <div className="flex justify-between text-sm">
@@ -211,8 +367,24 @@ export function SaleConfirmationDialog({
             )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Harga SRP:</span>
-              <span className="font-semibold">Rp {suggestedPrice.toLocaleString('id-ID')}</span>
+              <span className={cn("font-semibold", promotion && "line-through text-muted-foreground")}>
+                Rp {saleSrp.toLocaleString('id-ID')}
+              </span>
             </div>
+            {promotion && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Harga Promo:</span>
+                <span className="font-semibold text-primary">
+                  Rp {(saleSrp - promotion.unitDiscount).toLocaleString('id-ID')}
+                </span>
+              </div>
+            )}
+            {qty > 1 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Total ({qty} pcs):</span>
+                <span className="font-semibold">Rp {suggestedTotal.toLocaleString('id-ID')}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Tanggal:</span>
               <span className="font-semibold">{format(new Date(), "dd MMM yyyy")}</span>
@@ -232,14 +404,35 @@ export function SaleConfirmationDialog({
               </div>
             )}
           </div>
+
+          {renderBelowCostWarning(suggestedTotal)}
+
+          {!maxQty && (
+            <TradeInInput price={suggestedTotal} value={tradeIn} onChange={setTradeIn} />
+          )}
+
+          <CreditSaleInput price={getNetPrice(suggestedTotal)} value={credit} onChange={setCredit} />
+
+          {getAmountDueNow(suggestedTotal) > 0 && (
+            <PaymentLinesInput price={getAmountDueNow(suggestedTotal)} value={payments} onChange={setPayments} />
+          )}
+
+          <CustomerPicker value={customer} onChange={setCustomer} required={!!credit} />
         </div>
 
         <DialogFooter className="flex-col sm:flex-row gap-2">
-          <Button variant="outline" onClick={() => setShowManualEntry(true)} className="w-full sm:w-auto">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setManualPrice(suggestedTotal.toLocaleString('id-ID'));
+              setShowManualEntry(true);
+            }}
+            className="w-full sm:w-auto"
+          >
             Tidak, Input Manual
           </Button>
-          <Button onClick={handleUseSRP} className="w-full sm:w-auto">
-            Ya, Gunakan SRP
+          <Button onClick={handleUseSRP} disabled={!isSaleValid(suggestedTotal)} className="w-full sm:w-auto">
+            {promotion ? 'Ya, Gunakan Harga Promo' : 'Ya, Gunakan SRP'}
           </Button>
         </DialogFooter>
       </DialogContent>
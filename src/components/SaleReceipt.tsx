@@ -0,0 +1,144 @@
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { RECEIPT_LAYOUTS, ReceiptData, ReceiptLayout, STORE_NAME, WARRANTY_TERMS } from "@/lib/receipt";
+
+interface SaleReceiptProps {
+  data: ReceiptData;
+  layout: ReceiptLayout;
+}
+
+export function SaleReceipt({ data, layout }: SaleReceiptProps) {
+  const isThermal = layout !== "a5";
+  const saleDate = formatDateShort(parseDbDate(data.date));
+  const recordedTime = format(new Date(data.recordedAt), "HH:mm");
+
+  const rows: [string, string][] = [
+    ["No. Nota", data.receiptNumber],
+    ["Tanggal", `${saleDate} ${recordedTime}`],
+    ["Kasir", data.cashierName || "-"],
+  ];
+  if (data.customerName) {
+    rows.push(["Pelanggan", [data.customerName, data.customerPhone].filter(Boolean).join(" / ")]);
+  }
+
+  return (
+    <div
+      className={cn(
+        "bg-white text-black mx-auto",
+        isThermal ? "font-mono leading-snug p-1" : "font-sans p-6",
+        layout === "thermal58" && "text-[10px]",
+        layout === "thermal80" && "text-xs",
+        layout === "a5" && "text-sm"
+      )}
+      style={{ width: RECEIPT_LAYOUTS[layout].width }}
+    >
+      <div className={cn("text-center", isThermal ? "pb-2 border-b border-dashed border-black" : "pb-4 border-b-2 border-black")}>
+        <div className={cn("font-bold", isThermal ? "text-base" : "text-2xl")}>{STORE_NAME}</div>
+        {data.locationName && <div>{data.locationName}</div>}
+        {!isThermal && <div className="mt-1 text-xs uppercase tracking-widest">Nota Penjualan</div>}
+      </div>
+
+      <table className={cn("w-full", isThermal ? "my-2" : "my-4")}>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label} className="align-top">
+              <td className="pr-2 whitespace-nowrap">{label}</td>
+              <td className="text-right break-all">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className={cn(isThermal ? "py-2 border-y border-dashed border-black space-y-2" : "py-3 border-y border-black space-y-3")}>
+        {data.items.map((item, index) => (
+          <div key={index}>
+            <div className="font-bold">{[item.brand, item.model, item.storage].filter(Boolean).join(" ")}</div>
+            {item.color && <div>{item.color}</div>}
+            {item.imei && <div className="break-all">IMEI: {item.imei}</div>}
+            <div className="flex justify-between mt-1">
+              <span>{item.qty} x Rp {Math.round(item.listPrice / item.qty).toLocaleString("id-ID")}</span>
+              <span>Rp {item.listPrice.toLocaleString("id-ID")}</span>
+            </div>
+            {item.discount > 0 && (
+              <div className="flex justify-between">
+                <span>Diskon</span>
+                <span>-Rp {item.discount.toLocaleString("id-ID")}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {data.basketDiscount > 0 && (
+        <div className={cn("flex justify-between gap-2", isThermal ? "pt-2" : "pt-3")}>
+          <span>Diskon Nota</span>
+          <span className="whitespace-nowrap">-Rp {data.basketDiscount.toLocaleString("id-ID")}</span>
+        </div>
+      )}
+
+      {data.tradeIn && (
+        <div className={isThermal ? "pt-2" : "pt-3"}>
+          <div className="flex justify-between gap-2">
+            <span>Tukar Tambah</span>
+            <span className="whitespace-nowrap">-Rp {data.tradeIn.value.toLocaleString("id-ID")}</span>
+          </div>
+          <div className="break-all">IMEI: {data.tradeIn.imei}</div>
+        </div>
+      )}
+
+      <div className={cn("flex justify-between font-bold", isThermal ? "py-2 text-sm" : "py-3 text-lg")}>
+        <span>TOTAL</span>
+        <span>Rp {(data.price - (data.tradeIn?.value || 0)).toLocaleString("id-ID")}</span>
+      </div>
+
+      {data.payments.length > 0 && (
+        <div className={isThermal ? "pb-2" : "pb-3"}>
+          {data.payments.map((payment, index) => (
+            <div key={index} className="flex justify-between gap-2">
+              <span className="break-all">
+                {PAYMENT_METHOD_LABELS[payment.method]}
+                {payment.reference && ` (${payment.reference})`}
+              </span>
+              <span className="whitespace-nowrap">Rp {payment.amount.toLocaleString("id-ID")}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data.downPayment !== null && (
+        <div className={cn("flex justify-between font-bold", isThermal ? "pb-2" : "pb-3")}>
+          <span>Sisa Kredit</span>
+          <span>Rp {(data.price - (data.tradeIn?.value || 0) - data.downPayment).toLocaleString("id-ID")}</span>
+        </div>
+      )}
+
+      <div className={cn(isThermal ? "pt-2 border-t border-dashed border-black" : "pt-3 border-t border-black")}>
+        <div className="font-bold mb-1">Ketentuan Garansi</div>
+        <ol className="list-decimal pl-4 space-y-0.5">
+          {WARRANTY_TERMS.map((term) => (
+            <li key={term}>{term}</li>
+          ))}
+        </ol>
+      </div>
+
+      {!isThermal && (
+        <div className="grid grid-cols-2 gap-8 mt-8 text-center">
+          <div>
+            <div>Pembeli</div>
+            <div className="mt-16 border-t border-black pt-1">{data.customerName || " "}</div>
+          </div>
+          <div>
+            <div>Hormat Kami</div>
+            <div className="mt-16 border-t border-black pt-1">{data.cashierName || " "}</div>
+          </div>
+        </div>
+      )}
+
+      <div className={cn("text-center", isThermal ? "mt-3" : "mt-6")}>
+        Terima kasih atas kunjungan Anda
+      </div>
+    </div>
+  );
+}
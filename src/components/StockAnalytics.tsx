@@ -8,6 +8,11 @@ import { differenceInDays } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { useProfiles } from "@/hooks/useProfiles";
+import { PAYMENT_METHOD_LABELS, PaymentMethod, UNRECORDED_PAYMENT_LABEL, getSalePayments } from "@/lib/payments";
+import { fetchPriceHistory, getSrpOnDate } from "@/lib/priceHistory";
+import { getVoidsByEventId } from "@/lib/stockEvents";
+import { CONDITION_LABELS, UnitCondition, fetchUsedImeis } from "@/lib/tradeIn";
 
 const COLORS = [
   'hsl(142, 76%, 36%)',   // Green
@@ -53,6 +58,7 @@ interface StockAnalyticsProps {
 export function StockAnalytics({ selectedDate = new Date() }: StockAnalyticsProps) {
   const [selectedBrand, setSelectedBrand] = useState<string | null>(null);
   const [activeIndex, setActiveIndex] = useState<number | undefined>(undefined);
+  const { getUserName } = useProfiles();
   
   // --- DATA QUERIES ---
 
@@ -240,6 +246,180 @@ export function StockAnalytics({ selectedDate = new Date() }: StockAnalyticsProp
     }
   });
 
+  // 5. Query for sales and receipts per employee
+  const { data: employeeStats, isLoading: employeeStatsLoading } = useQuery({
+    queryKey: ['employee-stats', selectedDate.toISOString()],
+    queryFn: async () => {
+        const thirtyDaysAgo = new Date(selectedDate);
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        const today = selectedDate.toISOString().split('T')[0];
+        const { data, error } = await supabase
+          .from('stock_events')
+          .select('id, event_type, voided_event_id, created_by, metadata')
+          .in('event_type', ['laku', 'masuk', 'void'])
+          .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+          .lte('date', today);
+        if (error) throw error;
+
+        const voids = getVoidsByEventId(data);
+        const grouped = data
+          .filter(e => e.event_type !== 'void' && !voids.has(e.id) && e.created_by)
+          .reduce((acc, event) => {
+            const stats = acc[event.created_by] || { userId: event.created_by, sold: 0, revenue: 0, received: 0 };
+            if (event.event_type === 'laku') {
+              stats.sold += 1;
+              stats.revenue += (event.metadata as { selling_price?: number } | null)?.selling_price || 0;
+            } else {
+              stats.received += 1;
+            }
+            acc[event.created_by] = stats;
+            return acc;
+          }, {} as Record<string, { userId: string; sold: number; revenue: number; received: number }>);
+
+        return Object.values(grouped).sort((a, b) => b.revenue - a.revenue);
+    }
+  });
+
+  // 6. Query for revenue per payment method
+  const { data: paymentMethodStats, isLoading: paymentMethodStatsLoading } = useQuery({
+    queryKey: ['payment-method-stats', selectedDate.toISOString()],
+    queryFn: async () => {
+        const thirtyDaysAgo = new Date(selectedDate);
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        const today = selectedDate.toISOString().split('T')[0];
+        const [
+          { data, error },
+          { data: creditPayments, error: creditPaymentsError }
+        ] = await Promise.all([
+          supabase
+            .from('stock_events')
+            .select('id, event_type, voided_event_id, metadata')
+            .in('event_type', ['laku', 'void'])
+            .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+            .lte('date', today),
+          // Installments received for credit sales count as revenue on the day they are paid
+          supabase
+            .from('credit_payments')
+            .select('amount, method')
+            .gte('paid_at', thirtyDaysAgo.toISOString().split('T')[0])
+            .lte('paid_at', today)
+        ]);
+        if (error) throw error;
+        if (creditPaymentsError) throw creditPaymentsError;
+
+        const voids = getVoidsByEventId(data);
+        const grouped: Record<string, { label: string; transactions: number; revenue: number }> = {};
+        const add = (key: string, label: string, amount: number) => {
+          const stats = grouped[key] || { label, transactions: 0, revenue: 0 };
+          stats.transactions += 1;
+          stats.revenue += amount;
+          grouped[key] = stats;
+        };
+
+        data
+          .filter(e => e.event_type === 'laku' && !voids.has(e.id))
+          .forEach(event => {
+            const payments = getSalePayments(event.metadata);
+            if (payments.length === 0) {
+              add('unrecorded', UNRECORDED_PAYMENT_LABEL, (event.metadata as { selling_price?: number } | null)?.selling_price || 0);
+            }
+            payments.forEach(p => add(p.method, PAYMENT_METHOD_LABELS[p.method], p.amount));
+          });
+
+        (creditPayments || []).forEach(p => {
+          add(p.method, PAYMENT_METHOD_LABELS[p.method as PaymentMethod] || p.method, p.amount);
+        });
+
+        const total = Object.values(grouped).reduce((sum, m) => sum + m.revenue, 0);
+        return Object.entries(grouped)
+          .map(([method, stats]) => ({ method, ...stats, share: total > 0 ? (stats.revenue / total) * 100 : 0 }))
+          .sort((a, b) => b.revenue - a.revenue);
+    }
+  });
+
+  // 7. Query for new vs used (trade-in) units sold
+  const { data: conditionStats, isLoading: conditionStatsLoading } = useQuery({
+    queryKey: ['condition-stats', selectedDate.toISOString()],
+    queryFn: async () => {
+        const thirtyDaysAgo = new Date(selectedDate);
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        const today = selectedDate.toISOString().split('T')[0];
+        const { data, error } = await supabase
+          .from('stock_events')
+          .select('id, imei, event_type, voided_event_id, metadata')
+          .in('event_type', ['laku', 'masuk', 'void'])
+          .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+          .lte('date', today);
+        if (error) throw error;
+
+        const voids = getVoidsByEventId(data);
+        const activeEvents = data.filter(e => e.event_type !== 'void' && !voids.has(e.id));
+        const sales = activeEvents.filter(e => e.event_type === 'laku');
+        const usedImeis = await fetchUsedImeis([...new Set(sales.map(e => e.imei))]);
+
+        const grouped: Record<UnitCondition, { sold: number; revenue: number; profit: number }> = {
+          new: { sold: 0, revenue: 0, profit: 0 },
+          used: { sold: 0, revenue: 0, profit: 0 },
+        };
+        sales.forEach(event => {
+          const metadata = event.metadata as { selling_price?: number; profit_loss?: number } | null;
+          const stats = grouped[usedImeis.has(event.imei) ? 'used' : 'new'];
+          stats.sold += 1;
+          stats.revenue += metadata?.selling_price || 0;
+          stats.profit += metadata?.profit_loss || 0;
+        });
+
+        const tradeInsReceived = activeEvents.filter(e =>
+          e.event_type === 'masuk' && (e.metadata as { condition?: string } | null)?.condition === 'used'
+        ).length;
+
+        return {
+          rows: (Object.keys(grouped) as UnitCondition[]).map(condition => ({ condition, ...grouped[condition] })),
+          tradeInsReceived,
+        };
+    }
+  });
+
+  // 8. Query for selling prices against the SRP in effect on each sale date
+  const { data: srpStats, isLoading: srpStatsLoading } = useQuery({
+    queryKey: ['srp-stats', selectedDate.toISOString()],
+    queryFn: async () => {
+        const thirtyDaysAgo = new Date(selectedDate);
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        const today = selectedDate.toISOString().split('T')[0];
+        const { data, error } = await supabase
+          .from('stock_events')
+          .select('id, date, qty, phone_model_id, event_type, voided_event_id, metadata, phone_models(brand, srp)')
+          .in('event_type', ['laku', 'void'])
+          .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
+          .lte('date', today);
+        if (error) throw error;
+
+        const voids = getVoidsByEventId(data);
+        const sales = data.filter(e => e.event_type === 'laku' && !voids.has(e.id));
+        const historyByModel = await fetchPriceHistory([...new Set(sales.map(e => e.phone_model_id))]);
+
+        const grouped: Record<string, { brand: string; sold: number; srpValue: number; revenue: number }> = {};
+        sales.forEach(event => {
+          const brand = event.phone_models?.brand || 'Unknown';
+          const stats = grouped[brand] || { brand, sold: 0, srpValue: 0, revenue: 0 };
+          const srp = getSrpOnDate(historyByModel.get(event.phone_model_id) || [], event.date, event.phone_models?.srp || 0);
+          stats.sold += event.qty || 1;
+          stats.srpValue += srp * (event.qty || 1);
+          stats.revenue += (event.metadata as { selling_price?: number } | null)?.selling_price || 0;
+          grouped[brand] = stats;
+        });
+
+        return Object.values(grouped)
+          .map(stats => ({
+            ...stats,
+            difference: stats.revenue - stats.srpValue,
+            share: stats.srpValue > 0 ? (stats.revenue / stats.srpValue) * 100 : 0
+          }))
+          .sort((a, b) => b.srpValue - a.srpValue);
+    }
+  });
+
   // --- RENDER ---
 
   const AnalyticsLoader = () => (
@@ -683,6 +863,174 @@ export function StockAnalytics({ selectedDate = new Date() }: StockAnalyticsProp
           </CardContent>
         </Card>
       </div>
+
+      <div>
+        <Card className="animate-fade-in overflow-hidden" style={{ animationDelay: '0.25s' }}>
+          <CardHeader>
+            <CardTitle>Pendapatan per Metode Pembayaran (Bulan Ini)</CardTitle>
+          </CardHeader>
+          <CardContent>
+             {paymentMethodStatsLoading ? <AnalyticsLoader /> : (
+               paymentMethodStats && paymentMethodStats.length > 0 ? (
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Metode</TableHead>
+                            <TableHead className="text-right">Transaksi</TableHead>
+                            <TableHead className="text-right">Pendapatan</TableHead>
+                            <TableHead className="text-right">Porsi</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {paymentMethodStats.map((method) => (
+                            <TableRow key={method.method} className="transition-all duration-200 hover:bg-accent/50">
+                                <TableCell className="font-medium">{method.label}</TableCell>
+                                <TableCell className="text-right">{method.transactions}</TableCell>
+                                <TableCell className="text-right font-bold text-primary">Rp {method.revenue.toLocaleString('id-ID')}</TableCell>
+                                <TableCell className="text-right">{method.share.toFixed(1)}%</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+               ) : (
+                <div className="flex items-center justify-center h-24">
+                  <p className="text-muted-foreground">Belum ada penjualan bulan ini</p>
+                </div>
+               )
+             )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <Card className="animate-fade-in overflow-hidden" style={{ animationDelay: '0.275s' }}>
+          <CardHeader>
+            <CardTitle>Baru vs Bekas (Bulan Ini)</CardTitle>
+          </CardHeader>
+          <CardContent>
+             {conditionStatsLoading ? <AnalyticsLoader /> : (
+               conditionStats && conditionStats.rows.some(row => row.sold > 0) ? (
+                <>
+                  <Table>
+                      <TableHeader>
+                          <TableRow>
+                              <TableHead>Kondisi</TableHead>
+                              <TableHead className="text-right">Unit Terjual</TableHead>
+                              <TableHead className="text-right">Omzet</TableHead>
+                              <TableHead className="text-right">Laba</TableHead>
+                          </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                          {conditionStats.rows.map((row) => (
+                              <TableRow key={row.condition} className="transition-all duration-200 hover:bg-accent/50">
+                                  <TableCell className="font-medium">{CONDITION_LABELS[row.condition]}</TableCell>
+                                  <TableCell className="text-right font-bold text-primary">{row.sold}</TableCell>
+                                  <TableCell className="text-right">Rp {row.revenue.toLocaleString('id-ID')}</TableCell>
+                                  <TableCell className={cn("text-right", row.profit >= 0 ? "text-success" : "text-destructive")}>
+                                    Rp {row.profit.toLocaleString('id-ID')}
+                                  </TableCell>
+                              </TableRow>
+                          ))}
+                      </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground mt-3">
+                    HP tukar tambah diterima: {conditionStats.tradeInsReceived}
+                  </p>
+                </>
+               ) : (
+                <div className="flex items-center justify-center h-24">
+                  <p className="text-muted-foreground">Belum ada penjualan bulan ini</p>
+                </div>
+               )
+             )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <Card className="animate-fade-in overflow-hidden" style={{ animationDelay: '0.29s' }}>
+          <CardHeader>
+            <CardTitle>Harga Jual vs SRP (Bulan Ini)</CardTitle>
+          </CardHeader>
+          <CardContent>
+             {srpStatsLoading ? <AnalyticsLoader /> : (
+               srpStats && srpStats.length > 0 ? (
+                <>
+                  <Table>
+                      <TableHeader>
+                          <TableRow>
+                              <TableHead>Merk</TableHead>
+                              <TableHead className="text-right">Unit</TableHead>
+                              <TableHead className="text-right">Nilai SRP</TableHead>
+                              <TableHead className="text-right">Omzet</TableHead>
+                              <TableHead className="text-right">Selisih</TableHead>
+                          </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                          {srpStats.map((row) => (
+                              <TableRow key={row.brand} className="transition-all duration-200 hover:bg-accent/50">
+                                  <TableCell className="font-medium">{row.brand}</TableCell>
+                                  <TableCell className="text-right">{row.sold}</TableCell>
+                                  <TableCell className="text-right">Rp {row.srpValue.toLocaleString('id-ID')}</TableCell>
+                                  <TableCell className="text-right font-bold text-primary">Rp {row.revenue.toLocaleString('id-ID')}</TableCell>
+                                  <TableCell className={cn("text-right", row.difference >= 0 ? "text-success" : "text-destructive")}>
+                                    {row.share.toFixed(1)}%
+                                  </TableCell>
+                              </TableRow>
+                          ))}
+                      </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground mt-3">
+                    SRP diambil sesuai harga yang berlaku pada tanggal penjualan
+                  </p>
+                </>
+               ) : (
+                <div className="flex items-center justify-center h-24">
+                  <p className="text-muted-foreground">Belum ada penjualan bulan ini</p>
+                </div>
+               )
+             )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <Card className="animate-fade-in overflow-hidden" style={{ animationDelay: '0.3s' }}>
+          <CardHeader>
+            <CardTitle>Kinerja Karyawan (Bulan Ini)</CardTitle>
+          </CardHeader>
+          <CardContent>
+             {employeeStatsLoading ? <AnalyticsLoader /> : (
+               employeeStats && employeeStats.length > 0 ? (
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Karyawan</TableHead>
+                            <TableHead className="text-right">Unit Terjual</TableHead>
+                            <TableHead className="text-right">Omzet</TableHead>
+                            <TableHead className="text-right">HP Diterima</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {employeeStats.map((employee) => (
+                            <TableRow key={employee.userId} className="transition-all duration-200 hover:bg-accent/50">
+                                <TableCell className="font-medium">{getUserName(employee.userId)}</TableCell>
+                                <TableCell className="text-right font-bold text-primary">{employee.sold}</TableCell>
+                                <TableCell className="text-right">Rp {employee.revenue.toLocaleString('id-ID')}</TableCell>
+                                <TableCell className="text-right">{employee.received}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+               ) : (
+                <div className="flex items-center justify-center h-24">
+                  <p className="text-muted-foreground">Belum ada transaksi tercatat per karyawan</p>
+                </div>
+               )
+             )}
+          </CardContent>
+        </Card>
+      </div>
       </div>
     </>
   );
@@ -8,15 +8,20 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { Plus, Truck, TrendingUp, AlertTriangle, Package, BarChart3, LogOut, Calendar as CalendarIcon, PackageOpen, ArrowLeftRight, Settings as SettingsIcon, Sun, Tag, Moon } from "lucide-react";
+import { Plus, Truck, TrendingUp, AlertTriangle, Package, BarChart3, LogOut, Calendar as CalendarIcon, PackageOpen, ArrowLeftRight, Settings as SettingsIcon, Sun, Tag, Moon, ScanLine } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { StockTable } from "./StockTable";
+import { AccessoryStockTable } from "./AccessoryStockTable";
 import { StockAnalytics } from "./StockAnalytics";
 import Settings from "@/pages/Settings";
 import { ThemeToggle } from "./ThemeToggle";
 import { MobileNavigation } from "./MobileNavigation";
 import { FabMenu } from "./FabMenu";
+import { ImeiLookupDialog } from "./ImeiLookupDialog";
+import { isAccessory } from "@/lib/accessories";
+import { parseBoxLabel } from "@/lib/imei";
+import { useBarcodeWedge } from "@/hooks/useBarcodeWedge";
 
 interface LocationData {
   morning_stock: number;
@@ -38,13 +43,28 @@ interface DashboardStats {
     toSoko: number;
     toMbutoh: number;
   };
+  // Accessories are counted in pieces, apart from handset units
+  accessories: {
+    morning_stock: number;
+    incoming: number;
+    sold: number;
+    night_stock: number;
+  };
 }
 
 export function StockDashboard() {
   const [activeTab, setActiveTab] = useState<'dashboard' | 'table' | 'analytics' | 'settings'>('dashboard');
   const [date, setDate] = useState<Date>(new Date());
+  const [isLookupOpen, setIsLookupOpen] = useState(false);
+  const [lookupQuery, setLookupQuery] = useState("");
   const { toast } = useToast();
 
+  // A handheld scanner looks the unit up from anywhere on the dashboard
+  useBarcodeWedge((code) => {
+    setLookupQuery(parseBoxLabel(code).imeis[0] ?? code);
+    setIsLookupOpen(true);
+  });
+
   // Fetch dashboard statistics with automatic rollover check
   const { data: stats, isLoading: statsLoading, refetch } = useQuery({
     queryKey: ['dashboard-stats', date],
@@ -62,16 +82,19 @@ export function StockDashboard() {
       
       const { data, error } = await supabase
         .from('stock_entries')
-        .select(`*, stock_locations(name)`)
+        .select(`*, stock_locations(name), phone_models(is_serialized)`)
         .eq('date', selectedDate);
       
       if (error) throw error;
 
-      // Calculate totals from all entries (both aggregated and individual IMEI entries)
+      const accessoryEntries = data.filter(entry => isAccessory(entry.phone_models));
+      const handsetEntries = data.filter(entry => !isAccessory(entry.phone_models));
+
+      // Calculate totals from all handset entries (both aggregated and individual IMEI entries)
       // First try to use aggregated entries (imei = null), otherwise sum all entries
-      const aggregatedEntries = data.filter(entry => entry.imei === null);
+      const aggregatedEntries = handsetEntries.filter(entry => entry.imei === null);
       const useAggregated = aggregatedEntries.length > 0;
-      const entriesToSum = useAggregated ? aggregatedEntries : data;
+      const entriesToSum = useAggregated ? aggregatedEntries : handsetEntries;
       
       const totalMorningStock = entriesToSum.reduce((sum, entry) => sum + entry.morning_stock, 0);
       const totalNightStock = entriesToSum.reduce((sum, entry) => sum + entry.night_stock, 0);
@@ -83,7 +106,7 @@ export function StockDashboard() {
       let toSoko = 0;
       let toMbutoh = 0;
 
-      for (const entry of data) {
+      for (const entry of handsetEntries) {
         const loc = entry.stock_locations?.name || 'Unknown';
         if (!breakdown[loc]) {
           breakdown[loc] = { morning_stock: 0, night_stock: 0, sold: 0 };
@@ -110,7 +133,13 @@ export function StockDashboard() {
         totalTransfers,
         totalFinalStock: totalFinalStock,
         breakdown: breakdown,
-        transferBreakdown: { toSoko, toMbutoh }
+        transferBreakdown: { toSoko, toMbutoh },
+        accessories: {
+          morning_stock: accessoryEntries.reduce((sum, entry) => sum + entry.morning_stock, 0),
+          incoming: accessoryEntries.reduce((sum, entry) => sum + entry.incoming, 0),
+          sold: accessoryEntries.reduce((sum, entry) => sum + entry.sold, 0),
+          night_stock: accessoryEntries.reduce((sum, entry) => sum + entry.night_stock, 0),
+        }
       };
     }
   });
@@ -142,6 +171,9 @@ export function StockDashboard() {
               </p>
             </div>
             <div className="flex items-center gap-2 sm:gap-4">
+              <Button variant="outline" size="icon" onClick={() => setIsLookupOpen(true)}>
+                <ScanLine className="w-4 h-4" />
+              </Button>
               <Popover>
                 <PopoverTrigger asChild>
                   <Button
@@ -288,6 +320,20 @@ export function StockDashboard() {
                     <div className="text-3xl font-bold">{stats?.totalFinalStock ?? 0}</div>
                   </CardContent>
                 </Card>
+
+                {/* Aksesoris */}
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-base font-medium">Aksesoris</CardTitle>
+                    <PackageOpen className="w-5 h-5 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold">{stats?.accessories.night_stock ?? 0} pcs</div>
+                    <p className="text-xs text-muted-foreground">
+                      Pagi: {stats?.accessories.morning_stock ?? 0} | Datang: {stats?.accessories.incoming ?? 0} | Laku: {stats?.accessories.sold ?? 0}
+                    </p>
+                  </CardContent>
+                </Card>
               </div>
 
             </div>
@@ -295,7 +341,10 @@ export function StockDashboard() {
 
           {/* Stock Table View */}
           {activeTab === 'table' && (
-            <StockTable selectedDate={date} />
+            <div className="space-y-6">
+              <StockTable selectedDate={date} />
+              <AccessoryStockTable selectedDate={date} />
+            </div>
           )}
 
 
@@ -316,6 +365,16 @@ export function StockDashboard() {
 
       {/* FAB Menu */}
       <FabMenu />
+
+      {/* Global IMEI Lookup */}
+      <ImeiLookupDialog
+        open={isLookupOpen}
+        onOpenChange={(open) => {
+          setIsLookupOpen(open);
+          if (!open) setLookupQuery("");
+        }}
+        initialQuery={lookupQuery}
+      />
     </div>
   );
 }
\ No newline at end of file
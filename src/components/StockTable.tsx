@@ -1,10 +1,13 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,13 +26,24 @@ import {
   TableHeader, 
   TableRow 
 } from "@/components/ui/table";
-import { Search, Filter, Edit, Eye, ArrowRightLeft, Trash2, CheckCircle } from "lucide-react";
+import { Search, Filter, Edit, Eye, ArrowRightLeft, Ban, CheckCircle, Undo2, Printer } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { EditStockDialog } from "./EditStockDialog";
 import { EditStockInline } from "./EditStockInline";
 import { TransferStockDialog } from "./TransferStockDialog";
 import { SaleConfirmationDialog } from "./SaleConfirmationDialog";
+import { ReceiptDialog } from "./ReceiptDialog";
+import { ReturnStockDialog } from "./ReturnStockDialog";
+import { PrintLabelsDialog } from "./PrintLabelsDialog";
+import { useMarkAsSold, SaleData } from "@/hooks/useMarkAsSold";
+import { useProfiles } from "@/hooks/useProfiles";
+import { usePermissions } from "@/hooks/usePermissions";
+import { CONDITION_LABELS, UnitCondition, fetchUsedImeis } from "@/lib/tradeIn";
+import { EVENT_TYPE_LABELS, getVoidsByEventId, sortEventsChronologically } from "@/lib/stockEvents";
+import { getPromoScope } from "@/lib/promotions";
+import { fetchUnitIdentifiers } from "@/lib/unitIdentifiers";
+import type { LabelData } from "@/lib/labels";
 import { cn } from "@/lib/utils";
 
 interface StockTableProps {
@@ -64,6 +78,15 @@ export interface StockEntry {
     color: string | null;
     srp: number;
   };
+  voided?: {
+    reason: string;
+    voided_by: string | null;
+    voided_at: string;
+  } | null;
+  handled_by?: string | null;
+  condition?: UnitCondition;
+  imei2?: string | null;
+  serial_number?: string | null;
 }
 
 export function StockTable({ selectedDate }: StockTableProps) {
@@ -80,14 +103,24 @@ export function StockTable({ selectedDate }: StockTableProps) {
   const [statusFilter, setStatusFilter] = useState(() => {
     return localStorage.getItem('stockTableStatusFilter') || "all";
   });
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [conditionFilter, setConditionFilter] = useState(() => {
+    return localStorage.getItem('stockTableConditionFilter') || "all";
+  });
+  const [isVoidDialogOpen, setIsVoidDialogOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
   const [isSaleConfirmDialogOpen, setIsSaleConfirmDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+  const [isReturnDialogOpen, setIsReturnDialogOpen] = useState(false);
+  const [receiptEventId, setReceiptEventId] = useState<number | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<StockEntry | null>(null);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isPrintLabelsOpen, setIsPrintLabelsOpen] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { getUserName } = useProfiles();
+  const { can } = usePermissions();
 
   // Save search term to localStorage when it changes
   const handleSearchChange = (value: string) => {
@@ -113,11 +146,18 @@ export function StockTable({ selectedDate }: StockTableProps) {
     localStorage.setItem('stockTableStatusFilter', value);
   };
 
-  const { data: stockEntries, isLoading } = useQuery({
-    queryKey: ['stock-entries', searchTerm, brandFilter, locationFilter, statusFilter, selectedDate],
-    queryFn: async (): Promise<StockEntry[]> => {
-      const date = format(selectedDate, "yyyy-MM-dd");
+  // Save condition filter to localStorage when it changes
+  const handleConditionFilterChange = (value: string) => {
+    setConditionFilter(value);
+    localStorage.setItem('stockTableConditionFilter', value);
+  };
 
+  const date = format(selectedDate, "yyyy-MM-dd");
+
+  // The whole day is loaded once per date; the filters below only narrow it down
+  const { data: dayEntries, isLoading } = useQuery({
+    queryKey: ['stock-entries', 'day', date],
+    queryFn: async (): Promise<StockEntry[]> => {
       const { data, error } = await supabase
         .from('stock_entries')
         .select(`
@@ -130,47 +170,68 @@ export function StockTable({ selectedDate }: StockTableProps) {
       
       if (error) throw error;
 
-      let filtered = data || [];
-
       // Only show entries with IMEI (individual items)
       // This ensures each row represents a unique phone
-      filtered = filtered.filter(entry => entry.imei && entry.imei.trim() !== '');
-
-      // Apply search filter
-      if (searchTerm) {
-        filtered = filtered.filter(entry => 
-          entry.phone_models?.brand?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          entry.phone_models?.model?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          entry.imei?.includes(searchTerm) ||
-          entry.phone_models?.color?.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      }
+      const entries = (data || []).filter(entry => entry.imei && entry.imei.trim() !== '');
+      const imeis = [...new Set(entries.map(entry => entry.imei))];
 
-      // Apply brand filter
-      if (brandFilter !== 'all') {
-        filtered = filtered.filter(entry => 
-          entry.phone_models?.brand === brandFilter
-        );
-      }
-
-      // Apply location filter
-      if (locationFilter !== 'all') {
-        filtered = filtered.filter(entry => 
-          entry.stock_locations?.name === locationFilter
-        );
-      }
+      // IMEI 2 and serial number, so a search by either number finds the unit
+      const identifiers = await fetchUnitIdentifiers(imeis);
 
-      // Apply status filter
-      if (statusFilter === 'tersedia') {
-        filtered = filtered.filter(entry => entry.night_stock > 0);
-      } else if (statusFilter === 'terjual') {
-        filtered = filtered.filter(entry => entry.sold > 0);
-      }
+      // Units taken in through trade-in are marked used on their incoming event
+      const usedImeis = await fetchUsedImeis(imeis);
 
-      return filtered;
+      // Attach who handled each row and void information so cancelled rows can be shown struck through
+      const { data: dayEvents, error: eventsError } = await supabase
+        .from('stock_events')
+        .select('id, date, imei, location_id, event_type, voided_event_id, metadata, created_by, created_at')
+        .eq('date', date);
+
+      if (eventsError) throw eventsError;
+
+      const voids = getVoidsByEventId(dayEvents || []);
+      const activeEvents = sortEventsChronologically(
+        (dayEvents || []).filter(e => e.event_type !== 'void' && !voids.has(e.id))
+      );
+
+      return entries.map(entry => {
+        const isRowEvent = (e: { imei: string; location_id: string }) =>
+          e.imei === entry.imei && e.location_id === entry.stock_locations?.id;
+        const voidEvent = dayEvents?.find(e => e.event_type === 'void' && isRowEvent(e));
+        const lastEvent = activeEvents.filter(isRowEvent).pop();
+        const reason = (voidEvent?.metadata as { reason?: string } | null)?.reason;
+        return {
+          ...entry,
+          handled_by: lastEvent?.created_by ?? null,
+          imei2: identifiers.get(entry.imei)?.imei2 ?? null,
+          serial_number: identifiers.get(entry.imei)?.serial_number ?? null,
+          condition: usedImeis.has(entry.imei) ? 'used' as const : 'new' as const,
+          voided: voidEvent ? {
+            reason: reason || '-',
+            voided_by: voidEvent.created_by,
+            voided_at: voidEvent.created_at,
+          } : null
+        };
+      });
     }
   });
 
+  const term = searchTerm.trim().toLowerCase();
+  const stockEntries = dayEntries?.filter(entry =>
+    (!term ||
+      entry.phone_models?.brand?.toLowerCase().includes(term) ||
+      entry.phone_models?.model?.toLowerCase().includes(term) ||
+      entry.imei?.includes(term) ||
+      entry.imei2?.includes(term) ||
+      entry.serial_number?.toLowerCase().includes(term) ||
+      entry.phone_models?.color?.toLowerCase().includes(term)) &&
+    (brandFilter === 'all' || entry.phone_models?.brand === brandFilter) &&
+    (locationFilter === 'all' || entry.stock_locations?.name === locationFilter) &&
+    (statusFilter !== 'tersedia' || entry.night_stock > 0) &&
+    (statusFilter !== 'terjual' || entry.sold > 0) &&
+    (conditionFilter === 'all' || entry.condition === conditionFilter)
+  );
+
   const { data: brands } = useQuery({
     queryKey: ['phone-brands'],
     queryFn: async () => {
@@ -201,141 +262,88 @@ export function StockTable({ selectedDate }: StockTableProps) {
   });
 
   const getStockStatus = (entry: StockEntry) => {
+    if (entry.night_stock > 0 && entry.returns > 0) return { label: "Retur", variant: "warning" as const };
     if (entry.sold > 0) return { label: "Terjual", variant: "destructive" as const };
+    if (entry.night_stock <= 0) return { label: "Keluar", variant: "outline" as const };
     return { label: "Tersedia", variant: "success" as const };
   };
 
-  const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      // Get the stock entry details first
-      const { data: stockEntry, error: fetchError } = await supabase
-        .from('stock_entries')
-        .select('imei, date, location_id, phone_model_id')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) throw new Error(`Gagal mengambil data stok: ${fetchError.message}`);
-      if (!stockEntry) throw new Error('Data stok tidak ditemukan');
+  const voidMutation = useMutation({
+    mutationFn: async ({ entry, reason }: { entry: StockEntry; reason: string }) => {
+      if (!reason.trim()) throw new Error('Alasan pembatalan wajib diisi');
 
-      // Delete from stock_events first (event-sourcing source of truth)
-      const { error: eventError } = await supabase
+      // All events of this IMEI on that day, including the other side of transfers
+      const { data: events, error: eventsError } = await supabase
         .from('stock_events')
-        .delete()
-        .eq('imei', stockEntry.imei)
-        .eq('date', stockEntry.date)
-        .eq('location_id', stockEntry.location_id)
-        .eq('phone_model_id', stockEntry.phone_model_id);
-
-      if (eventError) throw new Error(`Gagal menghapus event: ${eventError.message}`);
+        .select('*')
+        .eq('imei', entry.imei)
+        .eq('date', entry.date);
+
+      if (eventsError) throw new Error(`Gagal mengambil event: ${eventsError.message}`);
+
+      const voids = getVoidsByEventId(events || []);
+      const activeEvents = (events || []).filter(e => e.event_type !== 'void' && !voids.has(e.id));
+      const rowEvents = activeEvents.filter(e =>
+        e.location_id === entry.stock_locations.id && e.phone_model_id === entry.phone_models.id
+      );
+
+      if (rowEvents.length === 0) throw new Error('Tidak ada transaksi yang bisa dibatalkan');
+
+      // A transfer is only cancelled as a pair, otherwise the unit would be duplicated or lost
+      const toVoid = [...rowEvents];
+      for (const event of rowEvents) {
+        if (event.event_type !== 'transfer_out' && event.event_type !== 'transfer_in') continue;
+        const metadata = (event.metadata || {}) as { destination_location_id?: string; source_location_id?: string };
+        const counterpart = activeEvents.find(e =>
+          !toVoid.includes(e) && (
+            (event.event_type === 'transfer_out' && e.event_type === 'transfer_in' && e.location_id === metadata.destination_location_id) ||
+            (event.event_type === 'transfer_in' && e.event_type === 'transfer_out' && e.location_id === metadata.source_location_id)
+          )
+        );
+        if (counterpart) toVoid.push(counterpart);
+      }
 
-      // Delete from stock_entries
-      const { error: entryError } = await supabase
-        .from('stock_entries')
-        .delete()
-        .eq('id', id);
-
-      if (entryError) throw new Error(`Gagal menghapus entri stok: ${entryError.message}`);
-
-      // Cascade recalculation to update morning_stock and night_stock for future dates
-      const { error: recalcError } = await supabase.rpc('cascade_recalc_stock_with_imei', {
-        p_from_date: stockEntry.date,
-        p_to_date: format(new Date(), 'yyyy-MM-dd'),
-        p_location_id: stockEntry.location_id,
-        p_phone_model_id: stockEntry.phone_model_id,
-        p_imei: stockEntry.imei
+      // Voids and the reset of a cancelled sale's price are written in one transaction,
+      // which refuses while the unit has later events
+      const { error: voidError } = await supabase.rpc('void_stock_events', {
+        p_voids: toVoid.map(event => ({
+          event_id: event.id,
+          notes: `Pembatalan ${EVENT_TYPE_LABELS[event.event_type] || event.event_type}: ${reason.trim()}`
+        })),
+        p_reason: reason.trim()
       });
 
-      if (recalcError) {
-        console.warn('Warning: Recalculation failed but delete succeeded:', recalcError);
-      }
+      if (voidError) throw new Error(voidError.message);
+
+      // Cascade recalculation happens automatically via database trigger
     },
     onSuccess: () => {
-      toast({ title: "Sukses", description: "Entri stok telah berhasil dihapus." });
+      toast({ title: "Sukses", description: "Transaksi telah dibatalkan." });
       queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
     },
     onError: (error) => {
-      toast({ title: "Error", description: `Gagal menghapus entri: ${error.message}`, variant: "destructive" });
+      toast({ title: "Error", description: `Gagal membatalkan transaksi: ${error.message}`, variant: "destructive" });
     },
     onSettled: () => {
-      setIsDeleteDialogOpen(false);
+      setIsVoidDialogOpen(false);
+      setVoidReason("");
       setSelectedEntry(null);
     }
   });
 
-  const markAsSoldMutation = useMutation({
-    mutationFn: async ({ entry, saleData }: { 
-      entry: StockEntry; 
-      saleData: { price: number; date: Date; srp: number; costPrice: number } 
-    }) => {
-      // Use cost_price if available, otherwise use SRP for profit/loss calculation
-      const costBasis = saleData.costPrice > 0 ? saleData.costPrice : saleData.srp;
-      const profitLoss = saleData.price - costBasis;
-      
-      // 1. Write to stock_events (event-sourcing primary source)
-      const { error: eventError } = await supabase
-        .from('stock_events')
-        .insert({
-          date: format(saleData.date, 'yyyy-MM-dd'),
-          imei: entry.imei || '',
-          location_id: entry.stock_locations.id,
-          phone_model_id: entry.phone_models.id,
-          event_type: 'laku',
-          qty: 1,
-          notes: `Terjual - Harga: Rp ${saleData.price.toLocaleString('id-ID')}`,
-          metadata: {
-            selling_price: saleData.price,
-            srp: saleData.srp,
-            cost_price: costBasis,
-            profit_loss: profitLoss
-          }
-        });
-      
-      if (eventError) throw new Error(`Gagal menyimpan event: ${eventError.message}`);
-
-      // 2. Update stock_entries with selling price and profit/loss data
-      const { error: updateError } = await supabase
-        .from('stock_entries')
-        .update({
-          selling_price: saleData.price,
-          sale_date: format(saleData.date, 'yyyy-MM-dd'),
-          profit_loss: profitLoss,
-          cost_price: costBasis
-        })
-        .eq('id', entry.id);
-
-      if (updateError) throw new Error(`Gagal update data penjualan: ${updateError.message}`);
-
-      // 3. Cascade recalculation happens automatically via database trigger
-      // stock_entries will be updated automatically
-    },
-    onSuccess: (_, { saleData }) => {
-      const costBasis = saleData.costPrice > 0 ? saleData.costPrice : saleData.srp;
-      const profitLoss = saleData.price - costBasis;
-      const message = profitLoss >= 0 
-        ? `Stok terjual! Laba: Rp ${profitLoss.toLocaleString('id-ID')}` 
-        : `Stok terjual. Rugi: Rp ${Math.abs(profitLoss).toLocaleString('id-ID')}`;
-      
-      toast({ 
-        title: "Sukses", 
-        description: message,
-        variant: profitLoss >= 0 ? "default" : "destructive"
-      });
-      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
-      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-    },
-    onError: (error) => {
-      toast({ title: "Error", description: `Gagal menandai sebagai terjual: ${error.message}`, variant: "destructive" });
-    },
+  const markAsSoldMutation = useMarkAsSold({
+    onSold: setReceiptEventId,
     onSettled: () => {
       setIsSaleConfirmDialogOpen(false);
       setSelectedEntry(null);
     }
   });
 
-  const handleDeleteClick = (entry: StockEntry) => {
+  const handleVoidClick = (entry: StockEntry) => {
     setSelectedEntry(entry);
-    setIsDeleteDialogOpen(true);
+    setIsVoidDialogOpen(true);
   };
 
   const handleMarkAsSoldClick = (entry: StockEntry) => {
@@ -343,7 +351,7 @@ export function StockTable({ selectedDate }: StockTableProps) {
     setIsSaleConfirmDialogOpen(true);
   };
 
-  const handleSaleConfirm = (saleData: { price: number; date: Date; srp: number; costPrice: number }) => {
+  const handleSaleConfirm = (saleData: SaleData) => {
     if (selectedEntry) {
       markAsSoldMutation.mutate({ entry: selectedEntry, saleData });
     }
@@ -359,6 +367,33 @@ export function StockTable({ selectedDate }: StockTableProps) {
     setIsTransferDialogOpen(true);
   };
 
+  const handleReturnClick = (entry: StockEntry) => {
+    setSelectedEntry(entry);
+    setIsReturnDialogOpen(true);
+  };
+
+  const toggleSelected = (entryId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(entryId);
+      else next.delete(entryId);
+      return next;
+    });
+  };
+
+  const allSelected = !!stockEntries?.length && stockEntries.every(entry => selectedIds.has(entry.id));
+
+  const labels: LabelData[] = (stockEntries || [])
+    .filter(entry => selectedIds.has(entry.id) && entry.imei)
+    .map(entry => ({
+      imei: entry.imei,
+      brand: entry.phone_models?.brand || '',
+      model: entry.phone_models?.model || '',
+      storage: entry.phone_models?.storage_capacity || null,
+      srp: entry.phone_models?.srp || 0,
+      locationName: entry.stock_locations?.name || null,
+    }));
+
   return (
     <>
       <Card className="border-border/50 bg-card/50 backdrop-blur">
@@ -366,6 +401,16 @@ export function StockTable({ selectedDate }: StockTableProps) {
           <CardTitle className="flex items-center gap-2">
             <Eye className="w-5 h-5" />
             Inventori Stok
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => setIsPrintLabelsOpen(true)}
+              disabled={labels.length === 0}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Cetak Label{labels.length > 0 ? ` (${labels.length})` : ''}
+            </Button>
           </CardTitle>
 
           {/* Filters */}
@@ -412,6 +457,15 @@ export function StockTable({ selectedDate }: StockTableProps) {
               <option value="tersedia">Tersedia</option>
               <option value="terjual">Terjual</option>
             </select>
+            <select
+              value={conditionFilter}
+              onChange={(e) => handleConditionFilterChange(e.target.value)}
+              className="bg-background border border-border rounded-lg px-3 py-2 text-sm min-w-32"
+            >
+              <option value="all">Semua Kondisi</option>
+              <option value="new">{CONDITION_LABELS.new}</option>
+              <option value="used">{CONDITION_LABELS.used}</option>
+            </select>
           </div>
         </CardHeader>
 
@@ -429,6 +483,15 @@ export function StockTable({ selectedDate }: StockTableProps) {
               <Table>
                 <TableHeader>
                   <TableRow className="bg-muted/30">
+                     <TableHead className="w-10">
+                       <Checkbox
+                         checked={allSelected}
+                         onCheckedChange={(checked) =>
+                           setSelectedIds(checked ? new Set(stockEntries?.map(entry => entry.id)) : new Set())
+                         }
+                         aria-label="Pilih semua"
+                       />
+                     </TableHead>
                      <TableHead className="min-w-[100px]">Tanggal</TableHead>
                      <TableHead className="min-w-[80px]">Lokasi</TableHead>
                      <TableHead className="min-w-[150px]">Tipe</TableHead>
@@ -437,7 +500,7 @@ export function StockTable({ selectedDate }: StockTableProps) {
                      <TableHead className="min-w-[60px]">Akhir</TableHead>
                      <TableHead className="min-w-[100px]">Harga Jual</TableHead>
                      <TableHead className="min-w-[80px]">Status</TableHead>
-                     <TableHead className="min-w-[140px]">Aksi</TableHead>
+                     <TableHead className="min-w-[180px]">Aksi</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -448,7 +511,7 @@ export function StockTable({ selectedDate }: StockTableProps) {
                     if (isEditing) {
                       return (
                         <TableRow key={entry.id} className="hover:bg-muted/20 transition-colors">
-                          <TableCell colSpan={9} className="p-0">
+                          <TableCell colSpan={10} className="p-0">
                             <EditStockInline
                               stockEntry={entry}
                               onCancel={() => setEditingEntryId(null)}
@@ -458,8 +521,22 @@ export function StockTable({ selectedDate }: StockTableProps) {
                       );
                     }
                     
+                    // Fully voided rows have no remaining movement for the day
+                    const isVoided = !!entry.voided &&
+                      entry.incoming === 0 && entry.sold === 0 && entry.returns === 0 && entry.adjustment === 0;
+
                     return (
-                      <TableRow key={entry.id} className="hover:bg-muted/20 transition-colors">
+                      <TableRow key={entry.id} className={cn(
+                        "hover:bg-muted/20 transition-colors",
+                        isVoided && "opacity-60"
+                      )}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(entry.id)}
+                            onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+                            aria-label={`Pilih ${entry.imei}`}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium">
                           {new Date(entry.date).toLocaleDateString('id-ID')}
                         </TableCell>
@@ -472,14 +549,34 @@ export function StockTable({ selectedDate }: StockTableProps) {
                           <div className="space-y-1">
                             <div className="font-medium text-sm">
                               {entry.phone_models?.brand} {entry.phone_models?.model}
+                              {entry.condition === 'used' && (
+                                <Badge variant="secondary" className="ml-2 text-[10px]">
+                                  {CONDITION_LABELS.used}
+                                </Badge>
+                              )}
                             </div>
                             <div className="text-xs text-muted-foreground">
                               {entry.phone_models?.storage_capacity} • {entry.phone_models?.color}
                             </div>
                           </div>
                         </TableCell>
-                         <TableCell className="font-mono text-xs">
-                           {entry.imei || "—"}
+                         <TableCell className={cn("font-mono text-xs", isVoided && "line-through")}>
+                           {entry.imei ? (
+                             <Link to={`/imei/${entry.imei}`} className="text-primary hover:underline">
+                               {entry.imei}
+                             </Link>
+                           ) : "—"}
+                           {entry.imei2 && (
+                             <div className="text-muted-foreground">{entry.imei2}</div>
+                           )}
+                           {entry.serial_number && (
+                             <div className="text-[10px] text-muted-foreground">S/N {entry.serial_number}</div>
+                           )}
+                           {entry.handled_by && (
+                             <div className="text-[10px] text-muted-foreground mt-1 font-sans">
+                               oleh {getUserName(entry.handled_by)}
+                             </div>
+                           )}
                          </TableCell>
                          <TableCell className="text-center">
                            <Badge variant="secondary" className="text-xs">
@@ -512,23 +609,41 @@ export function StockTable({ selectedDate }: StockTableProps) {
                             )}
                          </TableCell>
                          <TableCell>
-                           <Badge variant={status.variant} className="text-xs">
-                             {status.label}
+                           <Badge variant={isVoided ? "outline" : status.variant} className="text-xs">
+                             {isVoided ? "Dibatalkan" : status.label}
                            </Badge>
+                           {entry.voided && (
+                             <div className="text-[10px] text-muted-foreground mt-1">
+                               {getUserName(entry.voided.voided_by) || 'Dibatalkan'}: {entry.voided.reason}
+                             </div>
+                           )}
                          </TableCell>
                         <TableCell className="flex items-center gap-1">
-                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleMarkAsSoldClick(entry)} disabled={entry.night_stock === 0}>
-                            <CheckCircle className="h-4 w-4 text-green-500" />
-                          </Button>
-                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleTransferClick(entry)} disabled={entry.night_stock === 0}>
-                            <ArrowRightLeft className="h-4 w-4 text-blue-500" />
-                          </Button>
-                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingEntryId(entry.id)}>
-                            <Edit className="h-4 w-4 text-yellow-500" />
-                          </Button>
-                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDeleteClick(entry)}>
-                            <Trash2 className="h-4 w-4 text-red-500" />
-                          </Button>
+                          {can('stock.sell') && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleMarkAsSoldClick(entry)} disabled={entry.night_stock === 0}>
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            </Button>
+                          )}
+                          {can('stock.transfer') && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleTransferClick(entry)} disabled={entry.night_stock === 0}>
+                              <ArrowRightLeft className="h-4 w-4 text-blue-500" />
+                            </Button>
+                          )}
+                          {can('stock.return') && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleReturnClick(entry)} disabled={entry.night_stock === 0 && entry.sold === 0}>
+                              <Undo2 className="h-4 w-4 text-orange-500" />
+                            </Button>
+                          )}
+                          {can('stock.edit') && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingEntryId(entry.id)}>
+                              <Edit className="h-4 w-4 text-yellow-500" />
+                            </Button>
+                          )}
+                          {can('stock.void') && (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleVoidClick(entry)} disabled={isVoided}>
+                              <Ban className="h-4 w-4 text-red-500" />
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -546,18 +661,27 @@ export function StockTable({ selectedDate }: StockTableProps) {
         </CardContent>
       </Card>
 
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+      <AlertDialog open={isVoidDialogOpen} onOpenChange={(open) => { setIsVoidDialogOpen(open); if (!open) setVoidReason(""); }}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Anda yakin?</AlertDialogTitle>
+            <AlertDialogTitle>Batalkan transaksi?</AlertDialogTitle>
             <AlertDialogDescription>
-              Tindakan ini tidak bisa dibatalkan. Ini akan menghapus entri stok secara permanen dari server.
+              Semua transaksi IMEI ini pada tanggal tersebut akan dibatalkan. Data asli tetap tersimpan di riwayat.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <Textarea
+            placeholder="Alasan pembatalan (wajib)"
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+            rows={2}
+          />
           <AlertDialogFooter>
             <AlertDialogCancel>Batal</AlertDialogCancel>
-            <AlertDialogAction onClick={() => selectedEntry && deleteMutation.mutate(selectedEntry.id)}>
-              Hapus
+            <AlertDialogAction
+              disabled={!voidReason.trim() || voidMutation.isPending}
+              onClick={() => selectedEntry && voidMutation.mutate({ entry: selectedEntry, reason: voidReason })}
+            >
+              Batalkan Transaksi
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -571,6 +695,13 @@ export function StockTable({ selectedDate }: StockTableProps) {
         itemName={selectedEntry ? `${selectedEntry.phone_models?.brand} ${selectedEntry.phone_models?.model}` : ''}
         srp={selectedEntry?.phone_models?.srp || 0}
         costPrice={selectedEntry?.cost_price || 0}
+        promoScope={getPromoScope(selectedEntry)}
+      />
+
+      <ReceiptDialog
+        open={receiptEventId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceiptEventId(null)}
+        saleEventId={receiptEventId}
       />
 
       <EditStockDialog
@@ -584,6 +715,19 @@ export function StockTable({ selectedDate }: StockTableProps) {
         onOpenChange={setIsTransferDialogOpen}
         stockEntry={selectedEntry}
       />
+
+      <ReturnStockDialog
+        open={isReturnDialogOpen}
+        onOpenChange={setIsReturnDialogOpen}
+        stockEntry={selectedEntry}
+        defaultType={selectedEntry && selectedEntry.night_stock > 0 ? 'retur_out' : 'retur_in'}
+      />
+
+      <PrintLabelsDialog
+        open={isPrintLabelsOpen}
+        onOpenChange={setIsPrintLabelsOpen}
+        labels={labels}
+      />
     </>
   );
 }
\ No newline at end of file
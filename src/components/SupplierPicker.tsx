@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { SupplierInput } from "@/lib/suppliers";
+
+interface SupplierPickerProps {
+  value: SupplierInput | null;
+  onChange: (supplier: SupplierInput | null) => void;
+}
+
+const NO_SUPPLIER = "none";
+
+export function SupplierPicker({ value, onChange }: SupplierPickerProps) {
+  const [isCreating, setIsCreating] = useState(!!value && !value.id);
+  const [name, setName] = useState(value && !value.id ? value.name : "");
+  const [phone, setPhone] = useState(value && !value.id ? value.phone || "" : "");
+
+  const { data: suppliers } = useQuery({
+    queryKey: ['suppliers', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, name, phone')
+        .order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  if (isCreating) {
+    return (
+      <div className="space-y-3 rounded-lg border border-border p-3">
+        <div className="flex items-center justify-between">
+          <Label>Supplier Baru</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsCreating(false);
+              setName("");
+              setPhone("");
+              onChange(null);
+            }}
+          >
+            Batal
+          </Button>
+        </div>
+        <Input
+          placeholder="Nama supplier / distributor"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            onChange(e.target.value.trim() ? { name: e.target.value, phone: phone || null } : null);
+          }}
+        />
+        <Input
+          placeholder="No. HP (opsional)"
+          inputMode="tel"
+          value={phone}
+          onChange={(e) => {
+            setPhone(e.target.value);
+            if (name.trim()) onChange({ name, phone: e.target.value || null });
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Supplier</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value?.id || NO_SUPPLIER}
+          onValueChange={(supplierId) => {
+            const supplier = suppliers?.find(s => s.id === supplierId);
+            onChange(supplier ? { id: supplier.id, name: supplier.name, phone: supplier.phone } : null);
+          }}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Pilih supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SUPPLIER}>Tanpa supplier</SelectItem>
+            {suppliers?.map(supplier => (
+              <SelectItem key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => {
+            setIsCreating(true);
+            onChange(null);
+          }}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import type { TradeInData } from "@/lib/tradeIn";
+import { ImeiHint } from "@/components/ImeiHint";
+import { useKnownTacs } from "@/hooks/useKnownTacs";
+
+interface TradeInInputProps {
+  price: number;
+  value: TradeInData | null;
+  onChange: (tradeIn: TradeInData | null) => void;
+}
+
+export function TradeInInput({ price, value, onChange }: TradeInInputProps) {
+  const [enabled, setEnabled] = useState(!!value);
+  const [brand, setBrand] = useState("");
+  const [phoneModelId, setPhoneModelId] = useState(value?.phoneModelId || "");
+  const [imei, setImei] = useState(value?.imei || "");
+  const [tradeInValue, setTradeInValue] = useState(value ? value.value.toLocaleString('id-ID') : "");
+  const [notes, setNotes] = useState(value?.notes || "");
+
+  const { data: brands } = useQuery({
+    queryKey: ['brands'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('brand')
+        .is('archived_at', null)
+        .order('brand');
+      if (error) throw error;
+      return [...new Set(data.map(item => item.brand))];
+    },
+    enabled
+  });
+
+  const { data: phoneModels } = useQuery({
+    queryKey: ['phone-models', brand],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('*')
+        .is('archived_at', null)
+        .eq('brand', brand)
+        .order('model');
+      if (error) throw error;
+      return data;
+    },
+    enabled: enabled && !!brand
+  });
+
+  const { data: knownTacs } = useKnownTacs(phoneModelId, { enabled });
+
+  const parsedValue = parseInt(tradeInValue.replace(/\D/g, '')) || 0;
+  const cleanImei = imei.replace(/\D/g, '');
+
+  useEffect(() => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    onChange({ imei: cleanImei, phoneModelId, value: parsedValue, notes: notes.trim() || null });
+  }, [enabled, cleanImei, phoneModelId, parsedValue, notes, onChange]);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="trade-in-toggle">Tukar Tambah</Label>
+        <Switch id="trade-in-toggle" checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={brand}
+              onValueChange={(b) => {
+                setBrand(b);
+                setPhoneModelId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Merk HP lama" />
+              </SelectTrigger>
+              <SelectContent>
+                {brands?.map((b) => (
+                  <SelectItem key={b} value={b}>{b}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={phoneModelId} onValueChange={setPhoneModelId} disabled={!brand}>
+              <SelectTrigger>
+                <SelectValue placeholder="Model" />
+              </SelectTrigger>
+              <SelectContent>
+                {phoneModels?.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.model} {model.storage_capacity && `- ${model.storage_capacity}`} {model.color && `(${model.color})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Input
+            placeholder="IMEI HP lama (15 digit)"
+            inputMode="numeric"
+            maxLength={15}
+            value={imei}
+            onChange={(e) => setImei(e.target.value.replace(/\D/g, ''))}
+            className="font-mono"
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="trade-in-value">Nilai Tukar Tambah (Rp)</Label>
+            <Input
+              id="trade-in-value"
+              inputMode="numeric"
+              value={tradeInValue}
+              onChange={(e) => {
+                const digits = e.target.value.replace(/\D/g, '');
+                setTradeInValue(digits ? parseInt(digits).toLocaleString('id-ID') : '');
+              }}
+            />
+          </div>
+
+          <Textarea
+            placeholder="Kondisi HP lama (opsional), misal: lecet pemakaian, baterai 85%"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+          />
+
+          <ImeiHint imei={cleanImei} knownTacs={knownTacs} />
+          {parsedValue > price ? (
+            <p className="text-sm text-destructive">Nilai tukar tambah melebihi harga jual.</p>
+          ) : (
+            <div className="rounded-lg bg-muted p-3 text-sm flex justify-between">
+              <span className="font-semibold">Selisih Dibayar:</span>
+              <span className="font-semibold">Rp {(price - parsedValue).toLocaleString('id-ID')}</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { cn } from "@/lib/utils";
+import { LABEL_LAYOUTS, LabelData, LabelLayout } from "@/lib/labels";
+import { Code128Barcode } from "./Code128Barcode";
+
+interface UnitLabelProps {
+  data: LabelData;
+  layout: LabelLayout;
+}
+
+export function UnitLabel({ data, layout }: UnitLabelProps) {
+  const { width, height, compact } = LABEL_LAYOUTS[layout];
+
+  return (
+    <div
+      className={cn(
+        "bg-white text-black font-sans leading-tight overflow-hidden flex flex-col",
+        compact ? "text-[7px] p-[1.5mm]" : "text-[9px] p-[2mm]"
+      )}
+      style={{ width, height, breakInside: "avoid" }}
+    >
+      <div className="font-bold truncate">{[data.brand, data.model, data.storage].filter(Boolean).join(" ")}</div>
+      <Code128Barcode value={data.imei} className="w-full flex-1 min-h-0 my-[0.5mm]" />
+      <div className="font-mono text-center tracking-wider">{data.imei}</div>
+      <div className="flex justify-between gap-1 mt-[0.5mm]">
+        <span className={cn("font-bold", !compact && "text-[11px]")}>
+          {data.srp > 0 ? `Rp ${data.srp.toLocaleString("id-ID")}` : "-"}
+        </span>
+        {data.locationName && <span className="truncate">{data.locationName}</span>}
+      </div>
+    </div>
+  );
+}
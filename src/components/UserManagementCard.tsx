@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import { Pencil } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/usePermissions";
+import { normalizeRole, ROLE_LABELS } from "@/lib/permissions";
+import { EditStaffAccountDialog, StaffAccount } from "./EditStaffAccountDialog";
+
+export function UserManagementCard() {
+  const [editingAccount, setEditingAccount] = useState<StaffAccount | null>(null);
+  const { profile } = usePermissions();
+
+  const { data: accounts, isLoading } = useQuery({
+    queryKey: ['staff-accounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('list_staff_accounts');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('stock_locations').select('*').order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const formatRelative = (value: string | null) =>
+    value ? formatDistanceToNow(new Date(value), { addSuffix: true, locale: id }) : '-';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Kelola Pengguna</CardTitle>
+        <CardDescription>Atur nama, peran, dan lokasi utama setiap karyawan</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse">
+            <div className="h-24 bg-muted rounded" />
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[160px]">Nama</TableHead>
+                  <TableHead>Peran</TableHead>
+                  <TableHead>Lokasi</TableHead>
+                  <TableHead className="min-w-[120px]">Aktivitas Terakhir</TableHead>
+                  <TableHead className="w-[60px]">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts?.map((account) => (
+                  <TableRow key={account.user_id} className={!account.is_active ? "opacity-60" : undefined}>
+                    <TableCell>
+                      <div className="font-medium">{account.full_name || '-'}</div>
+                      <div className="text-xs text-muted-foreground">{account.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="text-xs">
+                          {ROLE_LABELS[normalizeRole(account.role)]}
+                        </Badge>
+                        {!account.is_active && (
+                          <Badge variant="outline" className="text-xs">Nonaktif</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {locations?.find(l => l.id === account.home_location_id)?.name || '-'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{formatRelative(account.last_activity_at)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Login {formatRelative(account.last_sign_in_at)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingAccount(account)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <EditStaffAccountDialog
+        open={!!editingAccount}
+        onOpenChange={(open) => !open && setEditingAccount(null)}
+        account={editingAccount}
+        isSelf={editingAccount?.user_id === profile?.user_id}
+      />
+    </Card>
+  );
+}
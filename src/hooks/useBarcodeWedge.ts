@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Handheld USB/Bluetooth barcode guns act as a keyboard ("keyboard wedge"):
+ * they type the code in a few milliseconds and press Enter. A person types
+ * far slower, which is how a scan is told apart from typing.
+ */
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 8;
+
+type WedgeHandler = (code: string) => void;
+
+// Only the most recently registered screen receives scans, e.g. an open
+// incoming stock form takes them before the dashboard behind it
+const handlers: { current: WedgeHandler }[] = [];
+
+let buffer = '';
+let lastKeyAt = 0;
+// The field the scanner typed into and its value before the scan started
+let burstTarget: HTMLInputElement | HTMLTextAreaElement | null = null;
+let valueBeforeBurst = '';
+
+const isTextField = (target: EventTarget | null): target is HTMLInputElement | HTMLTextAreaElement =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+// React tracks input values itself, so the native setter plus an input event is needed
+function restoreValue(field: HTMLInputElement | HTMLTextAreaElement, value: string) {
+  const prototype = field instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, value);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  const now = event.timeStamp;
+  const isFast = now - lastKeyAt <= MAX_KEY_GAP_MS;
+  lastKeyAt = now;
+
+  if (event.key === 'Enter') {
+    const code = buffer.trim();
+    buffer = '';
+    if (!isFast || code.length < MIN_CODE_LENGTH || handlers.length === 0) return;
+
+    // The scan is routed to the screen, not typed into whichever field had focus
+    event.preventDefault();
+    event.stopPropagation();
+    if (burstTarget && document.contains(burstTarget)) restoreValue(burstTarget, valueBeforeBurst);
+    burstTarget = null;
+    handlers[handlers.length - 1].current(code);
+    return;
+  }
+
+  if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) return;
+
+  if (!isFast || buffer === '') {
+    buffer = '';
+    burstTarget = isTextField(event.target) ? event.target : null;
+    valueBeforeBurst = burstTarget?.value ?? '';
+  }
+  buffer += event.key;
+}
+
+/**
+ * Calls `onScan` with each code read by a keyboard-wedge barcode scanner
+ * while `enabled`, regardless of which element has focus
+ */
+export function useBarcodeWedge(onScan: WedgeHandler, options: { enabled?: boolean } = {}) {
+  const enabled = options.enabled ?? true;
+  const handlerRef = useRef(onScan);
+  handlerRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    handlers.push(handlerRef);
+    // Capture phase, so the Enter is stopped before it submits a form or a dialog sees it
+    if (handlers.length === 1) window.addEventListener('keydown', handleKeyDown, true);
+
+    return () => {
+      handlers.splice(handlers.indexOf(handlerRef), 1);
+      if (handlers.length === 0) window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [enabled]);
+}
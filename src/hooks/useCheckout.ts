@@ -0,0 +1,132 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { NO_IMEI } from '@/lib/accessories';
+import { CartLine, allocateBasketDiscount, allocatePayments, getLineSubtotal, getLineTotal } from '@/lib/cart';
+import { CustomerInput, resolveCustomerId } from '@/lib/customers';
+import { PaymentLine, getPaymentTotal } from '@/lib/payments';
+import { BelowCostApproval, getPriceRuleMetadata, isBelowCost } from '@/lib/promotions';
+
+export interface CheckoutData {
+  lines: CartLine[];
+  basketDiscount: number;
+  date: Date;
+  customer?: CustomerInput | null;
+  payments: PaymentLine[];
+  /** Set when an owner accepts items priced below cost */
+  belowCostApproval?: BelowCostApproval | null;
+}
+
+// Same rule as single sales: use the cost price if known, otherwise SRP
+const getCostBasis = (line: CartLine) =>
+  (line.unitCost > 0 ? line.unitCost : line.entry.phone_models.srp) * line.qty;
+
+export function useCheckout(options: { onSold?: (saleEventId: number) => void } = {}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ lines, basketDiscount, date, customer, payments, belowCostApproval }: CheckoutData) => {
+      if (lines.length === 0) throw new Error('Keranjang masih kosong');
+
+      for (const line of lines) {
+        const itemName = `${line.entry.phone_models.brand} ${line.entry.phone_models.model}`;
+        if (line.qty < 1) throw new Error(`Jumlah ${itemName} harus lebih dari 0`);
+        if (line.entry.imei && line.qty !== 1) throw new Error('Unit ber-IMEI hanya bisa dijual satu per satu');
+        if (line.qty > line.entry.night_stock) throw new Error(`Stok ${itemName} tidak cukup, tersisa ${line.entry.night_stock}`);
+      }
+
+      const lineTotals = lines.map(getLineTotal);
+      const subtotal = lineTotals.reduce((sum, t) => sum + t, 0);
+      if (basketDiscount > subtotal) throw new Error('Diskon nota melebihi total belanja');
+
+      // Every event records its own net price, so the basket discount is spread over the lines
+      const basketShares = allocateBasketDiscount(lineTotals, basketDiscount);
+      const netTotals = lineTotals.map((total, index) => total - basketShares[index]);
+      const grandTotal = subtotal - basketDiscount;
+
+      if (getPaymentTotal(payments) !== grandTotal) {
+        throw new Error('Total pembayaran tidak sama dengan total belanja');
+      }
+
+      const customerId = customer ? await resolveCustomerId(customer) : null;
+      const transactionId = crypto.randomUUID();
+      const saleDate = format(date, 'yyyy-MM-dd');
+      const paymentShares = allocatePayments(netTotals, payments);
+
+      // 1. All items are written in one insert, sharing the transaction and its nota number
+      const { data: saleEvents, error: eventError } = await supabase
+        .from('stock_events')
+        .insert(lines.map((line, index) => {
+          const costBasis = getCostBasis(line);
+          return {
+            date: saleDate,
+            imei: line.entry.imei || NO_IMEI,
+            location_id: line.entry.stock_locations.id,
+            phone_model_id: line.entry.phone_models.id,
+            event_type: 'laku',
+            qty: line.qty,
+            customer_id: customerId,
+            transaction_id: transactionId,
+            notes: `Terjual${line.qty > 1 ? ` ${line.qty} pcs` : ''} (${lines.length} item dalam 1 nota) - Harga: Rp ${netTotals[index].toLocaleString('id-ID')}`,
+            metadata: {
+              selling_price: netTotals[index],
+              srp: line.entry.phone_models.srp,
+              cost_price: costBasis,
+              profit_loss: netTotals[index] - costBasis,
+              ...(!line.entry.imei && { qty: line.qty, unit_price: line.unitPrice }),
+              list_price: getLineSubtotal(line),
+              ...(line.discount > 0 && { line_discount: line.discount }),
+              ...(basketShares[index] > 0 && { basket_discount: basketShares[index] }),
+              ...getPriceRuleMetadata(
+                line.promotion,
+                line.qty,
+                isBelowCost(netTotals[index], line.unitCost * line.qty),
+                belowCostApproval
+              ),
+              payments: paymentShares[index].map(p => ({
+                method: p.method,
+                amount: p.amount,
+                reference: p.reference || null
+              }))
+            }
+          };
+        }))
+        .select('id');
+
+      if (eventError) throw new Error(`Gagal menyimpan penjualan: ${eventError.message}`);
+
+      // 2. Handset rows keep their selling price, like single sales
+      for (const [index, line] of lines.entries()) {
+        if (!line.entry.imei) continue;
+        const costBasis = getCostBasis(line);
+        const { error: updateError } = await supabase
+          .from('stock_entries')
+          .update({
+            selling_price: netTotals[index],
+            sale_date: saleDate,
+            profit_loss: netTotals[index] - costBasis,
+            cost_price: costBasis
+          })
+          .eq('id', line.entry.id);
+
+        if (updateError) throw new Error(`Gagal update data penjualan: ${updateError.message}`);
+      }
+
+      // 3. Cascade recalculation happens automatically via database trigger
+      return Math.min(...saleEvents.map(e => e.id));
+    },
+    onSuccess: (saleEventId, { lines }) => {
+      toast({ title: "Berhasil", description: `${lines.length} item terjual dalam 1 nota` });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      options.onSold?.(saleEventId);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+}
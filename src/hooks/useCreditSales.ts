@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  InstallmentProgress,
+  ProfitRecognitionRule,
+  allocateInstallmentPayments,
+  getRecognizedProfit,
+  normalizeProfitRecognitionRule,
+} from '@/lib/credit';
+
+export interface CreditSaleSummary {
+  id: string;
+  status: string;
+  createdAt: string;
+  customer: { id: string; name: string; phone: string | null } | null;
+  itemName: string;
+  imei: string;
+  saleDate: string;
+  totalPrice: number;
+  downPayment: number;
+  collected: number;
+  outstanding: number;
+  profit: number;
+  recognizedProfit: number;
+  profitRecognition: ProfitRecognitionRule;
+  installments: InstallmentProgress[];
+  nextInstallment: InstallmentProgress | null;
+  payments: { id: number; paid_at: string; amount: number; method: string; reference: string | null; created_by: string | null }[];
+}
+
+export function useCreditSales(options: { customerId?: string } = {}) {
+  return useQuery({
+    queryKey: ['credit-sales', options.customerId ?? 'all'],
+    queryFn: async (): Promise<CreditSaleSummary[]> => {
+      let query = supabase
+        .from('credit_sales')
+        .select(`
+          *,
+          customers(id, name, phone),
+          stock_events(imei, date, phone_models(brand, model, storage_capacity)),
+          credit_installments(installment_number, due_date, amount),
+          credit_payments(id, paid_at, amount, method, reference, created_by)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (options.customerId) query = query.eq('customer_id', options.customerId);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Gagal memuat data kredit: ${error.message}`);
+
+      return (data || []).map(credit => {
+        const paidInstallments = credit.credit_payments.reduce((sum, p) => sum + p.amount, 0);
+        const collected = credit.down_payment + paidInstallments;
+        const installments = allocateInstallmentPayments(credit.credit_installments, paidInstallments);
+        const phoneModel = credit.stock_events?.phone_models;
+        const profitRecognition = normalizeProfitRecognitionRule(credit.profit_recognition);
+
+        return {
+          id: credit.id,
+          status: credit.status,
+          createdAt: credit.created_at,
+          customer: credit.customers,
+          itemName: [phoneModel?.brand, phoneModel?.model, phoneModel?.storage_capacity].filter(Boolean).join(' '),
+          imei: credit.stock_events?.imei || '',
+          saleDate: credit.stock_events?.date || credit.created_at,
+          totalPrice: credit.total_price,
+          downPayment: credit.down_payment,
+          collected,
+          outstanding: credit.status === 'cancelled' ? 0 : credit.total_price - collected,
+          profit: credit.total_price - credit.cost_price,
+          recognizedProfit: getRecognizedProfit(profitRecognition, credit, collected),
+          profitRecognition,
+          installments,
+          nextInstallment: installments.find(i => i.remaining > 0) || null,
+          payments: [...credit.credit_payments].sort((a, b) => b.paid_at.localeCompare(a.paid_at)),
+        };
+      });
+    }
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchKnownTacs } from '@/lib/imei';
+
+export function useKnownTacs(phoneModelId: string | null | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['imei-tacs', phoneModelId],
+    queryFn: () => fetchKnownTacs(phoneModelId),
+    enabled: !!phoneModelId && (options.enabled ?? true),
+  });
+}
@@ -0,0 +1,150 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { StockEntry } from '@/components/StockTable';
+import type { CreditTerms } from '@/lib/credit';
+import { CustomerInput, resolveCustomerId } from '@/lib/customers';
+import { PaymentLine, getPaymentTotal } from '@/lib/payments';
+import { AppliedPromotion, BelowCostApproval, getPriceRuleMetadata, isBelowCost } from '@/lib/promotions';
+import { TradeInData, isTradeInComplete } from '@/lib/tradeIn';
+import { findRegisteredNumbers } from '@/lib/unitIdentifiers';
+
+export interface SaleData {
+  /** Total price of the sale; for accessories sold in bulk this covers all pieces */
+  price: number;
+  date: Date;
+  srp: number;
+  costPrice: number;
+  /** Pieces sold from an accessory row; IMEI units are always sold one at a time */
+  qty?: number;
+  customer?: CustomerInput | null;
+  payments: PaymentLine[];
+  credit?: CreditTerms | null;
+  tradeIn?: TradeInData | null;
+  promotion?: AppliedPromotion | null;
+  /** Set when an owner accepts a price below cost */
+  belowCostApproval?: BelowCostApproval | null;
+}
+
+export function useMarkAsSold(options: { onSold?: (saleEventId: number) => void; onSettled?: () => void } = {}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ entry, saleData }: { entry: StockEntry; saleData: SaleData }) => {
+      const qty = saleData.qty ?? 1;
+      if (qty < 1) throw new Error('Jumlah barang harus lebih dari 0');
+      if (entry.imei && qty !== 1) throw new Error('Unit ber-IMEI hanya bisa dijual satu per satu');
+      if (qty > entry.night_stock) throw new Error(`Stok tidak cukup, tersisa ${entry.night_stock}`);
+
+      // Use cost_price if available, otherwise use SRP for profit/loss calculation
+      const costBasis = (saleData.costPrice > 0 ? saleData.costPrice : saleData.srp) * qty;
+      const profitLoss = saleData.price - costBasis;
+
+      const credit = saleData.credit;
+      const tradeIn = saleData.tradeIn;
+      const tradeInValue = tradeIn?.value || 0;
+      const amountDueNow = credit ? credit.downPayment : saleData.price - tradeInValue;
+      if (getPaymentTotal(saleData.payments) !== amountDueNow) {
+        throw new Error(credit ? 'Total pembayaran tidak sama dengan DP' : 'Total pembayaran tidak sama dengan harga jual');
+      }
+      if (credit && !saleData.customer) throw new Error('Penjualan kredit wajib memilih pelanggan');
+
+      if (tradeIn) {
+        if (!isTradeInComplete(tradeIn, saleData.price)) throw new Error('Data tukar tambah belum lengkap');
+
+        // Same rule as incoming stock: the number may not belong to a unit in stock, as IMEI or IMEI 2
+        const registered = await findRegisteredNumbers([tradeIn.imei]);
+        if (registered.length > 0) throw new Error(`IMEI tukar tambah ${tradeIn.imei} sudah terdaftar`);
+      }
+
+      const customerId = saleData.customer ? await resolveCustomerId(saleData.customer) : null;
+
+      // 1. The laku event, the sale columns of the stock row, the trade-in unit and
+      // the credit schedule are written in one transaction
+      const { data: saleEventId, error: saleError } = await supabase.rpc('record_sale', {
+        p_entry_id: entry.id,
+        p_event: {
+          date: format(saleData.date, 'yyyy-MM-dd'),
+          qty,
+          customer_id: customerId,
+          notes: [
+            `Terjual${qty > 1 ? ` ${qty} pcs` : ''}${credit ? ' (kredit)' : ''} - Harga: Rp ${saleData.price.toLocaleString('id-ID')}`,
+            tradeIn && `Tukar tambah: Rp ${tradeInValue.toLocaleString('id-ID')}`,
+            credit && `DP: Rp ${credit.downPayment.toLocaleString('id-ID')}`
+          ].filter(Boolean).join(', '),
+          metadata: {
+            selling_price: saleData.price,
+            srp: saleData.srp,
+            cost_price: costBasis,
+            profit_loss: profitLoss,
+            ...(!entry.imei && { qty, unit_price: Math.round(saleData.price / qty) }),
+            ...(credit && { payment_type: 'kredit', down_payment: credit.downPayment }),
+            ...(tradeIn && { trade_in_imei: tradeIn.imei, trade_in_value: tradeInValue }),
+            ...getPriceRuleMetadata(
+              saleData.promotion,
+              qty,
+              isBelowCost(saleData.price, saleData.costPrice * qty),
+              saleData.belowCostApproval
+            ),
+            payments: saleData.payments.filter(p => p.amount > 0).map(p => ({
+              method: p.method,
+              amount: p.amount,
+              reference: p.reference || null
+            }))
+          }
+        },
+        p_credit: credit ? {
+          total_price: saleData.price,
+          // The traded-in phone counts as part of what the customer paid up front
+          down_payment: credit.downPayment + tradeInValue,
+          cost_price: costBasis,
+          installments: credit.installments.map(installment => ({
+            due_date: format(installment.dueDate, 'yyyy-MM-dd'),
+            amount: installment.amount
+          }))
+        } : null,
+        // The customer's old phone enters stock as a used unit, linked to this sale
+        p_trade_in: tradeIn ? {
+          imei: tradeIn.imei,
+          phone_model_id: tradeIn.phoneModelId,
+          value: tradeInValue,
+          notes: [`Tukar tambah dari penjualan ${entry.imei}`, tradeIn.notes].filter(Boolean).join(' - ')
+        } : null
+      });
+
+      if (saleError) throw new Error(`Gagal menyimpan penjualan: ${saleError.message}`);
+
+      // 2. Cascade recalculation happens automatically via database trigger
+      // stock_entries will be updated automatically
+
+      return saleEventId;
+    },
+    onSuccess: (saleEventId, { saleData }) => {
+      const costBasis = (saleData.costPrice > 0 ? saleData.costPrice : saleData.srp) * (saleData.qty ?? 1);
+      const profitLoss = saleData.price - costBasis;
+      const message = profitLoss >= 0
+        ? `Stok terjual! Laba: Rp ${profitLoss.toLocaleString('id-ID')}`
+        : `Stok terjual. Rugi: Rp ${Math.abs(profitLoss).toLocaleString('id-ID')}`;
+
+      toast({
+        title: "Sukses",
+        description: message,
+        variant: profitLoss >= 0 ? "default" : "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      if (saleData.customer) queryClient.invalidateQueries({ queryKey: ['customers'] });
+      if (saleData.credit) queryClient.invalidateQueries({ queryKey: ['credit-sales'] });
+      options.onSold?.(saleEventId);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: `Gagal menandai sebagai terjual: ${error.message}`, variant: "destructive" });
+    },
+    onSettled: () => {
+      options.onSettled?.();
+    }
+  });
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { hasPermission, normalizeRole, Permission } from '@/lib/permissions';
+
+export function usePermissions() {
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['profiles', 'current'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name, role, home_location_id, is_active')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const role = normalizeRole(profile?.role);
+  const isActive = profile?.is_active !== false;
+
+  // Nothing is allowed until the profile is known, so restricted UI never flashes
+  const can = (permission: Permission) => !isLoading && isActive && hasPermission(role, permission);
+
+  return { role, profile, can, isActive, isLoading };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchPriceHistory } from '@/lib/priceHistory';
+
+export function usePriceHistory(phoneModelId: string | null | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['price-history', phoneModelId],
+    queryFn: async () => {
+      const historyByModel = await fetchPriceHistory([phoneModelId]);
+      return historyByModel.get(phoneModelId) || [];
+    },
+    enabled: !!phoneModelId && (options.enabled ?? true),
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export function useProfiles() {
+  const { data: profiles } = useQuery({
+    queryKey: ['profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name, role');
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Falls back to a shortened id so unnamed accounts are still distinguishable
+  const getUserName = (userId: string | null | undefined) => {
+    if (!userId) return null;
+    const profile = profiles?.find(p => p.user_id === userId);
+    return profile?.full_name || `User ${userId.slice(0, 8)}`;
+  };
+
+  return { profiles, getUserName };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Promotion } from '@/lib/promotions';
+
+export function usePromotions(options: { activeOnly?: boolean; enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['promotions', options.activeOnly ? 'active' : 'all'],
+    queryFn: async (): Promise<Promotion[]> => {
+      let query = supabase
+        .from('promotions')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (options.activeOnly) query = query.eq('is_active', true);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Gagal memuat promo: ${error.message}`);
+      return data;
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 60 * 1000,
+  });
+}
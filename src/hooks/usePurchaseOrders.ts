@@ -0,0 +1,115 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PurchaseOrderProgress, getPurchaseOrderProgress } from '@/lib/purchaseOrders';
+import { getVoidsByEventId } from '@/lib/stockEvents';
+
+export interface PurchaseOrderLineSummary {
+  id: number;
+  phoneModelId: string;
+  brand: string;
+  itemName: string;
+  quantity: number;
+  unitCost: number;
+  received: number;
+  backOrder: number;
+}
+
+export interface PurchaseOrderSummary {
+  id: string;
+  orderNumber: string;
+  supplier: { id: string; name: string } | null;
+  orderDate: string;
+  expectedDate: string | null;
+  status: string;
+  progress: PurchaseOrderProgress;
+  closedAt: string | null;
+  notes: string | null;
+  lines: PurchaseOrderLineSummary[];
+  ordered: number;
+  received: number;
+  backOrder: number;
+  totalCost: number;
+}
+
+export function usePurchaseOrders(options: { openOnly?: boolean; enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['purchase-orders', options.openOnly ? 'open' : 'all'],
+    queryFn: async (): Promise<PurchaseOrderSummary[]> => {
+      let query = supabase
+        .from('purchase_orders')
+        .select(`
+          *,
+          suppliers(id, name),
+          purchase_order_lines(
+            id, phone_model_id, quantity, unit_cost,
+            phone_models(brand, model, storage_capacity, color),
+            stock_events(id, event_type, qty)
+          )
+        `)
+        .order('order_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (options.openOnly) query = query.eq('status', 'open');
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Gagal memuat data PO: ${error.message}`);
+
+      // Void events do not carry the PO line, so they are looked up by the events they cancel
+      const eventIds = (data || []).flatMap(po => po.purchase_order_lines.flatMap(l => l.stock_events.map(e => e.id)));
+      let voidedIds = new Set<number>();
+      if (eventIds.length > 0) {
+        const { data: voidEvents, error: voidError } = await supabase
+          .from('stock_events')
+          .select('event_type, voided_event_id')
+          .eq('event_type', 'void')
+          .in('voided_event_id', eventIds);
+
+        if (voidError) throw new Error(`Gagal memuat data pembatalan: ${voidError.message}`);
+        voidedIds = new Set(getVoidsByEventId(voidEvents || []).keys());
+      }
+
+      return (data || []).map(po => {
+        const lines = po.purchase_order_lines
+          .map(line => {
+            const received = line.stock_events
+              .filter(e => e.event_type === 'masuk' && !voidedIds.has(e.id))
+              .reduce((sum, e) => sum + e.qty, 0);
+            const model = line.phone_models;
+            return {
+              id: line.id,
+              phoneModelId: line.phone_model_id,
+              brand: model?.brand || '',
+              itemName: [model?.brand, model?.model, model?.storage_capacity, model?.color].filter(Boolean).join(' '),
+              quantity: line.quantity,
+              unitCost: line.unit_cost,
+              received,
+              // Nothing more is expected once the PO is closed
+              backOrder: po.status === 'closed' ? 0 : Math.max(line.quantity - received, 0),
+            };
+          })
+          .sort((a, b) => a.itemName.localeCompare(b.itemName));
+
+        const ordered = lines.reduce((sum, l) => sum + l.quantity, 0);
+        const received = lines.reduce((sum, l) => sum + l.received, 0);
+
+        return {
+          id: po.id,
+          orderNumber: po.order_number,
+          supplier: po.suppliers,
+          orderDate: po.order_date,
+          expectedDate: po.expected_date,
+          status: po.status,
+          progress: getPurchaseOrderProgress(po.status, ordered, received),
+          closedAt: po.closed_at,
+          notes: po.notes,
+          lines,
+          ordered,
+          received,
+          backOrder: lines.reduce((sum, l) => sum + l.backOrder, 0),
+          totalCost: lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0),
+        };
+      });
+    },
+    enabled: options.enabled ?? true
+  });
+}
@@ -0,0 +1,104 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getVoidsByEventId } from '@/lib/stockEvents';
+import { PurchaseStatus, getPurchaseStatus } from '@/lib/suppliers';
+
+export interface PurchaseItem {
+  eventId: number;
+  imei: string;
+  itemName: string;
+  /** Pieces received; always 1 for IMEI units */
+  qty: number;
+  costPrice: number;
+  returned: boolean;
+}
+
+export interface PurchaseSummary {
+  id: string;
+  supplier: { id: string; name: string } | null;
+  invoiceNumber: string | null;
+  purchaseDate: string;
+  dueDate: string | null;
+  paidAt: string | null;
+  status: PurchaseStatus;
+  items: PurchaseItem[];
+  total: number;
+  returnedAmount: number;
+  payable: number;
+  outstanding: number;
+}
+
+export function usePurchases(options: { supplierId?: string } = {}) {
+  return useQuery({
+    queryKey: ['purchases', options.supplierId ?? 'all'],
+    queryFn: async (): Promise<PurchaseSummary[]> => {
+      let query = supabase
+        .from('purchases')
+        .select(`
+          *,
+          suppliers(id, name),
+          stock_events(id, imei, event_type, qty, metadata, phone_models(brand, model, storage_capacity))
+        `)
+        .order('purchase_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (options.supplierId) query = query.eq('supplier_id', options.supplierId);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Gagal memuat data pembelian: ${error.message}`);
+
+      // Void events do not carry the purchase, so they are looked up by the events they cancel
+      const eventIds = (data || []).flatMap(p => p.stock_events.map(e => e.id));
+      let voidedIds = new Set<number>();
+      if (eventIds.length > 0) {
+        const { data: voidEvents, error: voidError } = await supabase
+          .from('stock_events')
+          .select('event_type, voided_event_id')
+          .eq('event_type', 'void')
+          .in('voided_event_id', eventIds);
+
+        if (voidError) throw new Error(`Gagal memuat data pembatalan: ${voidError.message}`);
+        voidedIds = new Set(getVoidsByEventId(voidEvents || []).keys());
+      }
+
+      const today = format(new Date(), 'yyyy-MM-dd');
+
+      return (data || []).map(purchase => {
+        const activeEvents = purchase.stock_events.filter(e => !voidedIds.has(e.id));
+        // Returns to the supplier are tracked per IMEI; accessories (no IMEI) are never marked returned
+        const returnedImeis = new Set(activeEvents.filter(e => e.event_type === 'retur_out' && e.imei).map(e => e.imei));
+
+        const items = activeEvents
+          .filter(e => e.event_type === 'masuk')
+          .map(e => ({
+            eventId: e.id,
+            imei: e.imei,
+            itemName: [e.phone_models?.brand, e.phone_models?.model, e.phone_models?.storage_capacity].filter(Boolean).join(' '),
+            qty: e.qty,
+            costPrice: (e.metadata as { cost_price?: number } | null)?.cost_price || 0,
+            returned: returnedImeis.has(e.imei),
+          }));
+
+        const total = items.reduce((sum, i) => sum + i.costPrice * i.qty, 0);
+        const returnedAmount = items.filter(i => i.returned).reduce((sum, i) => sum + i.costPrice * i.qty, 0);
+        const payable = total - returnedAmount;
+
+        return {
+          id: purchase.id,
+          supplier: purchase.suppliers,
+          invoiceNumber: purchase.invoice_number,
+          purchaseDate: purchase.purchase_date,
+          dueDate: purchase.due_date,
+          paidAt: purchase.paid_at,
+          status: getPurchaseStatus(purchase, today),
+          items,
+          total,
+          returnedAmount,
+          payable,
+          outstanding: purchase.paid_at ? 0 : payable,
+        };
+      });
+    }
+  });
+}
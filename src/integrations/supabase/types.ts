@@ -14,6 +14,190 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      credit_installments: {
+        Row: {
+          amount: number
+          credit_sale_id: string
+          due_date: string
+          id: number
+          installment_number: number
+        }
+        Insert: {
+          amount: number
+          credit_sale_id: string
+          due_date: string
+          id?: number
+          installment_number: number
+        }
+        Update: {
+          amount?: number
+          credit_sale_id?: string
+          due_date?: string
+          id?: number
+          installment_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_installments_credit_sale_id_fkey"
+            columns: ["credit_sale_id"]
+            isOneToOne: false
+            referencedRelation: "credit_sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          credit_sale_id: string
+          id: number
+          method: string
+          notes: string | null
+          paid_at: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          credit_sale_id: string
+          id?: number
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          credit_sale_id?: string
+          id?: number
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_payments_credit_sale_id_fkey"
+            columns: ["credit_sale_id"]
+            isOneToOne: false
+            referencedRelation: "credit_sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_sales: {
+        Row: {
+          cost_price: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          down_payment: number
+          id: string
+          paid_off_at: string | null
+          profit_recognition: string
+          sale_event_id: number
+          status: string
+          total_price: number
+        }
+        Insert: {
+          cost_price?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          down_payment?: number
+          id?: string
+          paid_off_at?: string | null
+          profit_recognition?: string
+          sale_event_id: number
+          status?: string
+          total_price: number
+        }
+        Update: {
+          cost_price?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          down_payment?: number
+          id?: string
+          paid_off_at?: string | null
+          profit_recognition?: string
+          sale_event_id?: number
+          status?: string
+          total_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_sales_sale_event_id_fkey"
+            columns: ["sale_event_id"]
+            isOneToOne: true
+            referencedRelation: "stock_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       daily_summaries: {
         Row: {
           created_at: string
@@ -121,33 +305,86 @@ export type Database = {
         }
         Relationships: []
       }
+      phone_model_prices: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          effective_date: string
+          id: number
+          phone_model_id: string
+          srp: number
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          effective_date?: string
+          id?: number
+          phone_model_id: string
+          srp?: number
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          effective_date?: string
+          id?: number
+          phone_model_id?: string
+          srp?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_model_prices_phone_model_id_fkey"
+            columns: ["phone_model_id"]
+            isOneToOne: false
+            referencedRelation: "phone_models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       phone_models: {
         Row: {
+          archived_at: string | null
+          archived_by: string | null
+          barcode: string | null
           brand: string
           color: string | null
           created_at: string
           id: string
+          is_serialized: boolean
           model: string
+          ram: string | null
+          series: string | null
           srp: number | null
           storage_capacity: string | null
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          barcode?: string | null
           brand: string
           color?: string | null
           created_at?: string
           id?: string
+          is_serialized?: boolean
           model: string
+          ram?: string | null
+          series?: string | null
           srp?: number | null
           storage_capacity?: string | null
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          barcode?: string | null
           brand?: string
           color?: string | null
           created_at?: string
           id?: string
+          is_serialized?: boolean
           model?: string
+          ram?: string | null
+          series?: string | null
           srp?: number | null
           storage_capacity?: string | null
           updated_at?: string
@@ -191,7 +428,9 @@ export type Database = {
         Row: {
           created_at: string
           full_name: string | null
+          home_location_id: string | null
           id: string
+          is_active: boolean
           role: string | null
           updated_at: string
           user_id: string
@@ -199,7 +438,9 @@ export type Database = {
         Insert: {
           created_at?: string
           full_name?: string | null
+          home_location_id?: string | null
           id?: string
+          is_active?: boolean
           role?: string | null
           updated_at?: string
           user_id: string
@@ -207,12 +448,215 @@ export type Database = {
         Update: {
           created_at?: string
           full_name?: string | null
+          home_location_id?: string | null
           id?: string
+          is_active?: boolean
           role?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_home_location_id_fkey"
+            columns: ["home_location_id"]
+            isOneToOne: false
+            referencedRelation: "stock_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          brand: string | null
+          created_at: string
+          created_by: string | null
+          discount_type: string
+          discount_value: number
+          end_date: string
+          id: string
+          is_active: boolean
+          location_id: string | null
+          name: string
+          phone_model_id: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          brand?: string | null
+          created_at?: string
+          created_by?: string | null
+          discount_type: string
+          discount_value: number
+          end_date: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          name: string
+          phone_model_id?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Update: {
+          brand?: string | null
+          created_at?: string
+          created_by?: string | null
+          discount_type?: string
+          discount_value?: number
+          end_date?: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          name?: string
+          phone_model_id?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "stock_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_phone_model_id_fkey"
+            columns: ["phone_model_id"]
+            isOneToOne: false
+            referencedRelation: "phone_models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines: {
+        Row: {
+          id: number
+          phone_model_id: string
+          purchase_order_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          id?: number
+          phone_model_id: string
+          purchase_order_id: string
+          quantity: number
+          unit_cost?: number
+        }
+        Update: {
+          id?: number
+          phone_model_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_phone_model_id_fkey"
+            columns: ["phone_model_id"]
+            isOneToOne: false
+            referencedRelation: "phone_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          order_number: string
+          status: string
+          supplier_id: string
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          order_number?: string
+          status?: string
+          supplier_id: string
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          order_number?: string
+          status?: string
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchases: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          invoice_number: string | null
+          paid_at: string | null
+          paid_by: string | null
+          purchase_date: string
+          supplier_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          purchase_date?: string
+          supplier_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          purchase_date?: string
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchases_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       stock_entries: {
         Row: {
@@ -299,6 +743,7 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          customer_id: string | null
           date: string
           event_type: string
           id: number
@@ -307,11 +752,17 @@ export type Database = {
           metadata: Json
           notes: string | null
           phone_model_id: string
+          purchase_id: string | null
+          purchase_order_line_id: number | null
           qty: number
+          receipt_number: string | null
+          transaction_id: string | null
+          voided_event_id: number | null
         }
         Insert: {
           created_at?: string
           created_by?: string | null
+          customer_id?: string | null
           date: string
           event_type: string
           id?: number
@@ -320,11 +771,17 @@ export type Database = {
           metadata?: Json
           notes?: string | null
           phone_model_id: string
+          purchase_id?: string | null
+          purchase_order_line_id?: number | null
           qty?: number
+          receipt_number?: string | null
+          transaction_id?: string | null
+          voided_event_id?: number | null
         }
         Update: {
           created_at?: string
           created_by?: string | null
+          customer_id?: string | null
           date?: string
           event_type?: string
           id?: number
@@ -333,9 +790,21 @@ export type Database = {
           metadata?: Json
           notes?: string | null
           phone_model_id?: string
+          purchase_id?: string | null
+          purchase_order_line_id?: number | null
           qty?: number
+          receipt_number?: string | null
+          transaction_id?: string | null
+          voided_event_id?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "stock_events_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_events_location_id_fkey"
             columns: ["location_id"]
@@ -350,6 +819,27 @@ export type Database = {
             referencedRelation: "phone_models"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_events_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_events_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_events_voided_event_id_fkey"
+            columns: ["voided_event_id"]
+            isOneToOne: true
+            referencedRelation: "stock_events"
+            referencedColumns: ["id"]
+          },
         ]
       }
       stock_locations: {
@@ -376,6 +866,82 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_opname_scans: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: number
+          imei: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: number
+          imei: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: number
+          imei?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_opname_scans_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "stock_opname_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_opname_sessions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          finalized_at: string | null
+          finalized_by: string | null
+          id: string
+          location_id: string
+          notes: string | null
+          report: Json | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          location_id: string
+          notes?: string | null
+          report?: Json | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          location_id?: string
+          notes?: string | null
+          report?: Json | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_opname_sessions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "stock_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stock_transactions: {
         Row: {
           created_at: string
@@ -474,11 +1040,75 @@ export type Database = {
           },
         ]
       }
+      suppliers: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      unit_identifiers: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          imei: string
+          imei2: string | null
+          serial_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          imei: string
+          imei2?: string | null
+          serial_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          imei?: string
+          imei2?: string | null
+          serial_number?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assert_app_role: {
+        Args: { p_roles: string[] }
+        Returns: undefined
+      }
       bulk_insert_stock: {
         Args: { entries: Json[] }
         Returns: undefined
@@ -545,20 +1175,58 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
-      delete_brand: {
-        Args: { brand_name: string }
-        Returns: undefined
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_credit_profit_recognition: {
+        Args: Record<PropertyKey, never>
+        Returns: string
       }
       delete_stock_entry_and_logs: {
         Args: { entry_id: string }
         Returns: undefined
       }
+      finalize_stock_opname: {
+        Args: {
+          p_events: Json
+          p_notes?: string
+          p_report: Json
+          p_session_id: string
+        }
+        Returns: undefined
+      }
       fix_rollover_issues: {
         Args: { p_from_date?: string; p_to_date?: string }
         Returns: {
           fixed_entries: number
         }[]
       }
+      has_app_role: {
+        Args: { p_roles: string[] }
+        Returns: boolean
+      }
+      is_active_user: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_staff_accounts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          full_name: string
+          home_location_id: string
+          is_active: boolean
+          last_activity_at: string
+          last_sign_in_at: string
+          role: string
+          user_id: string
+        }[]
+      }
+      merge_phone_models: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: undefined
+      }
       rebuild_stock_entries_from_events: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -567,6 +1235,15 @@ export type Database = {
         Args: { p_from_date: string; p_to_date?: string }
         Returns: undefined
       }
+      record_sale: {
+        Args: {
+          p_credit?: Json
+          p_entry_id: string
+          p_event: Json
+          p_trade_in?: Json
+        }
+        Returns: number
+      }
       reset_all_data: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -575,10 +1252,32 @@ export type Database = {
         Args: { target_date: string }
         Returns: undefined
       }
+      set_phone_model_srp: {
+        Args: { p_effective_date?: string; p_phone_model_id: string; p_srp: number }
+        Returns: undefined
+      }
+      srp_on_date: {
+        Args: { p_date: string; p_phone_model_id: string }
+        Returns: number
+      }
       update_brand_name: {
         Args: { new_brand_name: string; old_brand_name: string }
         Returns: undefined
       }
+      update_staff_account: {
+        Args: {
+          p_full_name: string
+          p_home_location_id: string
+          p_is_active: boolean
+          p_role: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      void_stock_events: {
+        Args: { p_reason: string; p_voids: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Accessories (chargers, cases, tempered glass, SIM cards) are catalog items
+ * with is_serialized = false. They have no IMEI: their stock events carry an
+ * empty IMEI and the number of pieces in qty, so each location keeps one
+ * quantity row per item.
+ */
+export const NO_IMEI = "";
+
+export function isAccessory(model: { is_serialized?: boolean } | null | undefined): boolean {
+  return model?.is_serialized === false;
+}
+
+/**
+ * Looks up a catalog item by its packaging barcode.
+ */
+export async function findItemByBarcode(barcode: string) {
+  const { data, error } = await supabase
+    .from("phone_models")
+    .select("*")
+    .eq("barcode", barcode.trim())
+    .maybeSingle();
+
+  if (error) throw new Error(`Gagal mencari barcode: ${error.message}`);
+  return data;
+}
+
+/**
+ * Accessory stock rows carry no cost, so sales use the cost of the latest
+ * delivery of each item
+ */
+export async function fetchLatestCostPrices(modelIds: string[]): Promise<Map<string, number>> {
+  const costByModel = new Map<string, number>();
+  if (modelIds.length === 0) return costByModel;
+
+  const { data, error } = await supabase
+    .from("stock_events")
+    .select("phone_model_id, metadata")
+    .eq("event_type", "masuk")
+    .eq("imei", NO_IMEI)
+    .in("phone_model_id", modelIds)
+    .order("id", { ascending: false });
+
+  if (error) throw new Error(`Gagal memuat harga modal: ${error.message}`);
+
+  for (const delivery of data || []) {
+    const cost = (delivery.metadata as { cost_price?: number } | null)?.cost_price;
+    if (cost && !costByModel.has(delivery.phone_model_id)) costByModel.set(delivery.phone_model_id, cost);
+  }
+  return costByModel;
+}
@@ -0,0 +1,66 @@
+import type { StockEntry } from "@/components/StockTable";
+import type { PaymentLine } from "@/lib/payments";
+import type { AppliedPromotion } from "@/lib/promotions";
+
+/**
+ * One line of the cart: a handset unit (qty 1) or a number of accessory pieces
+ * taken from the same stock row
+ */
+export interface CartLine {
+  entry: StockEntry;
+  qty: number;
+  unitPrice: number;
+  /** Discount on this line, in rupiah */
+  discount: number;
+  /** Cost of one piece, for profit/loss; 0 when unknown */
+  unitCost: number;
+  /** The promo the unit price came from, if any */
+  promotion: AppliedPromotion | null;
+}
+
+export function getLineSubtotal(line: CartLine): number {
+  return line.unitPrice * line.qty;
+}
+
+export function getLineTotal(line: CartLine): number {
+  return Math.max(getLineSubtotal(line) - line.discount, 0);
+}
+
+/**
+ * Spreads the basket discount over the lines in proportion to their totals.
+ * Rounding leftovers go to the last line so the shares add up exactly.
+ */
+export function allocateBasketDiscount(lineTotals: number[], discount: number): number[] {
+  const total = lineTotals.reduce((sum, t) => sum + t, 0);
+  if (total <= 0 || discount <= 0) return lineTotals.map(() => 0);
+
+  let allocated = 0;
+  return lineTotals.map((lineTotal, index) => {
+    if (index === lineTotals.length - 1) return discount - allocated;
+    const share = Math.floor((discount * lineTotal) / total);
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Splits the basket's payments over the lines, filling them in order, so each
+ * sale event records the part of the payment that covered it
+ */
+export function allocatePayments(amounts: number[], payments: PaymentLine[]): PaymentLine[][] {
+  const remaining = payments.filter(p => p.amount > 0).map(p => ({ ...p }));
+
+  return amounts.map(amount => {
+    const shares: PaymentLine[] = [];
+    let due = amount;
+    for (const payment of remaining) {
+      if (due <= 0) break;
+      const share = Math.min(payment.amount, due);
+      if (share <= 0) continue;
+      shares.push({ ...payment, amount: share });
+      payment.amount -= share;
+      due -= share;
+    }
+    return shares;
+  });
+}
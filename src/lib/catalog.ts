@@ -0,0 +1,98 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Each phone_models row is one sellable variant. Variants of a model share
+ * brand and model name and differ in RAM, storage and color; models of a
+ * brand are grouped into series (product lines).
+ */
+export type CatalogModel = Tables<"phone_models">;
+
+export interface VariantKey {
+  brand: string;
+  model: string;
+  ram: string | null;
+  storage_capacity: string | null;
+  color: string | null;
+}
+
+export interface CatalogGroup {
+  brand: string;
+  series: {
+    name: string;
+    models: { name: string; variants: CatalogModel[] }[];
+  }[];
+}
+
+/**
+ * Series set on the model, otherwise the name up to the first number:
+ * Galaxy A15 → Galaxy A, Redmi Note 13 Pro → Redmi Note
+ */
+export function getModelSeries(model: { model: string; series?: string | null }): string {
+  if (model.series?.trim()) return model.series.trim();
+
+  const words = model.model.trim().split(/\s+/);
+  const numbered = words.findIndex(word => /\d/.test(word));
+  if (numbered === -1) return words.join(' ');
+
+  const prefix = words[numbered].replace(/\d.*$/, '');
+  return [...words.slice(0, numbered), prefix].filter(Boolean).join(' ') || model.model.trim();
+}
+
+/** RAM/storage and color, e.g. "8GB/256GB • Hitam" */
+export function getVariantLabel(model: Pick<VariantKey, 'ram' | 'storage_capacity' | 'color'>): string {
+  const memory = model.ram && model.storage_capacity
+    ? `${model.ram}/${model.storage_capacity}`
+    : model.ram || model.storage_capacity;
+  return [memory, model.color].filter(Boolean).join(' • ') || 'Standar';
+}
+
+export function groupCatalog(models: CatalogModel[]): CatalogGroup[] {
+  const brands = new Map<string, Map<string, Map<string, CatalogModel[]>>>();
+
+  const sorted = [...models].sort((a, b) =>
+    a.brand.localeCompare(b.brand) ||
+    getModelSeries(a).localeCompare(getModelSeries(b)) ||
+    a.model.localeCompare(b.model) ||
+    getVariantLabel(a).localeCompare(getVariantLabel(b), undefined, { numeric: true })
+  );
+
+  for (const model of sorted) {
+    const series = brands.get(model.brand) ?? new Map<string, Map<string, CatalogModel[]>>();
+    const seriesName = getModelSeries(model);
+    const names = series.get(seriesName) ?? new Map<string, CatalogModel[]>();
+    names.set(model.model, [...(names.get(model.model) ?? []), model]);
+    series.set(seriesName, names);
+    brands.set(model.brand, series);
+  }
+
+  return [...brands].map(([brand, series]) => ({
+    brand,
+    series: [...series].map(([name, names]) => ({
+      name,
+      models: [...names].map(([modelName, variants]) => ({ name: modelName, variants }))
+    }))
+  }));
+}
+
+/**
+ * Finds another model with the same brand, name, RAM, storage and color,
+ * archived ones included
+ */
+export async function findDuplicateVariant(variant: VariantKey, excludeId?: string) {
+  let query = supabase
+    .from("phone_models")
+    .select("id, archived_at")
+    .eq("brand", variant.brand)
+    .eq("model", variant.model);
+
+  for (const column of ["ram", "storage_capacity", "color"] as const) {
+    const value = variant[column];
+    query = value ? query.eq(column, value) : query.is(column, null);
+  }
+  if (excludeId) query = query.neq("id", excludeId);
+
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) throw new Error(`Gagal memeriksa model: ${error.message}`);
+  return data;
+}
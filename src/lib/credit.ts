@@ -0,0 +1,130 @@
+import { addMonths, differenceInDays, startOfDay } from "date-fns";
+import { parseDbDate } from "@/lib/dateUtils";
+
+export type ProfitRecognitionRule = "at_sale" | "proportional" | "on_completion";
+
+export const PROFIT_RECOGNITION_LABELS: Record<ProfitRecognitionRule, { label: string; description: string }> = {
+  at_sale: {
+    label: "Saat Terjual",
+    description: "Seluruh laba diakui pada tanggal penjualan.",
+  },
+  proportional: {
+    label: "Sesuai Pembayaran",
+    description: "Laba diakui sebanding dengan uang yang sudah diterima (DP dan cicilan).",
+  },
+  on_completion: {
+    label: "Setelah Lunas",
+    description: "Laba baru diakui setelah seluruh cicilan lunas.",
+  },
+};
+
+export const CREDIT_STATUS_BADGES: Record<string, { label: string; variant: "success" | "destructive" | "warning" | "outline" }> = {
+  active: { label: "Berjalan", variant: "warning" },
+  paid: { label: "Lunas", variant: "success" },
+  cancelled: { label: "Dibatalkan", variant: "outline" },
+};
+
+export type InstallmentStatus = "paid" | "partial" | "upcoming" | "overdue";
+
+export const INSTALLMENT_STATUS_BADGES: Record<InstallmentStatus, { label: string; variant: "success" | "destructive" | "warning" | "outline" }> = {
+  paid: { label: "Lunas", variant: "success" },
+  partial: { label: "Sebagian", variant: "warning" },
+  upcoming: { label: "Belum Jatuh Tempo", variant: "outline" },
+  overdue: { label: "Terlambat", variant: "destructive" },
+};
+
+export interface InstallmentPlan {
+  dueDate: Date;
+  amount: number;
+}
+
+export interface CreditTerms {
+  downPayment: number;
+  installments: InstallmentPlan[];
+}
+
+export interface InstallmentProgress {
+  installmentNumber: number;
+  dueDate: string;
+  amount: number;
+  paid: number;
+  remaining: number;
+  status: InstallmentStatus;
+  daysOverdue: number;
+}
+
+export function normalizeProfitRecognitionRule(value: unknown): ProfitRecognitionRule {
+  return typeof value === "string" && value in PROFIT_RECOGNITION_LABELS
+    ? (value as ProfitRecognitionRule)
+    : "proportional";
+}
+
+/**
+ * Splits the amount left after the down payment into equal monthly
+ * installments; rounding leftovers go to the last one
+ */
+export function buildInstallmentSchedule(remaining: number, count: number, firstDueDate: Date): InstallmentPlan[] {
+  if (remaining <= 0 || count <= 0) return [];
+  const base = Math.floor(remaining / count / 1000) * 1000 || Math.floor(remaining / count);
+
+  return Array.from({ length: count }, (_, i) => ({
+    dueDate: addMonths(firstDueDate, i),
+    amount: i === count - 1 ? remaining - base * (count - 1) : base,
+  }));
+}
+
+/**
+ * Applies the payments received so far to the installments, oldest first
+ */
+export function allocateInstallmentPayments(
+  installments: { installment_number: number; due_date: string; amount: number }[],
+  totalPaid: number,
+  today: Date = new Date()
+): InstallmentProgress[] {
+  let available = totalPaid;
+
+  return [...installments]
+    .sort((a, b) => a.installment_number - b.installment_number)
+    .map(installment => {
+      const paid = Math.min(available, installment.amount);
+      available -= paid;
+      const remaining = installment.amount - paid;
+      const daysOverdue = Math.max(differenceInDays(startOfDay(today), parseDbDate(installment.due_date)), 0);
+
+      let status: InstallmentStatus = "upcoming";
+      if (remaining === 0) status = "paid";
+      else if (daysOverdue > 0) status = "overdue";
+      else if (paid > 0) status = "partial";
+
+      return {
+        installmentNumber: installment.installment_number,
+        dueDate: installment.due_date,
+        amount: installment.amount,
+        paid,
+        remaining,
+        status,
+        daysOverdue: remaining > 0 ? daysOverdue : 0,
+      };
+    });
+}
+
+/**
+ * Profit of a credit sale that counts as earned under the given rule
+ */
+export function getRecognizedProfit(
+  rule: ProfitRecognitionRule,
+  credit: { total_price: number; cost_price: number; status: string },
+  collected: number
+): number {
+  if (credit.status === "cancelled") return 0;
+  const profit = credit.total_price - credit.cost_price;
+
+  switch (rule) {
+    case "at_sale":
+      return profit;
+    case "on_completion":
+      return credit.status === "paid" ? profit : 0;
+    case "proportional":
+      return Math.round(profit * Math.min(collected / credit.total_price, 1));
+  }
+}
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Customer = Tables<"customers">;
+
+/**
+ * Customer chosen at sale time: either an existing record (id set) or a new
+ * one that is created when the sale is saved
+ */
+export interface CustomerInput {
+  id?: string;
+  name: string;
+  phone?: string | null;
+  address?: string | null;
+}
+
+/**
+ * Normalizes Indonesian phone numbers to the 08xx form so the same buyer is
+ * recognised however the number was typed
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("62")) digits = "0" + digits.slice(2);
+  return digits || null;
+}
+
+/**
+ * Returns the id of the given customer, creating the record first when needed.
+ * A new customer whose phone number is already known is linked to the existing record.
+ */
+export async function resolveCustomerId(customer: CustomerInput): Promise<string> {
+  if (customer.id) return customer.id;
+
+  const phone = normalizePhone(customer.phone);
+
+  const { data, error } = await supabase
+    .from("customers")
+    .insert({ name: customer.name.trim(), phone, address: customer.address?.trim() || null })
+    .select("id")
+    .single();
+
+  if (error?.code === "23505" && phone) {
+    const { data: existing, error: existingError } = await supabase
+      .from("customers")
+      .select("id")
+      .eq("phone", phone)
+      .single();
+
+    if (existingError) throw new Error(`Gagal mencari pelanggan: ${existingError.message}`);
+    return existing.id;
+  }
+  if (error) throw new Error(`Gagal menyimpan pelanggan: ${error.message}`);
+
+  return data.id;
+}
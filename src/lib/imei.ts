@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * An IMEI is 15 digits: an 8-digit TAC (Type Allocation Code, identifying the
+ * make and model), a 6-digit serial number and a Luhn check digit. Dual-SIM
+ * handsets carry two IMEIs, usually with the same TAC and consecutive serials.
+ */
+export const IMEI_LENGTH = 15;
+export const TAC_LENGTH = 8;
+
+/** Scanners and copy-paste may add spaces or dashes between digit groups */
+export function normalizeImei(value: string): string {
+  return value.trim().replace(/[\s-]/g, '');
+}
+
+export function getTac(imei: string): string {
+  return normalizeImei(imei).slice(0, TAC_LENGTH);
+}
+
+function hasValidCheckDigit(imei: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < IMEI_LENGTH; i++) {
+    let digit = Number(imei[i]);
+    // Every second digit is doubled, counting from the left
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Returns why an IMEI is invalid, or null when it is a well-formed IMEI
+ */
+export function validateImei(value: string): string | null {
+  const imei = normalizeImei(value);
+  if (!imei) return 'IMEI wajib diisi';
+  if (!/^\d+$/.test(imei)) return `IMEI ${imei} hanya boleh berisi angka`;
+  if (imei.length !== IMEI_LENGTH) return `IMEI ${imei} harus ${IMEI_LENGTH} digit`;
+  if (!hasValidCheckDigit(imei)) return `IMEI ${imei} tidak valid (digit terakhir salah), periksa salah ketik atau salah scan`;
+  return null;
+}
+
+export function isValidImei(value: string): boolean {
+  return validateImei(value) === null;
+}
+
+/**
+ * Whether two IMEIs look like IMEI1 and IMEI2 of one dual-SIM handset:
+ * same TAC and serial numbers one apart
+ */
+export function isLikelyDualSimPair(first: string, second: string): boolean {
+  const a = normalizeImei(first);
+  const b = normalizeImei(second);
+  if (!isValidImei(a) || !isValidImei(b) || a === b) return false;
+  if (getTac(a) !== getTac(b)) return false;
+
+  const serialA = Number(a.slice(TAC_LENGTH, IMEI_LENGTH - 1));
+  const serialB = Number(b.slice(TAC_LENGTH, IMEI_LENGTH - 1));
+  return Math.abs(serialA - serialB) === 1;
+}
+
+/**
+ * Validates the two IMEIs of a dual-SIM handset. Both must be valid and
+ * different; a different TAC is allowed but suspicious, so it is a warning.
+ */
+export function validateImeiPair(primary: string, secondary: string): { error: string | null; warning: string | null } {
+  const error = validateImei(primary) ?? validateImei(secondary);
+  if (error) return { error, warning: null };
+  if (normalizeImei(primary) === normalizeImei(secondary)) {
+    return { error: 'IMEI 1 dan IMEI 2 tidak boleh sama', warning: null };
+  }
+  if (getTac(primary) !== getTac(secondary)) {
+    return { error: null, warning: 'Awalan (TAC) IMEI 1 dan IMEI 2 berbeda, pastikan keduanya dari HP yang sama' };
+  }
+  return { error: null, warning: null };
+}
+
+/**
+ * Pairs in a list of scanned IMEIs that are probably both IMEIs of one
+ * handset, which would otherwise be recorded as two units
+ */
+export function findDualSimPairs(imeis: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  const valid = [...new Set(imeis.map(normalizeImei))].filter(isValidImei);
+  for (let i = 0; i < valid.length; i++) {
+    for (let j = i + 1; j < valid.length; j++) {
+      if (isLikelyDualSimPair(valid[i], valid[j])) pairs.push([valid[i], valid[j]]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Reads a box label: a barcode or QR code holding one or both IMEIs, and
+ * sometimes the serial number after "S/N" or "SN"
+ */
+export function parseBoxLabel(text: string): { imeis: string[]; serialNumber: string | null } {
+  const imeis = [...new Set(text.match(/\d{15}/g) ?? [])].filter(isValidImei);
+  const serial = text.match(/\bS\/?N\s*[:.]?\s*([A-Z0-9]{6,20})\b/i);
+
+  // A bare barcode with digits only is an IMEI, possibly printed with separators
+  if (imeis.length === 0 && !serial) {
+    const digits = text.replace(/\D/g, '');
+    if (isValidImei(digits)) imeis.push(digits);
+  }
+
+  return { imeis: imeis.slice(0, 2), serialNumber: serial ? serial[1].toUpperCase() : null };
+}
+
+/**
+ * Warns when the IMEI's TAC was never seen for the model before. Returns null
+ * when it matches, or when the model has no history to compare with.
+ */
+export function getTacWarning(imei: string, knownTacs: Set<string> | undefined): string | null {
+  if (!knownTacs || knownTacs.size === 0 || !isValidImei(imei)) return null;
+  if (knownTacs.has(getTac(imei))) return null;
+  return `Awalan IMEI ${getTac(imei)} belum pernah tercatat untuk model ini, pastikan model yang dipilih benar`;
+}
+
+/**
+ * TACs of the IMEIs previously recorded for a model
+ */
+export async function fetchKnownTacs(phoneModelId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("stock_events")
+    .select("imei")
+    .eq("phone_model_id", phoneModelId)
+    .eq("event_type", "masuk")
+    .neq("imei", "")
+    .order("id", { ascending: false })
+    .limit(500);
+
+  if (error) throw new Error(`Gagal memuat riwayat IMEI: ${error.message}`);
+
+  return new Set((data || []).map(e => e.imei).filter(isValidImei).map(getTac));
+}
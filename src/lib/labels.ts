@@ -0,0 +1,47 @@
+export type LabelLayout = "thermal50x30" | "thermal40x30" | "a4_24" | "a4_33";
+
+interface LabelLayoutSpec {
+  label: string;
+  width: string;
+  height: string;
+  /** Small labels print with a smaller font */
+  compact: boolean;
+  /** Sticker sheets hold several labels per page; thermal printers print one label per page */
+  sheet: { columns: number; rows: number; margin: string } | null;
+}
+
+export const LABEL_LAYOUTS: Record<LabelLayout, LabelLayoutSpec> = {
+  thermal50x30: { label: "Thermal 50×30", width: "50mm", height: "30mm", compact: false, sheet: null },
+  thermal40x30: { label: "Thermal 40×30", width: "40mm", height: "30mm", compact: true, sheet: null },
+  a4_24: { label: "A4 24 label (70×37)", width: "70mm", height: "37mm", compact: false, sheet: { columns: 3, rows: 8, margin: "0.5mm 0" } },
+  a4_33: { label: "A4 33 label (70×25,4)", width: "70mm", height: "25.4mm", compact: true, sheet: { columns: 3, rows: 11, margin: "8.8mm 0" } },
+};
+
+export interface LabelData {
+  imei: string;
+  brand: string;
+  model: string;
+  storage: string | null;
+  srp: number;
+  locationName: string | null;
+}
+
+/** Splits labels into printed pages: one label per page on thermal rolls, a full sheet otherwise */
+export function paginateLabels(labels: LabelData[], layout: LabelLayout): LabelData[][] {
+  const { sheet } = LABEL_LAYOUTS[layout];
+  const perPage = sheet ? sheet.columns * sheet.rows : 1;
+  const pages: LabelData[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) pages.push(labels.slice(i, i + perPage));
+  return pages;
+}
+
+const LAYOUT_STORAGE_KEY = "labelLayout";
+
+export function getSavedLabelLayout(): LabelLayout {
+  const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+  return saved && saved in LABEL_LAYOUTS ? (saved as LabelLayout) : "thermal50x30";
+}
+
+export function saveLabelLayout(layout: LabelLayout) {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, layout);
+}
@@ -0,0 +1,70 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type PaymentMethod = "cash" | "transfer" | "qris";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Tunai",
+  transfer: "Transfer Bank",
+  qris: "QRIS",
+};
+
+/** Label for sales recorded before payment methods were tracked */
+export const UNRECORDED_PAYMENT_LABEL = "Tidak Dicatat";
+
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string | null;
+}
+
+export function getPaymentTotal(payments: PaymentLine[]): number {
+  return payments.reduce((sum, p) => sum + (p.amount || 0), 0);
+}
+
+/**
+ * Reads the payment lines stored in a laku event's metadata.
+ * Returns an empty list for older sales that have none.
+ */
+export function getSalePayments(metadata: Json | null | undefined): PaymentLine[] {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return [];
+  const payments = metadata.payments;
+  if (!Array.isArray(payments)) return [];
+
+  return payments
+    .filter((p): p is { [key: string]: Json } => !!p && typeof p === "object" && !Array.isArray(p))
+    .filter(p => typeof p.method === "string" && p.method in PAYMENT_METHOD_LABELS && typeof p.amount === "number")
+    .map(p => ({
+      method: p.method as PaymentMethod,
+      amount: p.amount as number,
+      reference: typeof p.reference === "string" ? p.reference : null,
+    }));
+}
+
+export function formatPaymentLine(payment: PaymentLine): string {
+  const label = PAYMENT_METHOD_LABELS[payment.method];
+  const reference = payment.reference ? ` (${payment.reference})` : "";
+  return `${label} Rp ${payment.amount.toLocaleString("id-ID")}${reference}`;
+}
+
+/**
+ * A single payment line always covers the full price, so staff only type
+ * amounts when splitting a payment
+ */
+export function settlePayments(payments: PaymentLine[], price: number): PaymentLine[] {
+  const lines = payments.length === 1 ? [{ ...payments[0], amount: price }] : payments;
+  return lines.map(p => ({ ...p, reference: p.reference?.trim() || null }));
+}
+
+/**
+ * Combines lines of the same method and reference, e.g. the shares of one
+ * payment recorded on each item of a cart sale
+ */
+export function mergePaymentLines(payments: PaymentLine[]): PaymentLine[] {
+  const merged: PaymentLine[] = [];
+  for (const payment of payments) {
+    const existing = merged.find(p => p.method === payment.method && (p.reference || null) === (payment.reference || null));
+    if (existing) existing.amount += payment.amount;
+    else merged.push({ ...payment });
+  }
+  return merged;
+}
@@ -0,0 +1,57 @@
+export type AppRole = "owner" | "admin" | "cashier";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  owner: "Pemilik",
+  admin: "Admin",
+  cashier: "Kasir",
+};
+
+export type Permission =
+  | "stock.receive"
+  | "stock.sell"
+  | "stock.return"
+  | "stock.transfer"
+  | "stock.edit"
+  | "stock.void"
+  | "stock.opname"
+  | "catalog.manage"
+  | "promo.manage"
+  | "sale.approve_below_cost"
+  | "data.export"
+  | "data.import"
+  | "data.reset"
+  | "users.manage"
+  | "settings.manage";
+
+/**
+ * Which roles may perform each action. Keep in sync with the row level
+ * security policies and RPC guards in the role migration.
+ */
+const PERMISSION_ROLES: Record<Permission, AppRole[]> = {
+  "stock.receive": ["owner", "admin"],
+  "stock.sell": ["owner", "admin", "cashier"],
+  "stock.return": ["owner", "admin", "cashier"],
+  "stock.transfer": ["owner", "admin"],
+  "stock.edit": ["owner", "admin"],
+  "stock.void": ["owner", "admin"],
+  "stock.opname": ["owner", "admin"],
+  "catalog.manage": ["owner", "admin"],
+  "promo.manage": ["owner", "admin"],
+  "sale.approve_below_cost": ["owner"],
+  "data.export": ["owner", "admin"],
+  "data.import": ["owner"],
+  "data.reset": ["owner"],
+  "users.manage": ["owner"],
+  "settings.manage": ["owner"],
+};
+
+// Accounts without a (known) role get the least privileged one, like the database does
+export const DEFAULT_ROLE: AppRole = "cashier";
+
+export function normalizeRole(role: string | null | undefined): AppRole {
+  return role && role in ROLE_LABELS ? (role as AppRole) : DEFAULT_ROLE;
+}
+
+export function hasPermission(role: AppRole, permission: Permission): boolean {
+  return PERMISSION_ROLES[permission].includes(role);
+}
@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatDateForDb } from "@/lib/dateUtils";
+
+export type PriceChange = Tables<"phone_model_prices">;
+
+/**
+ * SRP in effect on a date: the latest change on or before it. Before the
+ * first recorded change the current SRP is used, like srp_on_date() does.
+ */
+export function getSrpOnDate(history: PriceChange[], date: Date | string, currentSrp: number): number {
+  const day = typeof date === "string" ? date : formatDateForDb(date);
+  let srp: number | null = null;
+  let effectiveDate = "";
+  for (const change of history) {
+    if (change.effective_date <= day && change.effective_date >= effectiveDate) {
+      srp = change.srp;
+      effectiveDate = change.effective_date;
+    }
+  }
+  return srp ?? currentSrp;
+}
+
+/**
+ * Loads the SRP history of the given models, oldest change first
+ */
+export async function fetchPriceHistory(modelIds: string[]): Promise<Map<string, PriceChange[]>> {
+  const historyByModel = new Map<string, PriceChange[]>();
+  if (modelIds.length === 0) return historyByModel;
+
+  const { data, error } = await supabase
+    .from("phone_model_prices")
+    .select("*")
+    .in("phone_model_id", modelIds)
+    .order("effective_date", { ascending: true });
+
+  if (error) throw new Error(`Gagal memuat riwayat harga: ${error.message}`);
+
+  for (const change of data || []) {
+    const history = historyByModel.get(change.phone_model_id) || [];
+    history.push(change);
+    historyByModel.set(change.phone_model_id, history);
+  }
+  return historyByModel;
+}
@@ -0,0 +1,129 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { formatDateForDb } from "@/lib/dateUtils";
+
+export type Promotion = Tables<"promotions">;
+
+export type DiscountType = "percentage" | "fixed";
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: "Persen (%)",
+  fixed: "Potongan (Rp)",
+};
+
+export type PromotionStatus = "running" | "scheduled" | "ended" | "inactive";
+
+export const PROMOTION_STATUS_BADGES: Record<PromotionStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  running: { label: "Berlaku", variant: "default" },
+  scheduled: { label: "Terjadwal", variant: "outline" },
+  ended: { label: "Berakhir", variant: "secondary" },
+  inactive: { label: "Nonaktif", variant: "destructive" },
+};
+
+export function getPromotionStatus(promotion: Promotion, today: Date = new Date()): PromotionStatus {
+  const day = formatDateForDb(today);
+  if (!promotion.is_active) return "inactive";
+  if (promotion.start_date > day) return "scheduled";
+  if (promotion.end_date < day) return "ended";
+  return "running";
+}
+
+/** What a promo is matched against: the item being sold, where and when */
+export interface PromoScope {
+  brand: string;
+  phoneModelId: string;
+  locationId: string;
+}
+
+/** The promo used on a sale, as recorded in the laku event metadata */
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  /** Rupiah taken off one unit */
+  unitDiscount: number;
+}
+
+export function getPromoScope(
+  entry: { phone_models: { id: string; brand: string } | null; stock_locations: { id: string } | null } | null | undefined
+): PromoScope | undefined {
+  if (!entry?.phone_models || !entry.stock_locations) return undefined;
+  return { brand: entry.phone_models.brand, phoneModelId: entry.phone_models.id, locationId: entry.stock_locations.id };
+}
+
+export function isPromotionApplicable(promotion: Promotion, scope: PromoScope, date: Date): boolean {
+  const day = formatDateForDb(date);
+  return promotion.is_active &&
+    promotion.start_date <= day &&
+    promotion.end_date >= day &&
+    (!promotion.brand || promotion.brand === scope.brand) &&
+    (!promotion.phone_model_id || promotion.phone_model_id === scope.phoneModelId) &&
+    (!promotion.location_id || promotion.location_id === scope.locationId);
+}
+
+export function getPromotionDiscount(promotion: Promotion, unitPrice: number): number {
+  const discount = promotion.discount_type === "percentage"
+    ? Math.round((unitPrice * promotion.discount_value) / 100)
+    : promotion.discount_value;
+  return Math.min(discount, unitPrice);
+}
+
+/**
+ * Picks the promo that gives the lowest price for one unit. Promos do not
+ * stack, so at most one is applied to a sale.
+ */
+export function findBestPromotion(
+  promotions: Promotion[],
+  scope: PromoScope | undefined,
+  unitPrice: number,
+  date: Date
+): AppliedPromotion | null {
+  if (!scope) return null;
+  let best: AppliedPromotion | null = null;
+  for (const promotion of promotions) {
+    if (!isPromotionApplicable(promotion, scope, date)) continue;
+    const unitDiscount = getPromotionDiscount(promotion, unitPrice);
+    if (!best || unitDiscount > best.unitDiscount) {
+      best = { id: promotion.id, name: promotion.name, unitDiscount };
+    }
+  }
+  return best;
+}
+
+export function formatPromotionDiscount(promotion: Pick<Promotion, "discount_type" | "discount_value">): string {
+  return promotion.discount_type === "percentage"
+    ? `${promotion.discount_value}%`
+    : `Rp ${promotion.discount_value.toLocaleString("id-ID")}`;
+}
+
+/**
+ * An owner's sign-off on a price below cost. Sales below cost without one are
+ * still recorded, but flagged for review.
+ */
+export interface BelowCostApproval {
+  userId: string;
+  name: string;
+}
+
+export function isBelowCost(price: number, costPrice: number): boolean {
+  return costPrice > 0 && price < costPrice;
+}
+
+/** Metadata recorded on a laku event for its promo and below-cost status */
+export function getPriceRuleMetadata(
+  promotion: AppliedPromotion | null | undefined,
+  qty: number,
+  belowCost: boolean,
+  approval: BelowCostApproval | null | undefined
+) {
+  return {
+    ...(promotion && {
+      promotion_id: promotion.id,
+      promotion_name: promotion.name,
+      promo_discount: promotion.unitDiscount * qty,
+    }),
+    ...(belowCost && {
+      below_cost: true,
+      below_cost_approved_by: approval?.userId ?? null,
+      below_cost_approved_by_name: approval?.name ?? null,
+    }),
+  };
+}
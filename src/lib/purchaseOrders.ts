@@ -0,0 +1,27 @@
+/**
+ * Model, quantity and agreed cost of one purchase order line as entered
+ */
+export interface PurchaseOrderLineInput {
+  phoneModelId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * Progress of a PO as shown to staff. Only open/closed is stored, the rest
+ * follows from how many units were received against it.
+ */
+export type PurchaseOrderProgress = "ordered" | "partial" | "received" | "closed";
+
+export const PURCHASE_ORDER_STATUS_BADGES: Record<PurchaseOrderProgress, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  ordered: { label: "Dipesan", variant: "outline" },
+  partial: { label: "Diterima Sebagian", variant: "default" },
+  received: { label: "Lengkap", variant: "secondary" },
+  closed: { label: "Ditutup", variant: "destructive" },
+};
+
+export function getPurchaseOrderProgress(status: string, ordered: number, received: number): PurchaseOrderProgress {
+  if (received >= ordered) return "received";
+  if (status === "closed") return "closed";
+  return received > 0 ? "partial" : "ordered";
+}
@@ -0,0 +1,60 @@
+import type { PaymentLine } from "@/lib/payments";
+
+export const STORE_NAME = "Indah Cell";
+
+export type ReceiptLayout = "thermal58" | "thermal80" | "a5";
+
+export const RECEIPT_LAYOUTS: Record<ReceiptLayout, { label: string; pageSize: string; width: string }> = {
+  thermal58: { label: "Thermal 58mm", pageSize: "58mm auto", width: "48mm" },
+  thermal80: { label: "Thermal 80mm", pageSize: "80mm auto", width: "72mm" },
+  a5: { label: "A5", pageSize: "A5 portrait", width: "128mm" },
+};
+
+export const WARRANTY_TERMS = [
+  "Garansi toko 7 hari sejak tanggal pembelian untuk kerusakan mesin.",
+  "Garansi tidak berlaku untuk kerusakan akibat jatuh, terkena air, atau segel rusak.",
+  "Klaim garansi wajib membawa nota ini dan unit beserta kelengkapannya.",
+  "Barang yang sudah dibeli tidak dapat ditukar dengan uang.",
+];
+
+export interface ReceiptItem {
+  brand: string;
+  model: string;
+  storage: string | null;
+  color: string | null;
+  /** Empty for accessories */
+  imei: string;
+  qty: number;
+  /** Price before the item discount */
+  listPrice: number;
+  discount: number;
+}
+
+export interface ReceiptData {
+  receiptNumber: string;
+  date: string;
+  recordedAt: string;
+  items: ReceiptItem[];
+  basketDiscount: number;
+  /** Net total of all items, after discounts */
+  price: number;
+  payments: PaymentLine[];
+  /** Set for credit sales; the rest is paid in installments */
+  downPayment: number | null;
+  tradeIn: { imei: string; value: number } | null;
+  locationName: string | null;
+  cashierName: string | null;
+  customerName: string | null;
+  customerPhone: string | null;
+}
+
+const LAYOUT_STORAGE_KEY = "receiptLayout";
+
+export function getSavedReceiptLayout(): ReceiptLayout {
+  const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+  return saved && saved in RECEIPT_LAYOUTS ? (saved as ReceiptLayout) : "thermal58";
+}
+
+export function saveReceiptLayout(layout: ReceiptLayout) {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, layout);
+}
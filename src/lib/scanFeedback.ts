@@ -0,0 +1,47 @@
+/**
+ * Beep and vibration after a scan, so staff scanning a batch know whether
+ * the unit was taken without looking at the screen
+ */
+/** notice: taken, but not the way staff may expect; check the screen */
+export type ScanResult = "success" | "notice" | "error";
+
+let audioContext: AudioContext | null = null;
+
+function beep(frequency: number, durationMs: number) {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  if (!audioContext) audioContext = new AudioContextClass();
+  // Browsers suspend audio until the page had a user gesture; opening the scanner was one
+  if (audioContext.state === "suspended") void audioContext.resume();
+
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.type = "square";
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.1;
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+
+  const now = audioContext.currentTime;
+  oscillator.start(now);
+  oscillator.stop(now + durationMs / 1000);
+}
+
+export function playScanFeedback(result: ScanResult) {
+  try {
+    if (result === "success") {
+      beep(1200, 120);
+      navigator.vibrate?.(80);
+    } else if (result === "notice") {
+      beep(700, 250);
+      navigator.vibrate?.([60, 60, 60]);
+    } else {
+      beep(300, 350);
+      navigator.vibrate?.([120, 80, 120]);
+    }
+  } catch (err) {
+    // Feedback is a nicety; a blocked audio device must not break scanning
+    console.error("Scan feedback error:", err);
+  }
+}
@@ -0,0 +1,99 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StockEvent = Tables<"stock_events">;
+
+/**
+ * Human readable labels for every stock_events.event_type
+ */
+export const EVENT_TYPE_LABELS: Record<string, string> = {
+  masuk: "HP Datang",
+  laku: "Terjual",
+  retur_in: "Retur dari Pelanggan",
+  retur_out: "Retur ke Supplier",
+  transfer_in: "Transfer Masuk",
+  transfer_out: "Transfer Keluar",
+  koreksi: "Koreksi",
+  void: "Pembatalan",
+};
+
+export type ImeiStatus = "tersedia" | "terjual" | "diretur" | "keluar" | "unknown";
+
+export interface ImeiState {
+  status: ImeiStatus;
+  locationId: string | null;
+  phoneModelId: string | null;
+  lastEvent: StockEvent | null;
+  lastSaleEvent: StockEvent | null;
+}
+
+/**
+ * Sorts events chronologically (by business date, then insertion time)
+ */
+export function sortEventsChronologically<T extends Pick<StockEvent, "date" | "created_at">>(events: T[]): T[] {
+  return [...events].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+  });
+}
+
+/**
+ * Maps each cancelled event id to the void event that cancelled it
+ */
+export function getVoidsByEventId<T extends Pick<StockEvent, "event_type" | "voided_event_id">>(events: T[]): Map<number, T> {
+  const voids = new Map<number, T>();
+  for (const event of events) {
+    if (event.event_type === "void" && event.voided_event_id !== null) {
+      voids.set(event.voided_event_id, event);
+    }
+  }
+  return voids;
+}
+
+/**
+ * Replays the event stream of a single IMEI to find out where the unit is
+ * and whether it is still in stock
+ */
+export function resolveImeiState(events: StockEvent[]): ImeiState {
+  const state: ImeiState = {
+    status: "unknown",
+    locationId: null,
+    phoneModelId: null,
+    lastEvent: null,
+    lastSaleEvent: null,
+  };
+
+  const voids = getVoidsByEventId(events);
+  const activeEvents = events.filter(e => e.event_type !== "void" && !voids.has(e.id));
+
+  for (const event of sortEventsChronologically(activeEvents)) {
+    state.phoneModelId = event.phone_model_id;
+    state.lastEvent = event;
+
+    switch (event.event_type) {
+      case "masuk":
+      case "retur_in":
+      case "transfer_in":
+        state.status = "tersedia";
+        state.locationId = event.location_id;
+        break;
+      case "laku":
+        state.status = "terjual";
+        state.locationId = event.location_id;
+        state.lastSaleEvent = event;
+        break;
+      case "retur_out":
+        state.status = "diretur";
+        state.locationId = event.location_id;
+        break;
+      case "transfer_out":
+        // The matching transfer_in moves the unit to its destination
+        break;
+      case "koreksi":
+        state.status = event.qty > 0 ? "tersedia" : "keluar";
+        state.locationId = event.location_id;
+        break;
+    }
+  }
+
+  return state;
+}
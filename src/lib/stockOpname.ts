@@ -0,0 +1,95 @@
+export type OpnameDiscrepancyKind = "missing" | "unexpected" | "wrong_location";
+
+export const DISCREPANCY_LABELS: Record<OpnameDiscrepancyKind, string> = {
+  missing: "Tidak Ditemukan",
+  unexpected: "Tidak Terdaftar",
+  wrong_location: "Salah Lokasi",
+};
+
+export const OPNAME_STATUS_BADGES: Record<string, { label: string; variant: "success" | "warning" | "outline" }> = {
+  open: { label: "Berjalan", variant: "warning" },
+  finalized: { label: "Selesai", variant: "success" },
+  cancelled: { label: "Dibatalkan", variant: "outline" },
+};
+
+/**
+ * A unit the system believes is in stock (night_stock > 0)
+ */
+export interface OpnameStockUnit {
+  imei: string;
+  locationId: string;
+  locationName: string;
+  phoneModelId: string;
+  modelName: string;
+}
+
+export interface OpnameDiscrepancy {
+  kind: OpnameDiscrepancyKind;
+  imei: string;
+  phoneModelId: string | null;
+  modelName: string | null;
+  /** Location where the system has the unit, if it has it in stock anywhere */
+  recordedLocationId: string | null;
+  recordedLocationName: string | null;
+}
+
+/**
+ * Shape of stock_opname_sessions.report
+ */
+export interface OpnameReport {
+  expected_count: number;
+  scanned_count: number;
+  matched_count: number;
+  corrections_count: number;
+  discrepancies: (OpnameDiscrepancy & { approved: boolean })[];
+}
+
+export interface OpnameComparison {
+  expectedCount: number;
+  matchedCount: number;
+  discrepancies: OpnameDiscrepancy[];
+}
+
+/**
+ * Compares the IMEIs scanned at a location against the units the system
+ * has in stock. Unexpected units carry no model yet; the caller can fill it
+ * in from the IMEI's event history.
+ */
+export function compareOpname(locationId: string, scannedImeis: string[], stock: OpnameStockUnit[]): OpnameComparison {
+  const scanned = new Set(scannedImeis);
+  const stockByImei = new Map(stock.map(unit => [unit.imei, unit]));
+  const expected = stock.filter(unit => unit.locationId === locationId);
+
+  const discrepancies: OpnameDiscrepancy[] = [];
+
+  for (const unit of expected) {
+    if (scanned.has(unit.imei)) continue;
+    discrepancies.push({
+      kind: "missing",
+      imei: unit.imei,
+      phoneModelId: unit.phoneModelId,
+      modelName: unit.modelName,
+      recordedLocationId: unit.locationId,
+      recordedLocationName: unit.locationName,
+    });
+  }
+
+  for (const imei of scanned) {
+    const unit = stockByImei.get(imei);
+    if (unit && unit.locationId === locationId) continue;
+    discrepancies.push({
+      kind: unit ? "wrong_location" : "unexpected",
+      imei,
+      phoneModelId: unit?.phoneModelId ?? null,
+      modelName: unit?.modelName ?? null,
+      recordedLocationId: unit?.locationId ?? null,
+      recordedLocationName: unit?.locationName ?? null,
+    });
+  }
+
+  return {
+    expectedCount: expected.length,
+    matchedCount: expected.length - discrepancies.filter(d => d.kind === "missing").length,
+    discrepancies,
+  };
+}
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Supplier = Tables<"suppliers">;
+
+/**
+ * Supplier chosen when receiving stock: either an existing record (id set)
+ * or a new one that is created when the incoming stock is saved
+ */
+export interface SupplierInput {
+  id?: string;
+  name: string;
+  phone?: string | null;
+}
+
+/**
+ * Supplier invoice details entered together with the incoming units
+ */
+export interface PurchaseInput {
+  supplier: SupplierInput;
+  invoiceNumber: string;
+  dueDate: Date | null;
+}
+
+export type PurchaseStatus = "paid" | "unpaid" | "overdue";
+
+export const PURCHASE_STATUS_BADGES: Record<PurchaseStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  paid: { label: "Lunas", variant: "secondary" },
+  unpaid: { label: "Belum Dibayar", variant: "outline" },
+  overdue: { label: "Jatuh Tempo", variant: "destructive" },
+};
+
+export function getPurchaseStatus(purchase: { paid_at: string | null; due_date: string | null }, today: string): PurchaseStatus {
+  if (purchase.paid_at) return "paid";
+  if (purchase.due_date && purchase.due_date < today) return "overdue";
+  return "unpaid";
+}
+
+/**
+ * Returns the id of the given supplier, creating the record first when needed.
+ * A new supplier whose name is already known is linked to the existing record.
+ */
+export async function resolveSupplierId(supplier: SupplierInput): Promise<string> {
+  if (supplier.id) return supplier.id;
+
+  const name = supplier.name.trim();
+
+  const { data, error } = await supabase
+    .from("suppliers")
+    .insert({ name, phone: supplier.phone?.trim() || null })
+    .select("id")
+    .single();
+
+  if (error?.code === "23505") {
+    const { data: existing, error: existingError } = await supabase
+      .from("suppliers")
+      .select("id")
+      .ilike("name", name)
+      .single();
+
+    if (existingError) throw new Error(`Gagal mencari supplier: ${existingError.message}`);
+    return existing.id;
+  }
+  if (error) throw new Error(`Gagal menyimpan supplier: ${error.message}`);
+
+  return data.id;
+}
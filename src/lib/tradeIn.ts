@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isValidImei } from "@/lib/imei";
+import { chunk } from "@/lib/utils";
+
+export type UnitCondition = "new" | "used";
+
+export const CONDITION_LABELS: Record<UnitCondition, string> = {
+  new: "Baru",
+  used: "Bekas",
+};
+
+/**
+ * The customer's used phone taken in as part of a sale
+ */
+export interface TradeInData {
+  imei: string;
+  phoneModelId: string;
+  value: number;
+  notes?: string | null;
+}
+
+/**
+ * Returns the IMEIs that entered stock as used units (trade-ins).
+ * Pass a list of IMEIs to limit the lookup.
+ */
+export async function fetchUsedImeis(imeis?: string[]): Promise<Set<string>> {
+  if (imeis && imeis.length === 0) return new Set();
+
+  const usedMasuk = () => supabase
+    .from("stock_events")
+    .select("imei")
+    .eq("event_type", "masuk")
+    .eq("metadata->>condition", "used");
+
+  const results = await Promise.all(imeis ? chunk(imeis).map(part => usedMasuk().in("imei", part)) : [usedMasuk()]);
+
+  const used = new Set<string>();
+  for (const { data, error } of results) {
+    if (error) throw new Error(`Gagal memuat data HP bekas: ${error.message}`);
+    for (const event of data || []) used.add(event.imei);
+  }
+  return used;
+}
+
+export function isTradeInComplete(tradeIn: TradeInData, price: number): boolean {
+  return isValidImei(tradeIn.imei) && !!tradeIn.phoneModelId && tradeIn.value > 0 && tradeIn.value <= price;
+}
@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getVoidsByEventId } from "@/lib/stockEvents";
+import { chunk } from "@/lib/utils";
+
+/**
+ * Stock events identify a unit by one IMEI. The second IMEI of a dual-SIM
+ * handset and the serial number are kept in unit_identifiers, keyed by that
+ * IMEI, so a lookup by any of the numbers finds the unit.
+ */
+export type UnitIdentifier = Tables<"unit_identifiers">;
+
+/** One unit as entered in a form; imei2 and serialNumber may be left empty */
+export interface UnitInput {
+  imei: string;
+  imei2: string;
+  serialNumber: string;
+}
+
+export const emptyUnit = (): UnitInput => ({ imei: "", imei2: "", serialNumber: "" });
+
+export async function fetchUnitIdentifiers(imeis: string[]): Promise<Map<string, UnitIdentifier>> {
+  const identifiers = new Map<string, UnitIdentifier>();
+  if (imeis.length === 0) return identifiers;
+
+  const results = await Promise.all(chunk(imeis).map(part =>
+    supabase.from("unit_identifiers").select("*").in("imei", part)
+  ));
+
+  for (const { data, error } of results) {
+    if (error) throw new Error(`Gagal memuat IMEI 2: ${error.message}`);
+    for (const identifier of data || []) identifiers.set(identifier.imei, identifier);
+  }
+  return identifiers;
+}
+
+/**
+ * IMEI a unit is recorded under, given its IMEI 2 or serial number.
+ * Any other value is returned unchanged.
+ */
+export async function resolveUnitImei(value: string): Promise<string> {
+  const number = value.trim().toUpperCase();
+  // Only plain IMEIs and serial numbers can be used in the filter below
+  if (!/^[A-Za-z0-9]+$/.test(number)) return number;
+
+  const { data, error } = await supabase
+    .from("unit_identifiers")
+    .select("imei")
+    .or(`imei2.eq.${number},serial_number.eq.${number}`)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Gagal mencari IMEI: ${error.message}`);
+  return data?.imei ?? number;
+}
+
+/**
+ * The numbers that already belong to a unit in stock, as its IMEI or IMEI 2.
+ * Units whose events were all voided may be registered again.
+ */
+export async function findRegisteredNumbers(numbers: string[], excludeImei?: string): Promise<string[]> {
+  if (numbers.length === 0) return [];
+
+  const identifierResults = await Promise.all(chunk(numbers).map(part => {
+    const list = part.join(",");
+    return supabase
+      .from("unit_identifiers")
+      .select("imei, imei2")
+      .or(`imei.in.(${list}),imei2.in.(${list})`);
+  }));
+
+  const identifiers = identifierResults.flatMap(({ data, error }) => {
+    if (error) throw new Error(`Gagal memeriksa IMEI: ${error.message}`);
+    return data || [];
+  });
+
+  // The unit each number belongs to, by its recorded IMEI
+  const unitImeiByNumber = new Map(numbers.map(number => [number, number]));
+  for (const identifier of identifiers) {
+    if (identifier.imei2 && unitImeiByNumber.has(identifier.imei2)) {
+      unitImeiByNumber.set(identifier.imei2, identifier.imei);
+    }
+  }
+
+  const unitImeis = [...new Set(unitImeiByNumber.values())].filter(imei => imei !== excludeImei);
+  if (unitImeis.length === 0) return [];
+
+  const eventResults = await Promise.all(chunk(unitImeis).map(part =>
+    supabase.from("stock_events").select("id, imei, event_type, voided_event_id").in("imei", part)
+  ));
+
+  const events = eventResults.flatMap(({ data, error }) => {
+    if (error) throw new Error(`Gagal memeriksa IMEI: ${error.message}`);
+    return data || [];
+  });
+
+  const voids = getVoidsByEventId(events);
+  const activeImeis = new Set(
+    events.filter(e => e.event_type !== "void" && !voids.has(e.id)).map(e => e.imei)
+  );
+
+  return numbers.filter(number => {
+    const unitImei = unitImeiByNumber.get(number);
+    return unitImei !== excludeImei && activeImeis.has(unitImei);
+  });
+}
+
+/**
+ * Stores the IMEI 2 and serial number of units; units with neither are skipped
+ */
+export async function saveUnitIdentifiers(units: UnitInput[]): Promise<void> {
+  const rows = units
+    .filter(unit => unit.imei && (unit.imei2 || unit.serialNumber.trim()))
+    .map(unit => ({
+      imei: unit.imei,
+      imei2: unit.imei2 || null,
+      serial_number: unit.serialNumber.trim() || null,
+      updated_at: new Date().toISOString()
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("unit_identifiers").upsert(rows, { onConflict: "imei" });
+  if (error) throw new Error(`Gagal menyimpan IMEI 2: ${error.message}`);
+}
+
+/**
+ * Updates the numbers of one unit, moving them along when its IMEI was corrected
+ */
+export async function updateUnitIdentifier(previousImei: string | null, unit: UnitInput): Promise<void> {
+  if (previousImei && previousImei !== unit.imei) {
+    const { error } = await supabase.from("unit_identifiers").delete().eq("imei", previousImei);
+    if (error) throw new Error(`Gagal memperbarui IMEI 2: ${error.message}`);
+  }
+
+  if (!unit.imei2 && !unit.serialNumber.trim()) {
+    const { error } = await supabase.from("unit_identifiers").delete().eq("imei", unit.imei);
+    if (error) throw new Error(`Gagal memperbarui IMEI 2: ${error.message}`);
+    return;
+  }
+
+  await saveUnitIdentifiers([unit]);
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Archive, ArchiveRestore, ArrowLeft, GitMerge, Library, Pencil, Plus, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AddPhoneModelDialog } from "@/components/AddPhoneModelDialog";
+import { EditModelVariantDialog } from "@/components/EditModelVariantDialog";
+import { MergePhoneModelsDialog } from "@/components/MergePhoneModelsDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { isAccessory } from "@/lib/accessories";
+import { CatalogModel, getModelSeries, getVariantLabel, groupCatalog } from "@/lib/catalog";
+import { cn } from "@/lib/utils";
+
+type ArchiveTarget = { kind: 'model'; model: CatalogModel; archive: boolean } | { kind: 'brand'; brand: string };
+
+const Catalog = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('catalog.manage');
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [editingModel, setEditingModel] = useState<CatalogModel | null>(null);
+  const [mergingModel, setMergingModel] = useState<CatalogModel | null>(null);
+  const [archiveTarget, setArchiveTarget] = useState<ArchiveTarget | null>(null);
+
+  const { data: models, isLoading } = useQuery({
+    queryKey: ['phone-models', 'catalog'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('*')
+        .order('brand')
+        .order('model');
+      if (error) throw new Error(`Gagal memuat katalog: ${error.message}`);
+      return data;
+    }
+  });
+
+  // Today's night stock per model and location
+  const { data: stockByModel } = useQuery({
+    queryKey: ['stock-entries', 'catalog'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_entries')
+        .select('phone_model_id, night_stock, stock_locations(name)')
+        .eq('date', format(new Date(), 'yyyy-MM-dd'))
+        .gt('night_stock', 0)
+        .not('imei', 'is', null);
+      if (error) throw new Error(`Gagal memuat stok: ${error.message}`);
+
+      const stock = new Map<string, Map<string, number>>();
+      for (const entry of data || []) {
+        const locations = stock.get(entry.phone_model_id) ?? new Map<string, number>();
+        const location = entry.stock_locations?.name || '-';
+        locations.set(location, (locations.get(location) || 0) + entry.night_stock);
+        stock.set(entry.phone_model_id, locations);
+      }
+      return stock;
+    }
+  });
+
+  const getStockTotal = (modelId: string) =>
+    [...(stockByModel?.get(modelId)?.values() ?? [])].reduce((sum, qty) => sum + qty, 0);
+
+  const searchTerm = search.trim().toLowerCase();
+  const listedModels = (models || []).filter(model => {
+    if (!showArchived && model.archived_at) return false;
+    if (!searchTerm) return true;
+    return [model.brand, getModelSeries(model), model.model, model.ram, model.storage_capacity, model.color, model.barcode]
+      .some(value => value?.toLowerCase().includes(searchTerm));
+  });
+  const catalog = groupCatalog(listedModels);
+
+  const archiveMutation = useMutation({
+    mutationFn: async (target: ArchiveTarget) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const archive = target.kind === 'brand' || target.archive;
+      const values = {
+        archived_at: archive ? new Date().toISOString() : null,
+        archived_by: archive ? user?.id ?? null : null,
+        updated_at: new Date().toISOString()
+      };
+
+      const { error } = target.kind === 'brand'
+        ? await supabase.from('phone_models').update(values).eq('brand', target.brand).is('archived_at', null)
+        : await supabase.from('phone_models').update(values).eq('id', target.model.id);
+
+      if (error) throw new Error(`Gagal memperbarui arsip: ${error.message}`);
+    },
+    onSuccess: (_, target) => {
+      const description = target.kind === 'brand'
+        ? `Semua model ${target.brand} diarsipkan`
+        : `${target.model.brand} ${target.model.model} ${target.archive ? 'diarsipkan' : 'dipulihkan'}`;
+      toast({ title: "Berhasil", description });
+      queryClient.invalidateQueries({ queryKey: ['phone-models'] });
+      queryClient.invalidateQueries({ queryKey: ['brands'] });
+      setArchiveTarget(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const renderVariant = (variant: CatalogModel) => {
+    const locations = [...(stockByModel?.get(variant.id) ?? [])];
+    const total = getStockTotal(variant.id);
+    return (
+      <li
+        key={variant.id}
+        className={cn(
+          "flex flex-col gap-2 rounded-lg border border-border p-3 sm:flex-row sm:items-center sm:justify-between",
+          variant.archived_at && "opacity-60"
+        )}
+      >
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <button className="font-medium hover:underline text-left" onClick={() => navigate(`/models/${variant.id}`)}>
+              {getVariantLabel(variant)}
+            </button>
+            {isAccessory(variant) && <Badge variant="secondary" className="text-[10px]">Aksesoris</Badge>}
+            {variant.archived_at && <Badge variant="outline" className="text-[10px]">Diarsipkan</Badge>}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            SRP {variant.srp ? `Rp ${variant.srp.toLocaleString('id-ID')}` : '-'}
+            {variant.barcode && ` • ${variant.barcode}`}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {locations.length === 0 ? (
+              <span className="text-xs text-muted-foreground">Stok kosong</span>
+            ) : (
+              locations.map(([location, qty]) => (
+                <Badge key={location} variant="outline" className="text-xs font-normal">
+                  {location}: {qty}
+                </Badge>
+              ))
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {total > 0 && <span className="text-sm font-semibold mr-2">{total} unit</span>}
+          {canManage && (
+            <>
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" onClick={() => setEditingModel(variant)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Gabungkan" onClick={() => setMergingModel(variant)}>
+                <GitMerge className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={variant.archived_at ? 'Pulihkan' : 'Arsipkan'}
+                onClick={() => setArchiveTarget({ kind: 'model', model: variant, archive: !variant.archived_at })}
+              >
+                {variant.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              </Button>
+            </>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Katalog</h1>
+              <p className="text-sm text-muted-foreground truncate">Model per merk, seri dan varian</p>
+            </div>
+            {canManage && (
+              <Button size="sm" onClick={() => setIsAddOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Model Baru
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Cari merk, seri, model, warna..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived-models" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived-models" className="text-sm">Tampilkan arsip</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : catalog.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {searchTerm ? 'Model tidak ditemukan.' : 'Belum ada model.'}
+          </div>
+        ) : (
+          catalog.map((group) => {
+            const variants = group.series.flatMap(s => s.models.flatMap(m => m.variants));
+            const units = variants.reduce((sum, v) => sum + getStockTotal(v.id), 0);
+            const hasActive = variants.some(v => !v.archived_at);
+            return (
+              <Card key={group.brand}>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Library className="h-5 w-5" />
+                      {group.brand}
+                    </CardTitle>
+                    <CardDescription>{variants.length} varian • {units} unit di stok</CardDescription>
+                  </div>
+                  {canManage && hasActive && (
+                    <Button variant="ghost" size="sm" onClick={() => setArchiveTarget({ kind: 'brand', brand: group.brand })}>
+                      <Archive className="h-4 w-4 mr-2" />
+                      Arsipkan Merk
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {group.series.map((series) => (
+                    <section key={series.name} className="space-y-3">
+                      <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{series.name}</h3>
+                      {series.models.map((model) => (
+                        <div key={model.name} className="space-y-2">
+                          <div className="font-medium">{model.name}</div>
+                          <ul className="space-y-2">
+                            {model.variants.map(renderVariant)}
+                          </ul>
+                        </div>
+                      ))}
+                    </section>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+
+      {isAddOpen && <AddPhoneModelDialog open={true} onOpenChange={setIsAddOpen} />}
+
+      <EditModelVariantDialog
+        open={!!editingModel}
+        onOpenChange={(isOpen) => !isOpen && setEditingModel(null)}
+        phoneModel={editingModel}
+      />
+
+      <MergePhoneModelsDialog
+        open={!!mergingModel}
+        onOpenChange={(isOpen) => !isOpen && setMergingModel(null)}
+        phoneModel={mergingModel}
+        models={models || []}
+      />
+
+      <AlertDialog open={!!archiveTarget} onOpenChange={(isOpen) => !isOpen && setArchiveTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {archiveTarget?.kind === 'brand'
+                ? `Arsipkan semua model ${archiveTarget.brand}?`
+                : `${archiveTarget?.archive ? 'Arsipkan' : 'Pulihkan'} ${archiveTarget?.model.brand} ${archiveTarget?.model.model} (${archiveTarget ? getVariantLabel(archiveTarget.model) : ''})?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {archiveTarget?.kind === 'model' && !archiveTarget.archive
+                ? 'Model akan muncul lagi saat input stok dan PO.'
+                : 'Model yang diarsipkan tidak muncul lagi saat input stok dan PO. Stok yang tersisa tetap bisa dijual dan riwayatnya tetap tersimpan.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => archiveTarget && archiveMutation.mutate(archiveTarget)}
+              disabled={archiveMutation.isPending}
+            >
+              {archiveTarget?.kind === 'model' && !archiveTarget.archive ? 'Pulihkan' : 'Arsipkan'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Catalog;
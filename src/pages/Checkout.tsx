@@ -0,0 +1,462 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowLeft, Camera, Plus, Search, ShoppingCart, Tag, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { CustomerPicker } from "@/components/CustomerPicker";
+import { PaymentLinesInput } from "@/components/PaymentLinesInput";
+import { ReceiptDialog } from "@/components/ReceiptDialog";
+import type { StockEntry } from "@/components/StockTable";
+import { supabase } from "@/integrations/supabase/client";
+import { useCheckout } from "@/hooks/useCheckout";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePromotions } from "@/hooks/usePromotions";
+import { useToast } from "@/hooks/use-toast";
+import { fetchLatestCostPrices, isAccessory } from "@/lib/accessories";
+import { CartLine, allocateBasketDiscount, getLineSubtotal, getLineTotal } from "@/lib/cart";
+import type { CustomerInput } from "@/lib/customers";
+import { PaymentLine, getPaymentTotal, settlePayments } from "@/lib/payments";
+import { findBestPromotion, getPromoScope, isBelowCost } from "@/lib/promotions";
+import { resolveUnitImei } from "@/lib/unitIdentifiers";
+
+type CheckoutEntry = StockEntry & {
+  phone_models: StockEntry['phone_models'] & { barcode: string | null; is_serialized: boolean };
+};
+
+const DEFAULT_PAYMENTS: PaymentLine[] = [{ method: 'cash', amount: 0, reference: '' }];
+
+const formatAmount = (amount: number) => amount ? amount.toLocaleString('id-ID') : '';
+
+const parseAmount = (value: string) => parseInt(value.replace(/\D/g, '')) || 0;
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { can, profile } = usePermissions();
+  const [locationId, setLocationId] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [basketDiscount, setBasketDiscount] = useState(0);
+  const [customer, setCustomer] = useState<CustomerInput | null>(null);
+  const [payments, setPayments] = useState<PaymentLine[]>(DEFAULT_PAYMENTS);
+  const [belowCostApproved, setBelowCostApproved] = useState(false);
+  const [receiptEventId, setReceiptEventId] = useState<number | null>(null);
+  const { data: promotions } = usePromotions({ activeOnly: true });
+
+  // Preselect the user's home location
+  useEffect(() => {
+    if (!locationId && profile?.home_location_id) {
+      setLocationId(profile.home_location_id);
+    }
+  }, [locationId, profile?.home_location_id]);
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_locations')
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: stock, isLoading } = useQuery({
+    queryKey: ['stock-entries', 'checkout', locationId],
+    queryFn: async () => {
+      const { data: entries, error } = await supabase
+        .from('stock_entries')
+        .select(`
+          *,
+          stock_locations(id, name),
+          phone_models(id, brand, model, storage_capacity, color, srp, barcode, is_serialized)
+        `)
+        .eq('date', format(new Date(), 'yyyy-MM-dd'))
+        .eq('location_id', locationId)
+        .gt('night_stock', 0)
+        .not('imei', 'is', null);
+
+      if (error) throw new Error(`Gagal memuat stok: ${error.message}`);
+
+      const accessoryModelIds = (entries || []).filter(e => isAccessory(e.phone_models)).map(e => e.phone_model_id);
+      const costByModel = await fetchLatestCostPrices([...new Set(accessoryModelIds)]);
+
+      return { entries: (entries || []) as CheckoutEntry[], costByModel };
+    },
+    enabled: !!locationId
+  });
+
+  const resetCart = () => {
+    setLines([]);
+    setBasketDiscount(0);
+    setCustomer(null);
+    setPayments(DEFAULT_PAYMENTS);
+    setBelowCostApproved(false);
+  };
+
+  const checkout = useCheckout({
+    onSold: (saleEventId) => {
+      setReceiptEventId(saleEventId);
+      resetCart();
+    }
+  });
+
+  const handleLocationChange = (value: string) => {
+    setLocationId(value);
+    resetCart();
+  };
+
+  const addEntry = (entry: CheckoutEntry) => {
+    const existing = lines.find(line => line.entry.id === entry.id);
+    if (existing) {
+      if (entry.imei || existing.qty >= entry.night_stock) {
+        toast({ title: "Gagal", description: "Stok barang ini sudah masuk keranjang semua", variant: "destructive" });
+        return;
+      }
+      setLines(lines.map(line => (line.entry.id === entry.id ? { ...line, qty: line.qty + 1 } : line)));
+    } else {
+      const unitCost = entry.imei ? entry.cost_price : stock?.costByModel.get(entry.phone_models.id) || 0;
+      const promotion = findBestPromotion(promotions || [], getPromoScope(entry), entry.phone_models.srp, new Date());
+      const unitPrice = entry.phone_models.srp - (promotion?.unitDiscount || 0);
+      setLines([...lines, { entry, qty: 1, unitPrice, discount: 0, unitCost, promotion }]);
+    }
+    setSearchTerm("");
+  };
+
+  const handleScan = async (code: string) => {
+    let entry = stock?.entries.find(e => e.imei === code || e.phone_models.barcode === code);
+    if (!entry) {
+      // The scanned number may be the unit's IMEI 2 or serial number
+      try {
+        const unitImei = await resolveUnitImei(code);
+        entry = stock?.entries.find(e => e.imei === unitImei);
+      } catch (error) {
+        toast({ title: "Gagal", description: (error as Error).message, variant: "destructive" });
+        return;
+      }
+    }
+    if (entry) addEntry(entry);
+    else toast({ title: "Gagal", description: `Barang dengan kode ${code} tidak ada di stok lokasi ini`, variant: "destructive" });
+  };
+
+  const updateLine = (index: number, changes: Partial<CartLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const matches = term
+    ? (stock?.entries || []).filter(entry =>
+        entry.imei?.includes(term) ||
+        entry.phone_models.barcode === searchTerm.trim() ||
+        `${entry.phone_models.brand} ${entry.phone_models.model}`.toLowerCase().includes(term)
+      ).slice(0, 8)
+    : [];
+
+  const subtotal = lines.reduce((sum, line) => sum + getLineTotal(line), 0);
+  const grandTotal = Math.max(subtotal - basketDiscount, 0);
+  const settledPayments = settlePayments(payments, grandTotal);
+  // Checked after each line's share of the basket discount, like the saved sale
+  const basketShares = allocateBasketDiscount(lines.map(getLineTotal), basketDiscount);
+  const belowCostLines = lines.filter((line, index) =>
+    isBelowCost(getLineTotal(line) - basketShares[index], line.unitCost * line.qty));
+  const isCheckoutValid =
+    lines.length > 0 &&
+    lines.every(line => line.qty >= 1 && line.qty <= line.entry.night_stock) &&
+    basketDiscount <= subtotal &&
+    getPaymentTotal(settledPayments) === grandTotal;
+
+  const handleCheckout = () => {
+    checkout.mutate({
+      lines,
+      basketDiscount,
+      date: new Date(),
+      customer,
+      payments: settledPayments,
+      belowCostApproval: belowCostApproved && profile
+        ? { userId: profile.user_id, name: profile.full_name || '' }
+        : null
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Kasir</h1>
+              <p className="text-sm text-muted-foreground truncate">Jual beberapa barang dalam satu nota</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 grid gap-6 lg:grid-cols-[1fr_380px]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Search className="h-5 w-5" />
+                Tambah Barang
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Lokasi</Label>
+                <Select value={locationId} onValueChange={handleLocationChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pilih lokasi" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations?.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Cari IMEI, barcode, atau nama barang..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && searchTerm.trim() && handleScan(searchTerm.trim())}
+                    className="pl-10"
+                    disabled={!locationId}
+                  />
+                </div>
+                <Button variant="outline" size="icon" onClick={() => setIsScannerOpen(true)} disabled={!locationId}>
+                  <Camera className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {isLoading && locationId ? (
+                <div className="h-12 bg-muted rounded animate-pulse" />
+              ) : term && matches.length === 0 ? (
+                <div className="text-center py-4 text-sm text-muted-foreground">
+                  Tidak ada stok yang cocok.
+                </div>
+              ) : matches.length > 0 && (
+                <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+                  {matches.map((entry) => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 p-3 text-left hover:bg-muted/30"
+                      onClick={() => addEntry(entry)}
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium text-sm truncate">
+                          {entry.phone_models.brand} {entry.phone_models.model}
+                          {entry.phone_models.storage_capacity && ` ${entry.phone_models.storage_capacity}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground font-mono truncate">
+                          {entry.imei || `Stok ${entry.night_stock} pcs`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-sm">Rp {entry.phone_models.srp.toLocaleString('id-ID')}</span>
+                        <Plus className="h-4 w-4" />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShoppingCart className="h-5 w-5" />
+                Keranjang
+                {lines.length > 0 && <Badge variant="secondary">{lines.length} item</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {lines.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Keranjang masih kosong. Cari atau scan barang untuk menambahkan.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {lines.map((line, index) => (
+                    <div key={line.entry.id} className="rounded-lg border border-border/50 p-3 space-y-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium text-sm">
+                            {line.entry.phone_models.brand} {line.entry.phone_models.model}
+                            {line.entry.phone_models.storage_capacity && ` ${line.entry.phone_models.storage_capacity}`}
+                          </div>
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {line.entry.imei || `Stok ${line.entry.night_stock} pcs`}
+                          </div>
+                          {line.promotion && (
+                            <div className="flex items-center gap-1 text-xs text-primary">
+                              <Tag className="h-3 w-3" />
+                              {line.promotion.name}
+                            </div>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Jumlah</Label>
+                          <Input
+                            inputMode="numeric"
+                            value={line.qty || ''}
+                            onChange={(e) => updateLine(index, { qty: parseAmount(e.target.value) })}
+                            disabled={!!line.entry.imei}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Harga Satuan</Label>
+                          <Input
+                            inputMode="numeric"
+                            value={formatAmount(line.unitPrice)}
+                            onChange={(e) => updateLine(index, { unitPrice: parseAmount(e.target.value) })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Diskon</Label>
+                          <Input
+                            inputMode="numeric"
+                            value={formatAmount(line.discount)}
+                            onChange={(e) => updateLine(index, { discount: parseAmount(e.target.value) })}
+                            placeholder="0"
+                          />
+                        </div>
+                      </div>
+
+                      {line.qty > line.entry.night_stock && (
+                        <p className="text-xs text-destructive">Stok tidak cukup</p>
+                      )}
+                      {belowCostLines.includes(line) && (
+                        <p className="text-xs text-destructive">Harga di bawah modal</p>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {line.discount > 0 && `Rp ${getLineSubtotal(line).toLocaleString('id-ID')} - Rp ${line.discount.toLocaleString('id-ID')}`}
+                        </span>
+                        <span className="font-medium">Rp {getLineTotal(line).toLocaleString('id-ID')}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="h-fit lg:sticky lg:top-24">
+          <CardHeader>
+            <CardTitle>Pembayaran</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>Rp {subtotal.toLocaleString('id-ID')}</span>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="basket-discount">Diskon Nota (Rp)</Label>
+                <Input
+                  id="basket-discount"
+                  inputMode="numeric"
+                  value={formatAmount(basketDiscount)}
+                  onChange={(e) => setBasketDiscount(parseAmount(e.target.value))}
+                  placeholder="0"
+                />
+                {basketDiscount > subtotal && (
+                  <p className="text-xs text-destructive">Diskon nota melebihi total belanja</p>
+                )}
+              </div>
+              <div className="flex justify-between text-lg font-bold pt-2 border-t border-border">
+                <span>Total</span>
+                <span>Rp {grandTotal.toLocaleString('id-ID')}</span>
+              </div>
+            </div>
+
+            {belowCostLines.length > 0 && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 space-y-2 text-sm">
+                <div className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {belowCostLines.length} item di bawah modal
+                </div>
+                {can('sale.approve_below_cost') ? (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="approve-below-cost"
+                      checked={belowCostApproved}
+                      onCheckedChange={(checked) => setBelowCostApproved(checked === true)}
+                    />
+                    <Label htmlFor="approve-below-cost" className="font-normal cursor-pointer">
+                      Saya menyetujui harga ini sebagai pemilik
+                    </Label>
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Penjualan ini akan ditandai untuk ditinjau pemilik.</p>
+                )}
+              </div>
+            )}
+
+            <CustomerPicker value={customer} onChange={setCustomer} />
+
+            <PaymentLinesInput price={grandTotal} value={payments} onChange={setPayments} />
+
+            <Button
+              className="w-full"
+              onClick={handleCheckout}
+              disabled={!isCheckoutValid || checkout.isPending}
+            >
+              {checkout.isPending ? 'Menyimpan...' : `Bayar Rp ${grandTotal.toLocaleString('id-ID')}`}
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+
+      <BarcodeScanner
+        open={isScannerOpen}
+        onOpenChange={setIsScannerOpen}
+        onScanSuccess={handleScan}
+        kind="product"
+        title="Scan Barang"
+        description="Arahkan kamera ke barcode IMEI atau kemasan"
+      />
+
+      <ReceiptDialog
+        open={receiptEventId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceiptEventId(null)}
+        saleEventId={receiptEventId}
+      />
+    </div>
+  );
+};
+
+export default Checkout;
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, MapPin, Pencil, Phone, ShoppingBag, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { CreditSaleList } from "@/components/CreditSaleList";
+import { useToast } from "@/hooks/use-toast";
+import { useCreditSales } from "@/hooks/useCreditSales";
+import { normalizePhone } from "@/lib/customers";
+import { formatDateForDisplay, parseDbDate } from "@/lib/dateUtils";
+import { cn } from "@/lib/utils";
+
+const CustomerDetail = () => {
+  const { customerId = "" } = useParams<{ customerId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+
+  const { data: customer, isLoading } = useQuery({
+    queryKey: ['customers', 'detail', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', customerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!customerId
+  });
+
+  const { data: purchases, isLoading: purchasesLoading } = useQuery({
+    queryKey: ['stock-events', 'customer-purchases', customerId],
+    queryFn: async () => {
+      const { data: sales, error } = await supabase
+        .from('stock_events')
+        .select(`
+          id, date, imei, metadata, created_at,
+          stock_locations(name),
+          phone_models(brand, model, storage_capacity, color)
+        `)
+        .eq('customer_id', customerId)
+        .eq('event_type', 'laku')
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      if (!sales || sales.length === 0) return [];
+
+      const { data: voids, error: voidsError } = await supabase
+        .from('stock_events')
+        .select('voided_event_id')
+        .eq('event_type', 'void')
+        .in('voided_event_id', sales.map(s => s.id));
+
+      if (voidsError) throw voidsError;
+      const voidedIds = new Set((voids || []).map(v => v.voided_event_id));
+
+      return sales.map(sale => ({
+        ...sale,
+        sellingPrice: (sale.metadata as { selling_price?: number } | null)?.selling_price ?? 0,
+        voided: voidedIds.has(sale.id),
+      }));
+    },
+    enabled: !!customerId
+  });
+
+  const { data: credits } = useCreditSales({ customerId });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('customers')
+        .update({
+          name: name.trim(),
+          phone: normalizePhone(phone),
+          address: address.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', customerId);
+
+      if (error?.code === '23505') throw new Error('No. HP sudah dipakai pelanggan lain');
+      if (error) throw new Error(`Gagal menyimpan pelanggan: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "Data pelanggan diperbarui" });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      setIsEditing(false);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const startEditing = () => {
+    setName(customer?.name || "");
+    setPhone(customer?.phone || "");
+    setAddress(customer?.address || "");
+    setIsEditing(true);
+  };
+
+  const activePurchases = (purchases || []).filter(p => !p.voided);
+  const totalSpent = activePurchases.reduce((sum, p) => sum + p.sellingPrice, 0);
+  const outstanding = (credits || []).reduce((sum, c) => sum + c.outstanding, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">{customer?.name || 'Pelanggan'}</h1>
+              <p className="text-sm text-muted-foreground truncate">Detail pelanggan</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-20 bg-muted rounded" />
+              </div>
+            ))}
+          </div>
+        ) : !customer ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Pelanggan tidak ditemukan.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>{customer.name}</CardTitle>
+                  <CardDescription>
+                    {activePurchases.length} pembelian • Rp {totalSpent.toLocaleString('id-ID')}
+                  </CardDescription>
+                </div>
+                {!isEditing && (
+                  <Button variant="outline" size="sm" onClick={startEditing}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isEditing ? (
+                  <div className="space-y-3 max-w-md">
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-name">Nama</Label>
+                      <Input id="customer-name" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-phone">No. HP</Label>
+                      <Input
+                        id="customer-phone"
+                        inputMode="tel"
+                        value={phone}
+                        onChange={(e) => setPhone(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-address">Alamat</Label>
+                      <Textarea
+                        id="customer-address"
+                        value={address}
+                        onChange={(e) => setAddress(e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setIsEditing(false)}>
+                        Batal
+                      </Button>
+                      <Button
+                        onClick={() => updateMutation.mutate()}
+                        disabled={!name.trim() || updateMutation.isPending}
+                      >
+                        {updateMutation.isPending ? "Menyimpan..." : "Simpan"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      {customer.phone || '-'}
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                      <span className="whitespace-pre-line">{customer.address || '-'}</span>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {credits && credits.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Wallet className="h-5 w-5" />
+                    Kredit
+                  </CardTitle>
+                  <CardDescription>
+                    Sisa piutang: <span className="font-semibold text-foreground">Rp {outstanding.toLocaleString('id-ID')}</span>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CreditSaleList credits={credits} showCustomer={false} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShoppingBag className="h-5 w-5" />
+                  Riwayat Pembelian
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {purchasesLoading ? (
+                  <div className="h-20 bg-muted rounded animate-pulse" />
+                ) : !purchases || purchases.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Belum ada pembelian.
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {purchases.map((purchase) => (
+                      <div
+                        key={purchase.id}
+                        className={cn(
+                          "flex items-center justify-between gap-4 rounded-lg border border-border p-3",
+                          purchase.voided && "opacity-60"
+                        )}
+                      >
+                        <div className="min-w-0">
+                          <div className={cn("font-medium", purchase.voided && "line-through")}>
+                            {purchase.phone_models?.brand} {purchase.phone_models?.model}
+                            {purchase.phone_models?.storage_capacity && ` ${purchase.phone_models.storage_capacity}`}
+                          </div>
+                          <Link
+                            to={`/imei/${purchase.imei}`}
+                            className="text-xs font-mono text-primary hover:underline"
+                          >
+                            {purchase.imei}
+                          </Link>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDateForDisplay(parseDbDate(purchase.date))}
+                            {purchase.stock_locations?.name && ` • ${purchase.stock_locations.name}`}
+                          </div>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <div className="font-semibold">Rp {purchase.sellingPrice.toLocaleString('id-ID')}</div>
+                          {purchase.voided && (
+                            <Badge variant="destructive" className="text-xs">Dibatalkan</Badge>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CustomerDetail;
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Search, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+
+const Customers = () => {
+  const [search, setSearch] = useState("");
+  const navigate = useNavigate();
+
+  // PostgREST filter syntax uses these characters, so they are stripped from the term
+  const term = search.trim().replace(/[,()%]/g, "");
+
+  const { data: customers, isLoading } = useQuery({
+    queryKey: ['customers', 'list', term],
+    queryFn: async () => {
+      let query = supabase
+        .from('customers')
+        .select('*, stock_events(count)')
+        .eq('stock_events.event_type', 'laku')
+        .order('name')
+        .limit(100);
+
+      if (term) query = query.or(`name.ilike.%${term}%,phone.ilike.%${term}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Pelanggan</h1>
+              <p className="text-sm text-muted-foreground truncate">Data pembeli untuk garansi dan follow-up</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Cari nama atau no. HP"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Daftar Pelanggan
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-14 bg-muted rounded" />
+                  </div>
+                ))}
+              </div>
+            ) : !customers || customers.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada pelanggan.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {customers.map((customer) => {
+                  const purchases = customer.stock_events?.[0]?.count ?? 0;
+                  return (
+                    <button
+                      key={customer.id}
+                      type="button"
+                      onClick={() => navigate(`/customers/${customer.id}`)}
+                      className="w-full flex items-center justify-between gap-4 rounded-lg border border-border p-3 text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium">{customer.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {[customer.phone, customer.address].filter(Boolean).join(' • ') || '-'}
+                        </div>
+                      </div>
+                      <Badge variant={purchases > 1 ? "success" : "secondary"} className="shrink-0">
+                        {purchases} pembelian
+                      </Badge>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Customers;
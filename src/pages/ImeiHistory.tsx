@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { ArrowLeft, Ban, History, MapPin, Printer, Truck, User, UserRound } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ReceiptDialog } from "@/components/ReceiptDialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useProfiles } from "@/hooks/useProfiles";
+import { formatDateForDisplay, parseDbDate } from "@/lib/dateUtils";
+import { formatPaymentLine, getSalePayments } from "@/lib/payments";
+import { CONDITION_LABELS, UnitCondition } from "@/lib/tradeIn";
+import { EVENT_TYPE_LABELS, getVoidsByEventId, resolveImeiState, sortEventsChronologically } from "@/lib/stockEvents";
+import { fetchUnitIdentifiers, resolveUnitImei } from "@/lib/unitIdentifiers";
+import { cn } from "@/lib/utils";
+
+const EVENT_COLORS: Record<string, string> = {
+  masuk: "bg-green-500",
+  laku: "bg-red-500",
+  retur_in: "bg-orange-500",
+  retur_out: "bg-orange-700",
+  transfer_in: "bg-blue-500",
+  transfer_out: "bg-blue-300",
+  koreksi: "bg-yellow-500",
+};
+
+const STATUS_LABELS: Record<string, { label: string; variant: "success" | "destructive" | "warning" | "outline" }> = {
+  tersedia: { label: "Tersedia", variant: "success" },
+  terjual: { label: "Terjual", variant: "destructive" },
+  diretur: { label: "Diretur ke Supplier", variant: "warning" },
+  keluar: { label: "Keluar", variant: "outline" },
+  unknown: { label: "Tidak Diketahui", variant: "outline" },
+};
+
+const PRICE_KEYS = ['selling_price', 'cost_price', 'srp', 'profit_loss', 'refund_amount', 'down_payment', 'trade_in_value', 'list_price', 'line_discount', 'basket_discount', 'promo_discount'];
+
+const METADATA_LABELS: Record<string, string> = {
+  selling_price: "Harga Jual",
+  cost_price: "Harga Modal",
+  srp: "SRP",
+  profit_loss: "Laba/Rugi",
+  list_price: "Harga Normal",
+  line_discount: "Diskon Item",
+  basket_discount: "Diskon Nota",
+  promotion_name: "Promo",
+  promo_discount: "Potongan Promo",
+  below_cost: "Di Bawah Modal",
+  below_cost_approved_by_name: "Disetujui Oleh",
+  refund_amount: "Refund",
+  reason: "Alasan",
+  payments: "Pembayaran",
+  payment_type: "Jenis Penjualan",
+  down_payment: "DP",
+  trade_in_imei: "IMEI Tukar Tambah",
+  trade_in_value: "Nilai Tukar Tambah",
+  trade_in_sold_imei: "Tukar Tambah untuk",
+  condition: "Kondisi",
+  source_location_name: "Dari",
+  destination_location_name: "Ke",
+};
+
+// Internal references are not useful to show to staff
+const HIDDEN_METADATA_KEYS = ['source_location_id', 'destination_location_id', 'sale_event_id', 'trade_in_sale_event_id', 'purchase_event_id', 'promotion_id', 'below_cost_approved_by'];
+
+const formatMetadataValue = (key: string, value: Json) => {
+  if (key === 'condition' && typeof value === 'string') {
+    return CONDITION_LABELS[value as UnitCondition] || value;
+  }
+  if (key === 'payments') {
+    return getSalePayments({ payments: value }).map(formatPaymentLine).join(', ') || '-';
+  }
+  if (PRICE_KEYS.includes(key) && typeof value === 'number') {
+    return `Rp ${value.toLocaleString('id-ID')}`;
+  }
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'boolean') return value ? 'Ya' : 'Tidak';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const ImeiHistory = () => {
+  const { imei = "" } = useParams<{ imei: string }>();
+  const navigate = useNavigate();
+  const { getUserName } = useProfiles();
+  const { can } = usePermissions();
+  const [receiptEventId, setReceiptEventId] = useState<number | null>(null);
+
+  const { data: unit } = useQuery({
+    queryKey: ['unit-identifiers', imei],
+    queryFn: async () => {
+      const unitImei = await resolveUnitImei(imei);
+      const identifiers = await fetchUnitIdentifiers([unitImei]);
+      return { imei: unitImei, identifier: identifiers.get(unitImei) ?? null };
+    },
+    enabled: !!imei
+  });
+
+  // A link or scan by IMEI 2 or serial number lands on the unit's own history
+  useEffect(() => {
+    if (unit && unit.imei !== imei) navigate(`/imei/${unit.imei}`, { replace: true });
+  }, [unit, imei, navigate]);
+
+  const { data: events, isLoading } = useQuery({
+    queryKey: ['stock-events', 'imei-history', imei],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_events')
+        .select(`
+          *,
+          stock_locations(id, name),
+          phone_models(id, brand, model, storage_capacity, color),
+          customers(id, name, phone),
+          purchases(id, invoice_number, suppliers(id, name))
+        `)
+        .eq('imei', imei);
+
+      if (error) throw error;
+      return sortEventsChronologically(data || []);
+    },
+    enabled: !!imei
+  });
+
+  const state = events && events.length > 0 ? resolveImeiState(events) : null;
+  const phoneModel = events?.[events.length - 1]?.phone_models;
+  const currentLocation = events?.find(e => e.location_id === state?.locationId)?.stock_locations?.name;
+  const status = STATUS_LABELS[state?.status || 'unknown'];
+
+  // Void events are rendered on the event they cancel instead of as their own entry
+  const voids = getVoidsByEventId(events || []);
+  const timelineEvents = (events || []).filter(e => e.event_type !== 'void');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Riwayat IMEI</h1>
+              <p className="text-sm text-muted-foreground font-mono truncate">
+                {[imei, unit?.identifier?.imei2].filter(Boolean).join(' / ')}
+                {unit?.identifier?.serial_number && ` • S/N ${unit.identifier.serial_number}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-20 bg-muted rounded" />
+              </div>
+            ))}
+          </div>
+        ) : !events || events.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Tidak ada riwayat untuk IMEI ini.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {phoneModel?.brand} {phoneModel?.model}
+                </CardTitle>
+                <CardDescription>
+                  {[phoneModel?.storage_capacity, phoneModel?.color].filter(Boolean).join(' • ') || '-'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center gap-3">
+                <Badge variant={status.variant}>{status.label}</Badge>
+                {currentLocation && (
+                  <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    {currentLocation}
+                  </span>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  {timelineEvents.length} transaksi
+                </span>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="relative border-l border-border ml-2 space-y-6">
+                  {timelineEvents.map((event) => {
+                    const voidEvent = voids.get(event.id);
+                    const voidReason = (voidEvent?.metadata as { reason?: string } | null)?.reason;
+                    const metadata = (event.metadata && typeof event.metadata === 'object' && !Array.isArray(event.metadata)
+                      ? event.metadata
+                      : {}) as Record<string, Json>;
+                    const metadataEntries = Object.entries(metadata)
+                      .filter(([key, value]) => !HIDDEN_METADATA_KEYS.includes(key) && value !== null && value !== '');
+
+                    return (
+                      <li key={event.id} className="ml-6">
+                        <span className={cn(
+                          "absolute -left-[7px] mt-1.5 h-3.5 w-3.5 rounded-full border-2 border-background",
+                          voidEvent ? "bg-muted-foreground" : EVENT_COLORS[event.event_type] || "bg-muted-foreground"
+                        )} />
+                        <div className={cn("flex flex-wrap items-center gap-2", voidEvent && "opacity-60")}>
+                          <span className={cn("font-semibold", voidEvent && "line-through")}>
+                            {EVENT_TYPE_LABELS[event.event_type] || event.event_type}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {event.stock_locations?.name}
+                          </Badge>
+                          {event.qty !== 1 && (
+                            <span className="text-xs text-muted-foreground">Qty: {event.qty}</span>
+                          )}
+                          {voidEvent && (
+                            <Badge variant="destructive" className="text-xs">Dibatalkan</Badge>
+                          )}
+                          {event.event_type === 'laku' && !voidEvent && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => setReceiptEventId(event.id)}
+                            >
+                              <Printer className="h-3.5 w-3.5 mr-1" />
+                              {event.receipt_number || 'Cetak Nota'}
+                            </Button>
+                          )}
+                        </div>
+                        {voidEvent && (
+                          <div className="flex items-center gap-1 mt-1 text-xs text-destructive">
+                            <Ban className="h-3 w-3" />
+                            Dibatalkan oleh {getUserName(voidEvent.created_by) || '-'}
+                            {' • '}
+                            {format(new Date(voidEvent.created_at), "dd MMM yyyy HH:mm", { locale: id })}
+                            {voidReason && `: ${voidReason}`}
+                          </div>
+                        )}
+                        <div className="text-sm text-muted-foreground">
+                          {formatDateForDisplay(parseDbDate(event.date))}
+                          {' • dicatat '}
+                          {format(new Date(event.created_at), "dd MMM yyyy HH:mm", { locale: id })}
+                        </div>
+                        {event.notes && (
+                          <p className="text-sm mt-1">{event.notes}</p>
+                        )}
+                        {event.customers && (
+                          <Link
+                            to={`/customers/${event.customers.id}`}
+                            className="flex items-center gap-1 mt-1 text-sm text-primary hover:underline w-fit"
+                          >
+                            <UserRound className="h-3.5 w-3.5" />
+                            {event.customers.name}
+                            {event.customers.phone && ` • ${event.customers.phone}`}
+                          </Link>
+                        )}
+                        {event.purchases?.suppliers && (
+                          can('stock.receive') ? (
+                            <Link
+                              to={`/suppliers/${event.purchases.suppliers.id}`}
+                              className="flex items-center gap-1 mt-1 text-sm text-primary hover:underline w-fit"
+                            >
+                              <Truck className="h-3.5 w-3.5" />
+                              {event.purchases.suppliers.name}
+                              {event.purchases.invoice_number && ` • Nota ${event.purchases.invoice_number}`}
+                            </Link>
+                          ) : (
+                            <div className="flex items-center gap-1 mt-1 text-sm text-muted-foreground">
+                              <Truck className="h-3.5 w-3.5" />
+                              {event.purchases.suppliers.name}
+                            </div>
+                          )
+                        )}
+                        {metadataEntries.length > 0 && (
+                          <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm rounded-lg bg-muted p-3 max-w-md">
+                            {metadataEntries.map(([key, value]) => (
+                              <div key={key} className="contents">
+                                <dt className="text-muted-foreground">{METADATA_LABELS[key] || key}</dt>
+                                <dd className="font-medium text-right">{formatMetadataValue(key, value)}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
+                        {event.created_by && (
+                          <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                            <User className="h-3 w-3" />
+                            {getUserName(event.created_by)}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+
+      <ReceiptDialog
+        open={receiptEventId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceiptEventId(null)}
+        saleEventId={receiptEventId}
+      />
+    </div>
+  );
+};
+
+export default ImeiHistory;
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, History, Pencil, Smartphone } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EditPhoneModelDialog } from "@/components/EditPhoneModelDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePriceHistory } from "@/hooks/usePriceHistory";
+import { useProfiles } from "@/hooks/useProfiles";
+import { isAccessory } from "@/lib/accessories";
+import { formatDateForDb, formatDateShort, parseDbDate } from "@/lib/dateUtils";
+
+const PhoneModelDetail = () => {
+  const { modelId = "" } = useParams<{ modelId: string }>();
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const { getUserName } = useProfiles();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const { data: phoneModel, isLoading } = useQuery({
+    queryKey: ['phone-models', 'detail', modelId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phone_models')
+        .select('*')
+        .eq('id', modelId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: history, isLoading: historyLoading } = usePriceHistory(modelId);
+
+  // Each price holds until the next change, so the line is drawn as steps up to today
+  const chartData = (history || []).map(change => ({
+    date: formatDateShort(parseDbDate(change.effective_date)),
+    srp: change.srp
+  }));
+  const lastChange = history?.[history.length - 1];
+  if (lastChange && lastChange.effective_date < formatDateForDb(new Date())) {
+    chartData.push({ date: formatDateShort(new Date()), srp: lastChange.srp });
+  }
+
+  const itemName = phoneModel
+    ? [phoneModel.brand, phoneModel.model, phoneModel.storage_capacity, phoneModel.color].filter(Boolean).join(' ')
+    : '';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">{itemName || 'Model HP'}</h1>
+              <p className="text-sm text-muted-foreground truncate">Detail model dan riwayat harga</p>
+            </div>
+            {phoneModel && can('catalog.manage') && (
+              <Button size="sm" variant="outline" onClick={() => setIsEditOpen(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit SRP
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        {isLoading ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : !phoneModel ? (
+          <div className="text-center py-12 text-muted-foreground">Model tidak ditemukan.</div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Smartphone className="h-5 w-5" />
+                  {phoneModel.brand} {phoneModel.model}
+                  {isAccessory(phoneModel) && <Badge variant="secondary">Aksesoris</Badge>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm max-w-md">
+                  <dt className="text-muted-foreground">Kapasitas</dt>
+                  <dd className="font-medium text-right">{phoneModel.storage_capacity || '-'}</dd>
+                  <dt className="text-muted-foreground">Warna</dt>
+                  <dd className="font-medium text-right">{phoneModel.color || '-'}</dd>
+                  {phoneModel.barcode && (
+                    <>
+                      <dt className="text-muted-foreground">Barcode</dt>
+                      <dd className="font-medium font-mono text-right">{phoneModel.barcode}</dd>
+                    </>
+                  )}
+                  <dt className="text-muted-foreground">SRP Saat Ini</dt>
+                  <dd className="font-semibold text-right">Rp {(phoneModel.srp || 0).toLocaleString('id-ID')}</dd>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Riwayat SRP
+                </CardTitle>
+                <CardDescription>Penjualan dan laporan memakai SRP yang berlaku pada tanggal transaksi</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {historyLoading ? (
+                  <div className="h-64 bg-muted rounded animate-pulse" />
+                ) : !history || history.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Belum ada riwayat harga.</div>
+                ) : (
+                  <>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+                          <CartesianGrid strokeDasharray="3 3" opacity={0.2} stroke="hsl(var(--muted-foreground))" vertical={false} />
+                          <XAxis
+                            dataKey="date"
+                            tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                            axisLine={{ stroke: 'hsl(var(--border))' }}
+                            tickLine={{ stroke: 'hsl(var(--border))' }}
+                          />
+                          <YAxis
+                            tickFormatter={(value: number) => `${(value / 1000).toLocaleString('id-ID')}rb`}
+                            tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                            axisLine={{ stroke: 'hsl(var(--border))' }}
+                            tickLine={{ stroke: 'hsl(var(--border))' }}
+                            width={70}
+                          />
+                          <RechartsTooltip
+                            formatter={(value: number) => [`Rp ${value.toLocaleString('id-ID')}`, 'SRP']}
+                            contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', borderRadius: 8 }}
+                          />
+                          <Line type="stepAfter" dataKey="srp" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 3 }} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    <ul className="space-y-2">
+                      {[...history].reverse().map((change, index, changes) => {
+                        const previous = changes[index + 1];
+                        const difference = previous ? change.srp - previous.srp : 0;
+                        return (
+                          <li key={change.id} className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+                            <div className="min-w-0">
+                              <div className="font-medium">Rp {change.srp.toLocaleString('id-ID')}</div>
+                              <div className="text-xs text-muted-foreground">
+                                Berlaku {formatDateShort(parseDbDate(change.effective_date))}
+                                {change.changed_by && ` • ${getUserName(change.changed_by)}`}
+                              </div>
+                            </div>
+                            {difference !== 0 && (
+                              <Badge variant={difference > 0 ? "outline" : "secondary"} className="shrink-0">
+                                {difference > 0 ? '+' : '-'}Rp {Math.abs(difference).toLocaleString('id-ID')}
+                              </Badge>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+
+      <EditPhoneModelDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        phoneModel={phoneModel ? { ...phoneModel, srp: phoneModel.srp || 0 } : null}
+      />
+    </div>
+  );
+};
+
+export default PhoneModelDetail;
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PromotionDialog } from "@/components/PromotionDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { usePromotions } from "@/hooks/usePromotions";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { PROMOTION_STATUS_BADGES, Promotion, formatPromotionDiscount, getPromotionStatus } from "@/lib/promotions";
+import { cn } from "@/lib/utils";
+
+const Promotions = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [showEnded, setShowEnded] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deletingPromotion, setDeletingPromotion] = useState<Promotion | null>(null);
+  const { data: promotions, isLoading } = usePromotions();
+
+  // Scope columns only hold ids, so names come from the catalog
+  const { data: scopeNames } = useQuery({
+    queryKey: ['promotions', 'scope-names'],
+    queryFn: async () => {
+      const [models, locations] = await Promise.all([
+        supabase.from('phone_models').select('id, brand, model, storage_capacity, color'),
+        supabase.from('stock_locations').select('id, name')
+      ]);
+      if (models.error) throw models.error;
+      if (locations.error) throw locations.error;
+      return {
+        models: new Map(models.data.map(m => [m.id, [m.brand, m.model, m.storage_capacity, m.color].filter(Boolean).join(' ')])),
+        locations: new Map(locations.data.map(l => [l.id, l.name]))
+      };
+    }
+  });
+
+  const listedPromotions = (promotions || []).filter(p => showEnded || ['running', 'scheduled'].includes(getPromotionStatus(p)));
+  const runningCount = (promotions || []).filter(p => getPromotionStatus(p) === 'running').length;
+
+  const describeScope = (promotion: Promotion) => {
+    const item = promotion.phone_model_id
+      ? scopeNames?.models.get(promotion.phone_model_id) || 'Model dihapus'
+      : promotion.brand ? `Semua ${promotion.brand}` : 'Semua barang';
+    const location = promotion.location_id
+      ? scopeNames?.locations.get(promotion.location_id) || 'Lokasi dihapus'
+      : 'semua lokasi';
+    return `${item} • ${location}`;
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async (promotionId: string) => {
+      const { error } = await supabase.from('promotions').delete().eq('id', promotionId);
+      if (error) throw new Error(`Gagal menghapus promo: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "Promo dihapus" });
+      queryClient.invalidateQueries({ queryKey: ['promotions'] });
+      setDeletingPromotion(null);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const openDialog = (promotion: Promotion | null) => {
+    setEditingPromotion(promotion);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Promo</h1>
+              <p className="text-sm text-muted-foreground truncate">Potongan harga per merk, model dan lokasi</p>
+            </div>
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Promo Baru
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="h-5 w-5" />
+                Daftar Promo
+              </CardTitle>
+              <CardDescription>{runningCount} promo berlaku hari ini</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-ended-promotions" checked={showEnded} onCheckedChange={setShowEnded} />
+              <Label htmlFor="show-ended-promotions" className="text-sm">Tampilkan selesai</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-20 bg-muted rounded animate-pulse" />
+            ) : listedPromotions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada promo.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {listedPromotions.map((promotion) => {
+                  const statusKey = getPromotionStatus(promotion);
+                  const status = PROMOTION_STATUS_BADGES[statusKey];
+                  return (
+                    <div
+                      key={promotion.id}
+                      className={cn(
+                        "flex items-start justify-between gap-4 rounded-lg border border-border p-3",
+                        (statusKey === 'ended' || statusKey === 'inactive') && "opacity-70"
+                      )}
+                    >
+                      <div className="min-w-0 space-y-0.5">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{promotion.name}</span>
+                          <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                        </div>
+                        <div className="text-sm">{describeScope(promotion)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDateShort(parseDbDate(promotion.start_date))} - {formatDateShort(parseDbDate(promotion.end_date))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="font-semibold mr-2">-{formatPromotionDiscount(promotion)}</span>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(promotion)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDeletingPromotion(promotion)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <PromotionDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} promotion={editingPromotion} />
+
+      <AlertDialog open={!!deletingPromotion} onOpenChange={(isOpen) => !isOpen && setDeletingPromotion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus promo {deletingPromotion?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Penjualan yang sudah memakai promo ini tetap mencatat nama dan potongannya.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingPromotion && deleteMutation.mutate(deletingPromotion.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Promotions;
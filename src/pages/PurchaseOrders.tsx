@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, ClipboardList, PackageOpen, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CreatePurchaseOrderDialog } from "@/components/CreatePurchaseOrderDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PurchaseOrderSummary, usePurchaseOrders } from "@/hooks/usePurchaseOrders";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { PURCHASE_ORDER_STATUS_BADGES } from "@/lib/purchaseOrders";
+import { cn } from "@/lib/utils";
+
+const PurchaseOrders = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [showClosed, setShowClosed] = useState(false);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [closingOrder, setClosingOrder] = useState<PurchaseOrderSummary | null>(null);
+  const { data: orders, isLoading } = usePurchaseOrders({ openOnly: !showClosed });
+
+  const openOrders = (orders || []).filter(o => o.status === 'open');
+  const backOrderUnits = openOrders.reduce((sum, o) => sum + o.backOrder, 0);
+  const backOrderValue = openOrders.reduce(
+    (sum, o) => sum + o.lines.reduce((lineSum, l) => lineSum + l.backOrder * l.unitCost, 0),
+    0
+  );
+
+  const closeMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status: 'closed', closed_at: new Date().toISOString() })
+        .eq('id', orderId);
+
+      if (error) throw new Error(`Gagal menutup PO: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "PO ditutup" });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      setClosingOrder(null);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Purchase Order</h1>
+              <p className="text-sm text-muted-foreground truncate">Pesanan ke distributor dan barang yang belum datang</p>
+            </div>
+            <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              PO Baru
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">PO Terbuka</CardTitle>
+              <ClipboardList className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{openOrders.length}</div>
+              <p className="text-xs text-muted-foreground">
+                {openOrders.filter(o => o.progress === 'partial').length} diterima sebagian
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Belum Datang</CardTitle>
+              <PackageOpen className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{backOrderUnits} unit</div>
+              <p className="text-xs text-muted-foreground">Rp {backOrderValue.toLocaleString('id-ID')}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Daftar PO</CardTitle>
+              <CardDescription>Terima barang dari menu HP Datang</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-closed-orders" checked={showClosed} onCheckedChange={setShowClosed} />
+              <Label htmlFor="show-closed-orders" className="text-sm">Tampilkan selesai</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-20 bg-muted rounded animate-pulse" />
+            ) : !orders || orders.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada PO.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {orders.map((order) => {
+                  const status = PURCHASE_ORDER_STATUS_BADGES[order.progress];
+                  return (
+                    <div
+                      key={order.id}
+                      className={cn(
+                        "rounded-lg border border-border p-3 space-y-3",
+                        order.status === 'closed' && "opacity-70"
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0 space-y-0.5">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium font-mono">{order.orderNumber}</span>
+                            <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                          </div>
+                          {order.supplier && (
+                            <Link to={`/suppliers/${order.supplier.id}`} className="text-sm hover:underline">
+                              {order.supplier.name}
+                            </Link>
+                          )}
+                          <div className="text-xs text-muted-foreground">
+                            Dipesan {formatDateShort(parseDbDate(order.orderDate))}
+                            {order.expectedDate && ` • Perkiraan datang ${formatDateShort(parseDbDate(order.expectedDate))}`}
+                            {order.closedAt && ` • Ditutup ${formatDateShort(new Date(order.closedAt))}`}
+                          </div>
+                          {order.notes && <div className="text-xs text-muted-foreground">{order.notes}</div>}
+                        </div>
+                        <div className="text-right shrink-0 space-y-1">
+                          <div className="font-semibold">{order.received}/{order.ordered} unit</div>
+                          <div className="text-xs text-muted-foreground">Rp {order.totalCost.toLocaleString('id-ID')}</div>
+                          {order.status === 'open' && (
+                            <Button variant="outline" size="sm" onClick={() => setClosingOrder(order)}>
+                              Tutup PO
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-2 border-t border-border pt-2">
+                        {order.lines.map((line) => (
+                          <div key={line.id} className="space-y-1">
+                            <div className="flex items-center justify-between gap-2 text-sm">
+                              <span className="min-w-0 truncate">{line.itemName}</span>
+                              <span className="shrink-0">
+                                {line.received}/{line.quantity}
+                                {line.backOrder > 0 && (
+                                  <span className="ml-2 text-xs text-muted-foreground">kurang {line.backOrder}</span>
+                                )}
+                              </span>
+                            </div>
+                            <Progress value={(line.received / line.quantity) * 100} className="h-1.5" />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <CreatePurchaseOrderDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+
+      <AlertDialog open={!!closingOrder} onOpenChange={(isOpen) => !isOpen && setClosingOrder(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Tutup PO {closingOrder?.orderNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {closingOrder && closingOrder.backOrder > 0
+                ? `${closingOrder.backOrder} unit yang belum datang tidak ditunggu lagi dan tidak bisa diterima dari PO ini.`
+                : 'Semua barang sudah diterima.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => closingOrder && closeMutation.mutate(closingOrder.id)}
+              disabled={closeMutation.isPending}
+            >
+              Tutup PO
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, TrendingUp, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CreditSaleList } from "@/components/CreditSaleList";
+import { useCreditSales } from "@/hooks/useCreditSales";
+import { PROFIT_RECOGNITION_LABELS } from "@/lib/credit";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+
+const Receivables = () => {
+  const navigate = useNavigate();
+  const [showClosed, setShowClosed] = useState(false);
+  const { data: credits, isLoading } = useCreditSales();
+
+  const activeCredits = (credits || []).filter(c => c.status === 'active');
+  const overdueInstallments = activeCredits
+    .flatMap(credit => credit.installments
+      .filter(i => i.status === 'overdue')
+      .map(installment => ({ credit, installment })))
+    .sort((a, b) => b.installment.daysOverdue - a.installment.daysOverdue);
+
+  const totalOutstanding = activeCredits.reduce((sum, c) => sum + c.outstanding, 0);
+  const totalOverdue = overdueInstallments.reduce((sum, o) => sum + o.installment.remaining, 0);
+  const openCredits = (credits || []).filter(c => c.status !== 'cancelled');
+  const recognizedProfit = openCredits.reduce((sum, c) => sum + c.recognizedProfit, 0);
+  const deferredProfit = openCredits.reduce((sum, c) => sum + c.profit, 0) - recognizedProfit;
+
+  const listedCredits = showClosed ? credits || [] : activeCredits;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Piutang</h1>
+              <p className="text-sm text-muted-foreground truncate">Penjualan kredit dan cicilan</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Piutang</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Rp {totalOutstanding.toLocaleString('id-ID')}</div>
+              <p className="text-xs text-muted-foreground">{activeCredits.length} kredit berjalan</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Terlambat</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-destructive">Rp {totalOverdue.toLocaleString('id-ID')}</div>
+              <p className="text-xs text-muted-foreground">{overdueInstallments.length} cicilan lewat jatuh tempo</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Laba Kredit Diakui</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Rp {recognizedProfit.toLocaleString('id-ID')}</div>
+              <p className="text-xs text-muted-foreground">Ditangguhkan: Rp {deferredProfit.toLocaleString('id-ID')}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Cicilan Terlambat
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-20 bg-muted rounded animate-pulse" />
+            ) : overdueInstallments.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Tidak ada cicilan yang terlambat.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pelanggan</TableHead>
+                    <TableHead>Cicilan</TableHead>
+                    <TableHead>Jatuh Tempo</TableHead>
+                    <TableHead className="text-right">Kurang</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overdueInstallments.map(({ credit, installment }) => (
+                    <TableRow key={`${credit.id}-${installment.installmentNumber}`}>
+                      <TableCell>
+                        {credit.customer ? (
+                          <Link to={`/customers/${credit.customer.id}`} className="font-medium hover:underline">
+                            {credit.customer.name}
+                          </Link>
+                        ) : '-'}
+                        {credit.customer?.phone && (
+                          <div className="text-xs text-muted-foreground">{credit.customer.phone}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div>Ke-{installment.installmentNumber}</div>
+                        <div className="text-xs text-muted-foreground">{credit.itemName}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatDateShort(parseDbDate(installment.dueDate))}</div>
+                        <Badge variant="destructive" className="text-xs">{installment.daysOverdue} hari</Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        Rp {installment.remaining.toLocaleString('id-ID')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Penjualan Kredit</CardTitle>
+              <CardDescription>Catat pembayaran cicilan dari sini</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-closed-credits" checked={showClosed} onCheckedChange={setShowClosed} />
+              <Label htmlFor="show-closed-credits" className="text-sm">Tampilkan lunas</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-20 bg-muted rounded animate-pulse" />
+            ) : listedCredits.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada penjualan kredit.
+              </div>
+            ) : (
+              <CreditSaleList credits={listedCredits} />
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-muted-foreground">
+          Laba diakui mengikuti aturan yang berlaku saat penjualan
+          ({Object.values(PROFIT_RECOGNITION_LABELS).map(r => r.label).join(', ')}). Aturan untuk penjualan baru diatur di Pengaturan.
+        </p>
+      </main>
+    </div>
+  );
+};
+
+export default Receivables;
@@ -5,13 +5,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import Papa from "papaparse";
 import { Upload, Pencil, LogOut } from "lucide-react";
 import { EditPhoneModelDialog } from "@/components/EditPhoneModelDialog";
+import { UserManagementCard } from "@/components/UserManagementCard";
+import { CreditSettingsCard } from "@/components/CreditSettingsCard";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useNavigate } from "react-router-dom";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ROLE_LABELS } from "@/lib/permissions";
 
 interface CsvRow {
   [key: string]: string;
@@ -21,6 +26,7 @@ const Settings = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const { role, profile, can, isActive } = usePermissions();
   const [isExporting, setIsExporting] = useState(false);
   const [resetConfirmation, setResetConfirmation] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -328,7 +334,14 @@ const Settings = () => {
           <CardTitle>Akun</CardTitle>
           <CardDescription>Kelola akun Anda</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="text-sm">
+            <div className="font-medium">{profile?.full_name || '-'}</div>
+            <div className="text-muted-foreground">Peran: {ROLE_LABELS[role]}</div>
+            {!isActive && (
+              <div className="text-destructive">Akun Anda dinonaktifkan. Hubungi pemilik toko.</div>
+            )}
+          </div>
           <Button variant="destructive" onClick={handleLogout}>
             <LogOut className="mr-2 h-4 w-4" />
             Logout
@@ -336,106 +349,128 @@ const Settings = () => {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Kelola SRP</CardTitle>
-          <CardDescription>Edit harga SRP untuk setiap model HP</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Merk</TableHead>
-                  <TableHead>Model</TableHead>
-                  <TableHead>Kapasitas</TableHead>
-                  <TableHead>SRP</TableHead>
-                  <TableHead className="w-[100px]">Aksi</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {phoneModels?.map((model: any) => (
-                  <TableRow key={model.id}>
-                    <TableCell>{model.brand}</TableCell>
-                    <TableCell>{model.model}</TableCell>
-                    <TableCell>{model.storage_capacity || '-'}</TableCell>
-                    <TableCell>
-                      {model.srp > 0 
-                        ? `Rp ${model.srp.toLocaleString('id-ID')}`
-                        : '-'
-                      }
-                    </TableCell>
-                    <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => {
-                          setEditingModel(model);
-                          setIsEditDialogOpen(true);
-                        }}
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                    </TableCell>
+      {can('users.manage') && <UserManagementCard />}
+
+      {can('settings.manage') && <CreditSettingsCard />}
+
+      {can('catalog.manage') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Kelola SRP</CardTitle>
+            <CardDescription>Edit harga SRP untuk setiap model HP</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Merk</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead>Kapasitas</TableHead>
+                    <TableHead>SRP</TableHead>
+                    <TableHead className="w-[100px]">Aksi</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Export Data</CardTitle>
-          <CardDescription>Download all of your stock data in a single, human-readable CSV file.</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Button onClick={handleExportAllStock} disabled={isExporting}>
-            {isExporting ? "Mengekspor..." : "Export All Stock Data"}
-          </Button>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Import Data</CardTitle>
-          <CardDescription>Import stock data from a CSV file. Please use the same format as the exported file.</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-            <Label htmlFor="csv-import">Upload CSV File</Label>
-            <Input id="csv-import" type="file" accept=".csv" onChange={handleFileChange} />
-            <Button onClick={handleImport} disabled={!selectedFile || isImporting}>
-                <Upload className="mr-2 h-4 w-4" />
-                {isImporting ? "Mengimpor..." : "Upload and Import"}
+                </TableHeader>
+                <TableBody>
+                  {phoneModels?.filter(model => !model.archived_at).map(model => (
+                    <TableRow key={model.id}>
+                      <TableCell>{model.brand}</TableCell>
+                      <TableCell>
+                        <button
+                          className="hover:underline text-left"
+                          onClick={() => navigate(`/models/${model.id}`)}
+                        >
+                          {model.model}
+                        </button>
+                        {!model.is_serialized && (
+                          <Badge variant="secondary" className="ml-2 text-[10px]">Aksesoris</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{model.storage_capacity || '-'}</TableCell>
+                      <TableCell>
+                        {model.srp > 0 
+                          ? `Rp ${model.srp.toLocaleString('id-ID')}`
+                          : '-'
+                        }
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingModel(model);
+                            setIsEditDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {can('data.export') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Export Data</CardTitle>
+            <CardDescription>Download all of your stock data in a single, human-readable CSV file.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={handleExportAllStock} disabled={isExporting}>
+              {isExporting ? "Mengekspor..." : "Export All Stock Data"}
             </Button>
-            {importErrors.length > 0 && (
-                <div className="space-y-2 pt-4">
-                    <h4 className="font-medium text-destructive">Error Impor:</h4>
-                    <ul className="list-disc list-inside bg-destructive/10 p-4 rounded-md text-sm text-destructive">
-                        {importErrors.slice(0, 5).map((error, index) => (
-                            <li key={index}>{error}</li>
-                        ))}
-                        {importErrors.length > 5 && <li>Dan {importErrors.length - 5} error lainnya...</li>}
-                    </ul>
-                </div>
-            )}
-        </CardContent>
-      </Card>
-
-      <Card className="border-destructive">
-        <CardHeader>
-          <CardTitle>Reset Data</CardTitle>
-          <CardDescription>Permanently delete all stock and model data. This action cannot be undone.</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <Label htmlFor="reset-confirmation">To confirm, type "RESET DATA" in the box below.</Label>
-          <Input id="reset-confirmation" value={resetConfirmation} onChange={(e) => setResetConfirmation(e.target.value)} placeholder="RESET DATA" />
-          <Button variant="destructive" onClick={handleReset} disabled={resetConfirmation !== "RESET DATA" || resetMutation.isPending}>
-            {resetMutation.isPending ? "Mereset..." : "Reset Semua Data"}
-          </Button>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
+
+      {can('data.import') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Data</CardTitle>
+            <CardDescription>Import stock data from a CSV file. Please use the same format as the exported file.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+              <Label htmlFor="csv-import">Upload CSV File</Label>
+              <Input id="csv-import" type="file" accept=".csv" onChange={handleFileChange} />
+              <Button onClick={handleImport} disabled={!selectedFile || isImporting}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {isImporting ? "Mengimpor..." : "Upload and Import"}
+              </Button>
+              {importErrors.length > 0 && (
+                  <div className="space-y-2 pt-4">
+                      <h4 className="font-medium text-destructive">Error Impor:</h4>
+                      <ul className="list-disc list-inside bg-destructive/10 p-4 rounded-md text-sm text-destructive">
+                          {importErrors.slice(0, 5).map((error, index) => (
+                              <li key={index}>{error}</li>
+                          ))}
+                          {importErrors.length > 5 && <li>Dan {importErrors.length - 5} error lainnya...</li>}
+                      </ul>
+                  </div>
+              )}
+          </CardContent>
+        </Card>
+      )}
+
+      {can('data.reset') && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle>Reset Data</CardTitle>
+            <CardDescription>Permanently delete all stock and model data. This action cannot be undone.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Label htmlFor="reset-confirmation">To confirm, type "RESET DATA" in the box below.</Label>
+            <Input id="reset-confirmation" value={resetConfirmation} onChange={(e) => setResetConfirmation(e.target.value)} placeholder="RESET DATA" />
+            <Button variant="destructive" onClick={handleReset} disabled={resetConfirmation !== "RESET DATA" || resetMutation.isPending}>
+              {resetMutation.isPending ? "Mereset..." : "Reset Semua Data"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
 
       <EditPhoneModelDialog
         open={isEditDialogOpen}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { ArrowLeft, ClipboardCheck, Play } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useProfiles } from "@/hooks/useProfiles";
+import { OPNAME_STATUS_BADGES, OpnameReport } from "@/lib/stockOpname";
+
+const StockOpname = () => {
+  const [locationId, setLocationId] = useState("");
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { getUserName } = useProfiles();
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('stock_locations').select('*').order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: sessions, isLoading } = useQuery({
+    queryKey: ['stock-opname-sessions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_opname_sessions')
+        .select('*, stock_locations(id, name)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const startSessionMutation = useMutation({
+    mutationFn: async (selectedLocationId: string) => {
+      if (!selectedLocationId) throw new Error('Pilih lokasi terlebih dahulu');
+
+      const { data, error } = await supabase
+        .from('stock_opname_sessions')
+        .insert({ location_id: selectedLocationId })
+        .select('id')
+        .single();
+
+      // The partial unique index rejects a second open session for the same location
+      if (error?.code === '23505') throw new Error('Masih ada sesi opname yang berjalan di lokasi ini');
+      if (error) throw new Error(`Gagal memulai sesi: ${error.message}`);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-opname-sessions'] });
+      navigate(`/opname/${data.id}`);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Stock Opname</h1>
+              <p className="text-sm text-muted-foreground truncate">Hitung fisik stok per lokasi</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Play className="h-5 w-5" />
+              Mulai Sesi Baru
+            </CardTitle>
+            <CardDescription>
+              Pilih lokasi, lalu scan semua IMEI yang ada di etalase dan gudang.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger className="sm:w-[240px]">
+                <SelectValue placeholder="Pilih lokasi" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations?.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => startSessionMutation.mutate(locationId)}
+              disabled={!locationId || startSessionMutation.isPending}
+            >
+              {startSessionMutation.isPending ? "Memulai..." : "Mulai Opname"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Riwayat Opname
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-14 bg-muted rounded" />
+                  </div>
+                ))}
+              </div>
+            ) : !sessions || sessions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada sesi opname.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {sessions.map((session) => {
+                  const status = OPNAME_STATUS_BADGES[session.status] || OPNAME_STATUS_BADGES.open;
+                  const report = session.report as unknown as OpnameReport | null;
+                  return (
+                    <button
+                      key={session.id}
+                      type="button"
+                      onClick={() => navigate(`/opname/${session.id}`)}
+                      className="w-full flex items-center justify-between gap-4 rounded-lg border border-border p-3 text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium">{session.stock_locations?.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(session.created_at), "dd MMM yyyy HH:mm", { locale: id })}
+                          {session.created_by && ` • ${getUserName(session.created_by)}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {report?.discrepancies && (
+                          <span className="text-xs text-muted-foreground">
+                            {report.discrepancies.length} selisih
+                          </span>
+                        )}
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default StockOpname;
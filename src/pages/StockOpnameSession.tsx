@@ -0,0 +1,547 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { ArrowLeft, Camera, CheckCircle, ClipboardCheck, Plus, ScanLine, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useProfiles } from "@/hooks/useProfiles";
+import { resolveImeiState, StockEvent } from "@/lib/stockEvents";
+import {
+  compareOpname,
+  DISCREPANCY_LABELS,
+  OPNAME_STATUS_BADGES,
+  OpnameDiscrepancy,
+  OpnameReport,
+  OpnameStockUnit,
+} from "@/lib/stockOpname";
+
+interface PhoneModelName {
+  brand: string;
+  model: string;
+  storage_capacity: string | null;
+  color: string | null;
+}
+
+const formatModelName = (phoneModel: PhoneModelName | null | undefined) =>
+  phoneModel ? [phoneModel.brand, phoneModel.model, phoneModel.storage_capacity, phoneModel.color].filter(Boolean).join(' ') : '-';
+
+const discrepancyKey = (discrepancy: OpnameDiscrepancy) => `${discrepancy.kind}|${discrepancy.imei}`;
+
+const StockOpnameSession = () => {
+  const { sessionId = "" } = useParams<{ sessionId: string }>();
+  const [input, setInput] = useState("");
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [isFinalizeOpen, setIsFinalizeOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  // Discrepancies are approved by default; staff untick the ones they do not want corrected
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { getUserName } = useProfiles();
+
+  const { data: session, isLoading: sessionLoading } = useQuery({
+    queryKey: ['stock-opname-sessions', sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_opname_sessions')
+        .select('*, stock_locations(id, name)')
+        .eq('id', sessionId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!sessionId
+  });
+
+  const { data: scans } = useQuery({
+    queryKey: ['stock-opname-scans', sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_opname_scans')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!sessionId
+  });
+
+  const isOpen = session?.status === 'open';
+
+  // Units the system has in stock today, across all locations, so misplaced units can be recognised
+  const { data: stockUnits } = useQuery({
+    queryKey: ['stock-entries', 'opname-stock'],
+    queryFn: async (): Promise<OpnameStockUnit[]> => {
+      try {
+        await supabase.rpc('check_and_rollover_if_needed');
+      } catch (error) {
+        console.log('Rollover check error (non-critical):', error);
+      }
+
+      const { data, error } = await supabase
+        .from('stock_entries')
+        .select('imei, night_stock, stock_locations(id, name), phone_models(id, brand, model, storage_capacity, color)')
+        .eq('date', format(new Date(), 'yyyy-MM-dd'))
+        .gt('night_stock', 0)
+        .not('imei', 'is', null);
+
+      if (error) throw error;
+
+      return (data || []).map(entry => ({
+        imei: entry.imei as string,
+        locationId: entry.stock_locations?.id,
+        locationName: entry.stock_locations?.name,
+        phoneModelId: entry.phone_models?.id,
+        modelName: formatModelName(entry.phone_models),
+      }));
+    },
+    enabled: isOpen
+  });
+
+  const comparison = session && stockUnits && scans
+    ? compareOpname(session.location_id, scans.map(s => s.imei), stockUnits)
+    : null;
+
+  const unexpectedImeis = comparison?.discrepancies.filter(d => d.kind === 'unexpected').map(d => d.imei) || [];
+
+  // Units that are physically here but not in stock anywhere (e.g. marked as sold) get their model from history
+  const { data: unexpectedModels } = useQuery({
+    queryKey: ['stock-events', 'opname-unexpected', unexpectedImeis],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_events')
+        .select('*, phone_models(id, brand, model, storage_capacity, color)')
+        .in('imei', unexpectedImeis);
+
+      if (error) throw error;
+
+      const models = new Map<string, { phoneModelId: string; modelName: string }>();
+      for (const imei of unexpectedImeis) {
+        const events = (data || []).filter(e => e.imei === imei);
+        const state = resolveImeiState(events as StockEvent[]);
+        const event = events.find(e => e.phone_model_id === state.phoneModelId);
+        if (state.phoneModelId && event) {
+          models.set(imei, { phoneModelId: state.phoneModelId, modelName: formatModelName(event.phone_models) });
+        }
+      }
+      return models;
+    },
+    enabled: isOpen && unexpectedImeis.length > 0
+  });
+
+  const report = session?.report as unknown as OpnameReport | null;
+
+  const discrepancies: OpnameDiscrepancy[] = isOpen
+    ? (comparison?.discrepancies || []).map(d => {
+        const model = d.kind === 'unexpected' ? unexpectedModels?.get(d.imei) : undefined;
+        return model ? { ...d, ...model } : d;
+      })
+    : report?.discrepancies || [];
+
+  const isApproved = (discrepancy: OpnameDiscrepancy) =>
+    !!discrepancy.phoneModelId && !rejected.has(discrepancyKey(discrepancy));
+
+  const addScanMutation = useMutation({
+    mutationFn: async (imei: string) => {
+      const { error } = await supabase
+        .from('stock_opname_scans')
+        .insert({ session_id: sessionId, imei });
+
+      if (error?.code === '23505') throw new Error(`IMEI ${imei} sudah discan`);
+      if (error) throw new Error(`Gagal menyimpan scan: ${error.message}`);
+    },
+    onSuccess: () => {
+      setInput("");
+      queryClient.invalidateQueries({ queryKey: ['stock-opname-scans', sessionId] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const removeScanMutation = useMutation({
+    mutationFn: async (scanId: number) => {
+      const { error } = await supabase.from('stock_opname_scans').delete().eq('id', scanId);
+      if (error) throw new Error(`Gagal menghapus scan: ${error.message}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock-opname-scans', sessionId] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const cancelSessionMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('stock_opname_sessions')
+        .update({ status: 'cancelled' })
+        .eq('id', sessionId);
+
+      if (error) throw new Error(`Gagal membatalkan sesi: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Sukses", description: "Sesi opname dibatalkan." });
+      queryClient.invalidateQueries({ queryKey: ['stock-opname-sessions'] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const finalizeMutation = useMutation({
+    mutationFn: async () => {
+      if (!session || !comparison) throw new Error('Data opname belum siap');
+
+      const date = format(new Date(), 'yyyy-MM-dd');
+      const locationName = session.stock_locations?.name;
+
+      const koreksi = (discrepancy: OpnameDiscrepancy, locationId: string, qty: number, eventNotes: string) => ({
+        date,
+        imei: discrepancy.imei,
+        location_id: locationId,
+        phone_model_id: discrepancy.phoneModelId as string,
+        event_type: 'koreksi',
+        qty,
+        notes: eventNotes,
+        metadata: { opname_session_id: sessionId, discrepancy: discrepancy.kind }
+      });
+
+      const approved = discrepancies.filter(isApproved);
+      const events = approved.flatMap(d => {
+        switch (d.kind) {
+          case 'missing':
+            return [koreksi(d, session.location_id, -1, `Stock opname ${locationName}: unit tidak ditemukan`)];
+          case 'unexpected':
+            return [koreksi(d, session.location_id, 1, `Stock opname ${locationName}: unit ditemukan`)];
+          case 'wrong_location':
+            return [
+              koreksi(d, d.recordedLocationId as string, -1, `Stock opname ${locationName}: unit ditemukan di ${locationName}`),
+              koreksi(d, session.location_id, 1, `Stock opname ${locationName}: unit tercatat di ${d.recordedLocationName}`),
+            ];
+        }
+      });
+
+      const finalReport: OpnameReport = {
+        expected_count: comparison.expectedCount,
+        scanned_count: scans?.length || 0,
+        matched_count: comparison.matchedCount,
+        corrections_count: events.length,
+        discrepancies: discrepancies.map(d => ({ ...d, approved: isApproved(d) })),
+      };
+
+      // Events and session status are written in one transaction, a finalized session is rejected
+      const { error: finalizeError } = await supabase.rpc('finalize_stock_opname', {
+        p_session_id: sessionId,
+        p_events: events as unknown as Json,
+        p_report: finalReport as unknown as Json,
+        p_notes: notes.trim() || null,
+      });
+
+      if (finalizeError) throw new Error(`Gagal menyelesaikan opname: ${finalizeError.message}`);
+
+      // Cascade recalculation happens automatically via database trigger
+    },
+    onSuccess: () => {
+      toast({ title: "Sukses", description: "Stock opname selesai dan laporan tersimpan." });
+      queryClient.invalidateQueries({ queryKey: ['stock-opname-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-events'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setIsFinalizeOpen(false)
+  });
+
+  const handleAddScan = (value: string) => {
+    const cleaned = value.trim();
+    if (cleaned) addScanMutation.mutate(cleaned);
+  };
+
+  const toggleApproval = (discrepancy: OpnameDiscrepancy) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      const key = discrepancyKey(discrepancy);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const status = OPNAME_STATUS_BADGES[session?.status || 'open'];
+  const expectedCount = isOpen ? comparison?.expectedCount : report?.expected_count;
+  const matchedCount = isOpen ? comparison?.matchedCount : report?.matched_count;
+  const scannedCount = isOpen ? scans?.length : report?.scanned_count ?? scans?.length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/opname')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">
+                Opname {session?.stock_locations?.name}
+              </h1>
+              <p className="text-sm text-muted-foreground truncate">
+                {session && format(new Date(session.created_at), "dd MMM yyyy HH:mm", { locale: id })}
+              </p>
+            </div>
+            {session && <Badge variant={status.variant}>{status.label}</Badge>}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        {sessionLoading ? (
+          <div className="animate-pulse">
+            <div className="h-32 bg-muted rounded" />
+          </div>
+        ) : !session ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Sesi opname tidak ditemukan.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Tercatat</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{expectedCount ?? '-'}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Discan</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{scannedCount ?? '-'}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Cocok</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{matchedCount ?? '-'}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {isOpen && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ScanLine className="h-5 w-5" />
+                    Scan IMEI
+                  </CardTitle>
+                  <CardDescription>
+                    Scan setiap unit yang ada secara fisik di lokasi ini.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAddScan(input);
+                    }}
+                  >
+                    <Input
+                      placeholder="Masukkan IMEI"
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      inputMode="numeric"
+                      maxLength={15}
+                      autoFocus
+                      className="flex-1"
+                    />
+                    <Button type="submit" variant="outline" size="icon" disabled={addScanMutation.isPending}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="outline" size="icon" onClick={() => setScannerOpen(true)}>
+                      <Camera className="h-4 w-4" />
+                    </Button>
+                  </form>
+
+                  {scans && scans.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto space-y-1">
+                      {scans.map((scan) => (
+                        <div key={scan.id} className="flex items-center justify-between rounded-md bg-muted px-3 py-1.5">
+                          <span className="font-mono text-sm">{scan.imei}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => removeScanMutation.mutate(scan.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Selisih
+                </CardTitle>
+                {isOpen && (
+                  <CardDescription>
+                    Centang selisih yang akan dikoreksi saat sesi diselesaikan.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {discrepancies.length === 0 ? (
+                  <div className="text-center py-4 text-muted-foreground">
+                    Tidak ada selisih.
+                  </div>
+                ) : (
+                  discrepancies.map((discrepancy) => {
+                    const approved = isOpen
+                      ? isApproved(discrepancy)
+                      : (discrepancy as OpnameReport['discrepancies'][number]).approved;
+                    return (
+                      <div key={discrepancyKey(discrepancy)} className="flex items-start gap-3 rounded-lg border border-border p-3">
+                        <Checkbox
+                          checked={approved}
+                          disabled={!isOpen || !discrepancy.phoneModelId}
+                          onCheckedChange={() => toggleApproval(discrepancy)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge
+                              variant={discrepancy.kind === 'missing' ? 'destructive' : discrepancy.kind === 'wrong_location' ? 'warning' : 'outline'}
+                              className="text-xs"
+                            >
+                              {DISCREPANCY_LABELS[discrepancy.kind]}
+                            </Badge>
+                            <span className="font-mono text-sm">{discrepancy.imei}</span>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {discrepancy.modelName || 'Model tidak diketahui'}
+                            {discrepancy.kind === 'wrong_location' && ` • tercatat di ${discrepancy.recordedLocationName}`}
+                          </div>
+                          {!discrepancy.phoneModelId && (
+                            <div className="text-xs text-muted-foreground">
+                              IMEI belum pernah tercatat, daftarkan lewat HP Datang.
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+
+            {!isOpen && (session.notes || session.finalized_at) && (
+              <Card>
+                <CardContent className="pt-6 space-y-1 text-sm">
+                  {session.finalized_at && (
+                    <div className="flex items-center gap-2">
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                      Diselesaikan {format(new Date(session.finalized_at), "dd MMM yyyy HH:mm", { locale: id })}
+                      {session.finalized_by && ` oleh ${getUserName(session.finalized_by)}`}
+                      {report && ` • ${report.corrections_count} koreksi`}
+                    </div>
+                  )}
+                  {session.notes && <p className="text-muted-foreground">{session.notes}</p>}
+                </CardContent>
+              </Card>
+            )}
+
+            {isOpen && (
+              <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => cancelSessionMutation.mutate()}
+                  disabled={cancelSessionMutation.isPending}
+                >
+                  Batalkan Sesi
+                </Button>
+                <Button onClick={() => setIsFinalizeOpen(true)} disabled={!comparison}>
+                  Selesaikan Opname
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <BarcodeScanner
+        open={scannerOpen}
+        onOpenChange={setScannerOpen}
+        onScanSuccess={(scannedImei) => {
+          handleAddScan(scannedImei);
+          setScannerOpen(false);
+        }}
+      />
+
+      <AlertDialog open={isFinalizeOpen} onOpenChange={setIsFinalizeOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Selesaikan opname?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discrepancies.filter(isApproved).length} selisih akan dikoreksi otomatis. Sesi tidak bisa diubah setelah diselesaikan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Catatan (opsional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={() => finalizeMutation.mutate()} disabled={finalizeMutation.isPending}>
+              Selesaikan
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StockOpnameSession;
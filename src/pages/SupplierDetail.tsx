@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, MapPin, Package, Pencil, Phone, StickyNote } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePurchases } from "@/hooks/usePurchases";
+import { formatDateShort, parseDbDate } from "@/lib/dateUtils";
+import { PURCHASE_STATUS_BADGES } from "@/lib/suppliers";
+import { cn } from "@/lib/utils";
+
+const SupplierDetail = () => {
+  const { supplierId = "" } = useParams<{ supplierId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: supplier, isLoading } = useQuery({
+    queryKey: ['suppliers', 'detail', supplierId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('id', supplierId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!supplierId
+  });
+
+  const { data: purchases, isLoading: purchasesLoading } = usePurchases({ supplierId });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('suppliers')
+        .update({
+          name: name.trim(),
+          phone: phone.trim() || null,
+          address: address.trim() || null,
+          notes: notes.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', supplierId);
+
+      if (error?.code === '23505') throw new Error('Nama supplier sudah dipakai');
+      if (error) throw new Error(`Gagal menyimpan supplier: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "Data supplier diperbarui" });
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['purchases'] });
+      setIsEditing(false);
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (purchaseId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('purchases')
+        .update({ paid_at: new Date().toISOString(), paid_by: user?.id ?? null })
+        .eq('id', purchaseId);
+
+      if (error) throw new Error(`Gagal menandai lunas: ${error.message}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Berhasil", description: "Nota ditandai lunas" });
+      queryClient.invalidateQueries({ queryKey: ['purchases'] });
+    },
+    onError: (error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const startEditing = () => {
+    setName(supplier?.name || "");
+    setPhone(supplier?.phone || "");
+    setAddress(supplier?.address || "");
+    setNotes(supplier?.notes || "");
+    setIsEditing(true);
+  };
+
+  const totalSpend = (purchases || []).reduce((sum, p) => sum + p.payable, 0);
+  const totalUnits = (purchases || []).reduce((sum, p) => sum + p.items.length, 0);
+  const outstanding = (purchases || []).reduce((sum, p) => sum + p.outstanding, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">{supplier?.name || 'Supplier'}</h1>
+              <p className="text-sm text-muted-foreground truncate">Detail supplier</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-20 bg-muted rounded" />
+              </div>
+            ))}
+          </div>
+        ) : !supplier ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Supplier tidak ditemukan.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>{supplier.name}</CardTitle>
+                  <CardDescription>
+                    {totalUnits} unit • Total belanja Rp {totalSpend.toLocaleString('id-ID')}
+                  </CardDescription>
+                </div>
+                {!isEditing && can('stock.receive') && (
+                  <Button variant="outline" size="sm" onClick={startEditing}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isEditing ? (
+                  <div className="space-y-3 max-w-md">
+                    <div className="space-y-2">
+                      <Label htmlFor="supplier-name">Nama</Label>
+                      <Input id="supplier-name" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="supplier-phone">No. HP</Label>
+                      <Input
+                        id="supplier-phone"
+                        inputMode="tel"
+                        value={phone}
+                        onChange={(e) => setPhone(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="supplier-address">Alamat</Label>
+                      <Textarea
+                        id="supplier-address"
+                        value={address}
+                        onChange={(e) => setAddress(e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="supplier-notes">Catatan</Label>
+                      <Textarea
+                        id="supplier-notes"
+                        placeholder="Misal: no. rekening, nama sales"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setIsEditing(false)}>
+                        Batal
+                      </Button>
+                      <Button
+                        onClick={() => updateMutation.mutate()}
+                        disabled={!name.trim() || updateMutation.isPending}
+                      >
+                        {updateMutation.isPending ? "Menyimpan..." : "Simpan"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      {supplier.phone || '-'}
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                      <span className="whitespace-pre-line">{supplier.address || '-'}</span>
+                    </div>
+                    {supplier.notes && (
+                      <div className="flex items-start gap-2">
+                        <StickyNote className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                        <span className="whitespace-pre-line">{supplier.notes}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="h-5 w-5" />
+                  Riwayat Pembelian
+                </CardTitle>
+                <CardDescription>
+                  Hutang: <span className="font-semibold text-foreground">Rp {outstanding.toLocaleString('id-ID')}</span>
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {purchasesLoading ? (
+                  <div className="h-20 bg-muted rounded animate-pulse" />
+                ) : !purchases || purchases.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Belum ada pembelian.
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {purchases.map((purchase) => {
+                      const status = PURCHASE_STATUS_BADGES[purchase.status];
+                      return (
+                        <div key={purchase.id} className="rounded-lg border border-border p-3 space-y-2">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0 space-y-0.5">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">
+                                  {purchase.invoiceNumber ? `Nota ${purchase.invoiceNumber}` : 'Tanpa nota'}
+                                </span>
+                                <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatDateShort(parseDbDate(purchase.purchaseDate))}
+                                {purchase.dueDate && ` • Jatuh tempo ${formatDateShort(parseDbDate(purchase.dueDate))}`}
+                                {purchase.paidAt && ` • Dibayar ${formatDateShort(new Date(purchase.paidAt))}`}
+                              </div>
+                            </div>
+                            <div className="text-right shrink-0 space-y-1">
+                              <div className="font-semibold">Rp {purchase.payable.toLocaleString('id-ID')}</div>
+                              {purchase.returnedAmount > 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  Retur -Rp {purchase.returnedAmount.toLocaleString('id-ID')}
+                                </div>
+                              )}
+                              {!purchase.paidAt && can('stock.receive') && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => markPaidMutation.mutate(purchase.id)}
+                                  disabled={markPaidMutation.isPending}
+                                >
+                                  Tandai Lunas
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          <div className="space-y-1 border-t border-border pt-2">
+                            {purchase.items.map((item) => (
+                              <div key={item.eventId} className="flex items-center justify-between gap-2 text-sm">
+                                <div className="min-w-0">
+                                  <span className={cn(item.returned && "line-through text-muted-foreground")}>
+                                    {item.itemName}
+                                  </span>
+                                  {' '}
+                                  {item.imei ? (
+                                    <Link to={`/imei/${item.imei}`} className="text-xs font-mono text-primary hover:underline">
+                                      {item.imei}
+                                    </Link>
+                                  ) : (
+                                    <span className="text-xs text-muted-foreground">x{item.qty}</span>
+                                  )}
+                                  {item.returned && (
+                                    <Badge variant="outline" className="ml-2 text-[10px]">Diretur</Badge>
+                                  )}
+                                </div>
+                                <span className="shrink-0 text-muted-foreground">
+                                  Rp {(item.costPrice * item.qty).toLocaleString('id-ID')}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SupplierDetail;
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, Search, Truck, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { usePurchases } from "@/hooks/usePurchases";
+
+const Suppliers = () => {
+  const [search, setSearch] = useState("");
+  const navigate = useNavigate();
+
+  // PostgREST filter syntax uses these characters, so they are stripped from the term
+  const term = search.trim().replace(/[,()%]/g, "");
+
+  const { data: suppliers, isLoading } = useQuery({
+    queryKey: ['suppliers', 'list', term],
+    queryFn: async () => {
+      let query = supabase
+        .from('suppliers')
+        .select('*')
+        .order('name')
+        .limit(100);
+
+      if (term) query = query.or(`name.ilike.%${term}%,phone.ilike.%${term}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: purchases } = usePurchases();
+
+  const totalsBySupplier = (purchases || []).reduce((acc, purchase) => {
+    if (!purchase.supplier) return acc;
+    const totals = acc[purchase.supplier.id] || { spend: 0, outstanding: 0, overdue: false };
+    totals.spend += purchase.payable;
+    totals.outstanding += purchase.outstanding;
+    totals.overdue = totals.overdue || purchase.status === 'overdue';
+    acc[purchase.supplier.id] = totals;
+    return acc;
+  }, {} as Record<string, { spend: number; outstanding: number; overdue: boolean }>);
+
+  const totalOutstanding = (purchases || []).reduce((sum, p) => sum + p.outstanding, 0);
+  const overduePurchases = (purchases || []).filter(p => p.status === 'overdue');
+  const totalOverdue = overduePurchases.reduce((sum, p) => sum + p.outstanding, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-background/95 backdrop-blur-sm">
+        <div className="container mx-auto px-4 lg:px-6">
+          <div className="flex h-16 items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold truncate">Supplier</h1>
+              <p className="text-sm text-muted-foreground truncate">Distributor, pembelian dan hutang</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 lg:px-6 py-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Hutang</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Rp {totalOutstanding.toLocaleString('id-ID')}</div>
+              <p className="text-xs text-muted-foreground">
+                {(purchases || []).filter(p => p.outstanding > 0).length} nota belum dibayar
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Lewat Jatuh Tempo</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-destructive">Rp {totalOverdue.toLocaleString('id-ID')}</div>
+              <p className="text-xs text-muted-foreground">{overduePurchases.length} nota</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Cari nama atau no. HP"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Daftar Supplier
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-14 bg-muted rounded" />
+                  </div>
+                ))}
+              </div>
+            ) : !suppliers || suppliers.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada supplier. Supplier ditambahkan dari form HP Datang.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {suppliers.map((supplier) => {
+                  const totals = totalsBySupplier[supplier.id];
+                  return (
+                    <button
+                      key={supplier.id}
+                      type="button"
+                      onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                      className="w-full flex items-center justify-between gap-4 rounded-lg border border-border p-3 text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium">{supplier.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {[supplier.phone, supplier.address].filter(Boolean).join(' • ') || '-'}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0 space-y-1">
+                        <div className="text-sm">Rp {(totals?.spend || 0).toLocaleString('id-ID')}</div>
+                        {totals?.outstanding > 0 && (
+                          <Badge variant={totals.overdue ? "destructive" : "outline"} className="text-xs">
+                            Hutang Rp {totals.outstanding.toLocaleString('id-ID')}
+                          </Badge>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,151 @@
+-- Migration: Replace hard deletes with compensating "void" events
+-- A void event points at the event it cancels; the original row stays intact
+-- and the cascade simply ignores it.
+
+-- 1. Allow the new event type
+ALTER TABLE stock_events DROP CONSTRAINT IF EXISTS stock_events_event_type_check;
+ALTER TABLE stock_events ADD CONSTRAINT stock_events_event_type_check
+  CHECK (event_type IN ('masuk', 'laku', 'retur_in', 'retur_out', 'transfer_out', 'transfer_in', 'koreksi', 'void'));
+
+-- 2. Reference from the void event to the cancelled event
+ALTER TABLE stock_events
+ADD COLUMN IF NOT EXISTS voided_event_id BIGINT REFERENCES stock_events(id) ON DELETE RESTRICT;
+
+-- An event can only be voided once, and only void events may carry the reference
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_events_voided_event_id
+ON stock_events(voided_event_id) WHERE voided_event_id IS NOT NULL;
+
+ALTER TABLE stock_events DROP CONSTRAINT IF EXISTS stock_events_void_reference_check;
+ALTER TABLE stock_events ADD CONSTRAINT stock_events_void_reference_check
+  CHECK ((event_type = 'void') = (voided_event_id IS NOT NULL));
+
+COMMENT ON COLUMN stock_events.voided_event_id IS 'For void events: the id of the event being cancelled';
+COMMENT ON COLUMN stock_events.event_type IS 'Transaction type: masuk (incoming), laku (sold), retur_in (return to store), retur_out (return to supplier), transfer_out, transfer_in, koreksi (correction), void (cancels voided_event_id)';
+
+-- 3. Cascade skips void events and the events they cancel
+CREATE OR REPLACE FUNCTION cascade_recalc_stock(
+  p_from_date DATE,
+  p_to_date DATE DEFAULT CURRENT_DATE,
+  p_location_id UUID DEFAULT NULL,
+  p_phone_model_id UUID DEFAULT NULL,
+  p_imei TEXT DEFAULT NULL
+)
+RETURNS TABLE(recalculated_days INTEGER, affected_entries INTEGER)
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  v_current_date DATE;
+  v_days_count INTEGER := 0;
+  v_entries_count INTEGER := 0;
+  v_location_id UUID;
+  v_phone_model_id UUID;
+  v_imei TEXT;
+BEGIN
+  -- Validate inputs
+  IF p_from_date > p_to_date THEN
+    RAISE EXCEPTION 'from_date cannot be greater than to_date';
+  END IF;
+
+  -- Get distinct location, model, and IMEI combinations to recalculate
+  FOR v_location_id, v_phone_model_id, v_imei IN
+    SELECT DISTINCT e.location_id, e.phone_model_id, e.imei
+    FROM stock_events e
+    WHERE e.date BETWEEN p_from_date AND p_to_date
+      AND (p_location_id IS NULL OR e.location_id = p_location_id)
+      AND (p_phone_model_id IS NULL OR e.phone_model_id = p_phone_model_id)
+      AND (p_imei IS NULL OR e.imei = p_imei)
+      AND e.imei IS NOT NULL AND e.imei != ''
+  LOOP
+    v_current_date := p_from_date;
+
+    -- Loop through each day
+    WHILE v_current_date <= p_to_date LOOP
+      DECLARE
+        v_prev_night_stock INTEGER := 0;
+        v_morning_stock INTEGER := 0;
+        v_incoming INTEGER := 0;
+        v_sold INTEGER := 0;
+        v_returns INTEGER := 0;
+        v_adjustment INTEGER := 0;
+        v_night_stock INTEGER := 0;
+      BEGIN
+        -- Get previous day's night stock for this specific IMEI
+        IF v_current_date > p_from_date THEN
+          SELECT COALESCE(night_stock, 0) INTO v_prev_night_stock
+          FROM stock_entries
+          WHERE date = v_current_date - INTERVAL '1 day'
+            AND location_id = v_location_id
+            AND phone_model_id = v_phone_model_id
+            AND imei = v_imei
+          LIMIT 1;
+        ELSE
+          -- For the first day, get from existing stock_entries if exists
+          SELECT COALESCE(morning_stock, 0) INTO v_prev_night_stock
+          FROM stock_entries
+          WHERE date = v_current_date
+            AND location_id = v_location_id
+            AND phone_model_id = v_phone_model_id
+            AND imei = v_imei
+          LIMIT 1;
+        END IF;
+
+        v_morning_stock := COALESCE(v_prev_night_stock, 0);
+
+        -- Aggregate events for this day and IMEI, ignoring voided ones
+        SELECT
+          COALESCE(SUM(CASE WHEN e.event_type = 'masuk' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE WHEN e.event_type = 'laku' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE WHEN e.event_type = 'retur_in' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE
+            WHEN e.event_type IN ('retur_out', 'transfer_out') THEN -e.qty
+            WHEN e.event_type = 'transfer_in' THEN e.qty
+            WHEN e.event_type = 'koreksi' THEN e.qty
+            ELSE 0
+          END), 0)
+        INTO v_incoming, v_sold, v_returns, v_adjustment
+        FROM stock_events e
+        WHERE e.date = v_current_date
+          AND e.location_id = v_location_id
+          AND e.phone_model_id = v_phone_model_id
+          AND e.imei = v_imei
+          AND e.event_type <> 'void'
+          AND NOT EXISTS (
+            SELECT 1 FROM stock_events v WHERE v.voided_event_id = e.id
+          );
+
+        -- Calculate night stock
+        v_night_stock := v_morning_stock + v_incoming + v_returns - v_sold + v_adjustment;
+
+        -- Upsert into stock_entries with IMEI
+        INSERT INTO stock_entries (
+          date, location_id, phone_model_id, imei,
+          morning_stock, incoming, sold, returns, adjustment, night_stock,
+          created_at, updated_at
+        ) VALUES (
+          v_current_date, v_location_id, v_phone_model_id, v_imei,
+          v_morning_stock, v_incoming, v_sold, v_returns, v_adjustment, v_night_stock,
+          NOW(), NOW()
+        )
+        ON CONFLICT (date, location_id, phone_model_id, imei)
+        DO UPDATE SET
+          morning_stock = EXCLUDED.morning_stock,
+          incoming = EXCLUDED.incoming,
+          sold = EXCLUDED.sold,
+          returns = EXCLUDED.returns,
+          adjustment = EXCLUDED.adjustment,
+          night_stock = EXCLUDED.night_stock,
+          updated_at = NOW();
+
+        v_entries_count := v_entries_count + 1;
+      END;
+
+      v_current_date := v_current_date + INTERVAL '1 day';
+      v_days_count := v_days_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_days_count, v_entries_count;
+END;
+$function$;
+
+COMMENT ON FUNCTION cascade_recalc_stock(DATE, DATE, UUID, UUID, TEXT) IS 'Recalculates per-IMEI stock_entries from stock_events. Void events and the events they cancel are ignored.';
@@ -0,0 +1,57 @@
+-- Migration: Stock opname (physical count) sessions
+-- A session belongs to one location, collects scanned IMEIs and, once
+-- finalized, stores the discrepancy report. Corrections are written as
+-- regular koreksi events so the cascade picks them up.
+
+CREATE TABLE IF NOT EXISTS stock_opname_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  location_id UUID NOT NULL REFERENCES stock_locations(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'finalized', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  finalized_at TIMESTAMPTZ,
+  finalized_by UUID REFERENCES auth.users(id),
+  report JSONB
+);
+
+CREATE TABLE IF NOT EXISTS stock_opname_scans (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  session_id UUID NOT NULL REFERENCES stock_opname_sessions(id) ON DELETE CASCADE,
+  imei TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  UNIQUE (session_id, imei)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_opname_sessions_location ON stock_opname_sessions(location_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_opname_scans_session ON stock_opname_scans(session_id);
+
+-- Only one running count per location at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_opname_sessions_open_location
+ON stock_opname_sessions(location_id) WHERE status = 'open';
+
+ALTER TABLE stock_opname_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_opname_scans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON stock_opname_sessions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON stock_opname_sessions
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable update for authenticated users" ON stock_opname_sessions
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for all authenticated users" ON stock_opname_scans
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON stock_opname_scans
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable delete for authenticated users" ON stock_opname_scans
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE stock_opname_sessions IS 'Physical stock count sessions per location';
+COMMENT ON COLUMN stock_opname_sessions.report IS 'Discrepancy report saved on finalization (missing, unexpected, wrong location, applied corrections)';
+COMMENT ON TABLE stock_opname_scans IS 'IMEIs scanned during a stock opname session';
@@ -0,0 +1,328 @@
+-- Migration: Role based permissions (owner, admin, cashier) from profiles.role
+-- Mirrors src/lib/permissions.ts. Existing permissive policies stay in place;
+-- the role checks are added as RESTRICTIVE policies so they apply on top.
+
+-- 1. Roles on profiles
+-- Everyone who had an account so far had full access, keep it that way
+UPDATE profiles SET role = 'owner' WHERE role IS NULL OR role NOT IN ('owner', 'admin', 'cashier');
+
+ALTER TABLE profiles ALTER COLUMN role SET DEFAULT 'cashier';
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'admin', 'cashier'));
+
+-- 2. Role helpers
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT role FROM profiles WHERE user_id = auth.uid()), 'cashier');
+$$;
+
+CREATE OR REPLACE FUNCTION has_app_role(p_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_app_role() = ANY(p_roles);
+$$;
+
+CREATE OR REPLACE FUNCTION assert_app_role(p_roles TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_app_role(p_roles) THEN
+    RAISE EXCEPTION 'Akses ditolak: peran % tidak diizinkan', current_app_role()
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Only the owner may hand out roles; other users cannot promote themselves
+CREATE OR REPLACE FUNCTION guard_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Migrations and the service role run without a user
+  IF auth.uid() IS NULL OR has_app_role(ARRAY['owner']) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'cashier';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Akses ditolak: hanya pemilik yang bisa mengubah peran' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_profile_role ON profiles;
+CREATE TRIGGER trg_guard_profile_role
+BEFORE INSERT OR UPDATE ON profiles
+FOR EACH ROW
+EXECUTE FUNCTION guard_profile_role();
+
+-- 3. Table policies
+-- Cashiers may only record sales and returns
+CREATE POLICY "Role check for inserting stock events" ON stock_events
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']) OR event_type IN ('laku', 'retur_in', 'retur_out'));
+
+CREATE POLICY "Role check for updating stock events" ON stock_events
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for deleting stock events" ON stock_events
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (has_app_role(ARRAY['owner']));
+
+-- Stock rows are written by the cascade from stock_events; only owners and
+-- admins edit them by hand. Cashiers may update a row when recording a sale,
+-- limited to the sale columns by guard_stock_entry_update below.
+CREATE POLICY "Role check for inserting stock entries" ON stock_entries
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for updating stock entries" ON stock_entries
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin', 'cashier']));
+
+CREATE POLICY "Role check for deleting stock entries" ON stock_entries
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (has_app_role(ARRAY['owner']));
+
+-- SECURITY INVOKER on purpose: current_user must be the caller's role here
+CREATE OR REPLACE FUNCTION guard_stock_entry_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_columns TEXT[] := ARRAY['selling_price', 'sale_date', 'profit_loss', 'cost_price', 'updated_at'];
+BEGIN
+  -- The cascade and other SECURITY DEFINER functions run as their owner, not as the client
+  IF current_user NOT IN ('authenticated', 'anon') OR has_app_role(ARRAY['owner', 'admin']) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - v_sale_columns) IS DISTINCT FROM (to_jsonb(OLD) - v_sale_columns) THEN
+    RAISE EXCEPTION 'Akses ditolak: kasir hanya bisa mencatat data penjualan' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_stock_entry_update ON stock_entries;
+CREATE TRIGGER trg_guard_stock_entry_update
+BEFORE UPDATE ON stock_entries
+FOR EACH ROW
+EXECUTE FUNCTION guard_stock_entry_update();
+
+-- Catalog (models, SRP, brands, locations)
+CREATE POLICY "Role check for inserting phone models" ON phone_models
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for updating phone models" ON phone_models
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for deleting phone models" ON phone_models
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for inserting locations" ON stock_locations
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for updating locations" ON stock_locations
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for deleting locations" ON stock_locations
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+-- Stock opname
+CREATE POLICY "Role check for inserting opname sessions" ON stock_opname_sessions
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for updating opname sessions" ON stock_opname_sessions
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for inserting opname scans" ON stock_opname_scans
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (has_app_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Role check for deleting opname scans" ON stock_opname_scans
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (has_app_role(ARRAY['owner', 'admin']));
+
+-- 4. RPC guards
+-- The original functions are kept under an *_unchecked name that clients
+-- can no longer execute; the public name becomes a guarded wrapper.
+ALTER FUNCTION reset_all_data() RENAME TO reset_all_data_unchecked;
+REVOKE EXECUTE ON FUNCTION reset_all_data_unchecked() FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION reset_all_data()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner']);
+  PERFORM reset_all_data_unchecked();
+END;
+$$;
+
+ALTER FUNCTION bulk_insert_stock(JSONB) RENAME TO bulk_insert_stock_unchecked;
+REVOKE EXECUTE ON FUNCTION bulk_insert_stock_unchecked(JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION bulk_insert_stock(entries JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner']);
+  PERFORM bulk_insert_stock_unchecked(entries);
+END;
+$$;
+
+-- Only exists on databases where it was created outside these migrations
+DO $guard$
+BEGIN
+  IF to_regprocedure('rebuild_stock_entries_from_events()') IS NOT NULL THEN
+    ALTER FUNCTION rebuild_stock_entries_from_events() RENAME TO rebuild_stock_entries_from_events_unchecked;
+    REVOKE EXECUTE ON FUNCTION rebuild_stock_entries_from_events_unchecked() FROM PUBLIC, anon, authenticated;
+
+    CREATE FUNCTION rebuild_stock_entries_from_events()
+    RETURNS VOID
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path = public
+    AS $$
+    BEGIN
+      PERFORM assert_app_role(ARRAY['owner']);
+      PERFORM rebuild_stock_entries_from_events_unchecked();
+    END;
+    $$;
+  END IF;
+END;
+$guard$;
+
+ALTER FUNCTION delete_stock_entry_and_logs(UUID) RENAME TO delete_stock_entry_and_logs_unchecked;
+REVOKE EXECUTE ON FUNCTION delete_stock_entry_and_logs_unchecked(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION delete_stock_entry_and_logs(entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner']);
+  PERFORM delete_stock_entry_and_logs_unchecked(entry_id);
+END;
+$$;
+
+ALTER FUNCTION update_brand_name(TEXT, TEXT) RENAME TO update_brand_name_unchecked;
+REVOKE EXECUTE ON FUNCTION update_brand_name_unchecked(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION update_brand_name(old_brand_name TEXT, new_brand_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+  PERFORM update_brand_name_unchecked(old_brand_name, new_brand_name);
+END;
+$$;
+
+ALTER FUNCTION delete_brand(TEXT) RENAME TO delete_brand_unchecked;
+REVOKE EXECUTE ON FUNCTION delete_brand_unchecked(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION delete_brand(brand_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+  PERFORM delete_brand_unchecked(brand_name);
+END;
+$$;
+
+-- Day rollover: the dashboard triggers it for every signed-in user, so the
+-- automatic check stays open to all roles while a manual rollover is owner/admin only
+ALTER FUNCTION rollover_to_new_day(DATE) RENAME TO rollover_to_new_day_unchecked;
+REVOKE EXECUTE ON FUNCTION rollover_to_new_day_unchecked(DATE) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION rollover_to_new_day(target_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+  PERFORM rollover_to_new_day_unchecked(target_date);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_and_rollover_if_needed()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin', 'cashier']);
+
+  IF EXISTS (SELECT 1 FROM stock_entries WHERE date = CURRENT_DATE) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_entries WHERE date = CURRENT_DATE - 1 AND night_stock > 0) THEN
+    PERFORM rollover_to_new_day_unchecked(CURRENT_DATE);
+    RETURN true;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_and_rollover_if_needed() FROM PUBLIC, anon;
+
+-- Cascade recalculation: stock rows follow from stock_events only. The trigger
+-- runs it as the function owner, so clients no longer need (or get) direct access.
+ALTER FUNCTION trigger_cascade_recalc() SECURITY DEFINER SET search_path = public;
+REVOKE EXECUTE ON FUNCTION cascade_recalc_stock(DATE, DATE, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cascade_recalc_stock(DATE, DATE, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cascade_recalc_stock_simple(DATE, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION handle_daily_stock_snapshot() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION current_app_role() IS 'Role of the calling user from profiles.role, cashier when unknown';
+COMMENT ON FUNCTION assert_app_role(TEXT[]) IS 'Raises insufficient_privilege unless the calling user has one of the given roles';
@@ -0,0 +1,154 @@
+-- Migration: User management for owners
+-- Adds home location and deactivation to profiles, plus owner-only RPCs to
+-- list and edit staff accounts (auth.users is not readable from the client).
+
+-- 1. Profile columns
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS home_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_created_by ON stock_events(created_by, created_at DESC);
+
+COMMENT ON COLUMN profiles.home_location_id IS 'Default location for the user (preselected in forms)';
+COMMENT ON COLUMN profiles.is_active IS 'Deactivated users keep their history but can no longer change data';
+
+-- 2. Deactivated users lose every role
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE WHEN is_active THEN COALESCE(role, 'cashier') ELSE 'inactive' END
+     FROM profiles WHERE user_id = auth.uid()),
+    'cashier'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_app_role() <> 'inactive';
+$$;
+
+CREATE POLICY "Active account required for stock events" ON stock_events
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (is_active_user());
+
+CREATE POLICY "Active account required for stock entries" ON stock_entries
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (is_active_user());
+
+-- 3. Never lose the last active owner
+CREATE OR REPLACE FUNCTION guard_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.role = 'owner' AND OLD.is_active
+    AND (NEW.role IS DISTINCT FROM 'owner' OR NOT NEW.is_active)
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE role = 'owner' AND is_active AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'Minimal harus ada satu pemilik yang aktif' USING ERRCODE = '42501';
+  END IF;
+
+  -- Migrations and the service role run without a user
+  IF auth.uid() IS NULL OR has_app_role(ARRAY['owner']) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'cashier';
+    NEW.is_active := TRUE;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    RAISE EXCEPTION 'Akses ditolak: hanya pemilik yang bisa mengubah peran' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Owner RPCs
+CREATE OR REPLACE FUNCTION list_staff_accounts()
+RETURNS TABLE(
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  role TEXT,
+  home_location_id UUID,
+  is_active BOOLEAN,
+  last_sign_in_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner']);
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    p.full_name,
+    COALESCE(p.role, 'cashier'),
+    p.home_location_id,
+    COALESCE(p.is_active, TRUE),
+    u.last_sign_in_at,
+    (SELECT MAX(e.created_at) FROM stock_events e WHERE e.created_by = u.id)
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  ORDER BY COALESCE(p.full_name, u.email);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_staff_account(
+  p_user_id UUID,
+  p_full_name TEXT,
+  p_role TEXT,
+  p_home_location_id UUID,
+  p_is_active BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner']);
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Akun tidak ditemukan';
+  END IF;
+
+  UPDATE profiles
+  SET full_name = NULLIF(TRIM(p_full_name), ''),
+      role = p_role,
+      home_location_id = p_home_location_id,
+      is_active = p_is_active,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO profiles (user_id, full_name, role, home_location_id, is_active)
+    VALUES (p_user_id, NULLIF(TRIM(p_full_name), ''), p_role, p_home_location_id, p_is_active);
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION list_staff_accounts() IS 'Owner only: all accounts with profile data and last stock activity';
+COMMENT ON FUNCTION update_staff_account(UUID, TEXT, TEXT, UUID, BOOLEAN) IS 'Owner only: set name, role, home location and active flag of an account';
@@ -0,0 +1,33 @@
+-- Migration: Stamp the acting user on every stock event
+-- created_by is always taken from the session, whatever the client sends.
+
+ALTER TABLE stock_events ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+CREATE OR REPLACE FUNCTION stamp_stock_event_created_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Editing an event must not reassign who recorded it
+  IF TG_OP = 'UPDATE' THEN
+    NEW.created_by := OLD.created_by;
+  -- Migrations, service role imports and cron jobs run without a user
+  ELSIF auth.uid() IS NOT NULL THEN
+    NEW.created_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_stock_event_created_by ON stock_events;
+CREATE TRIGGER trg_stamp_stock_event_created_by
+BEFORE INSERT OR UPDATE ON stock_events
+FOR EACH ROW
+EXECUTE FUNCTION stamp_stock_event_created_by();
+
+-- Same for the other tables that record an author
+ALTER TABLE stock_opname_sessions ALTER COLUMN created_by SET DEFAULT auth.uid();
+ALTER TABLE stock_opname_scans ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+COMMENT ON FUNCTION stamp_stock_event_created_by IS 'Sets stock_events.created_by from auth.uid() on insert and keeps it unchanged on update';
@@ -0,0 +1,35 @@
+-- Migration: Customer records linked to sales
+-- A laku event can point at the customer who bought the unit.
+
+CREATE TABLE IF NOT EXISTS customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  name TEXT NOT NULL CHECK (TRIM(name) <> ''),
+  phone TEXT,
+  address TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+-- Phone numbers identify repeat buyers
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_phone ON customers(phone) WHERE phone IS NOT NULL AND phone <> '';
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(LOWER(name));
+
+ALTER TABLE stock_events
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_customer ON stock_events(customer_id) WHERE customer_id IS NOT NULL;
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON customers
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON customers
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND is_active_user());
+
+CREATE POLICY "Enable update for authenticated users" ON customers
+  FOR UPDATE USING (auth.role() = 'authenticated' AND is_active_user());
+
+COMMENT ON TABLE customers IS 'Buyers, used for warranty claims and repeat-buyer follow-ups';
+COMMENT ON COLUMN stock_events.customer_id IS 'For laku events: the customer who bought the unit';
@@ -0,0 +1,58 @@
+-- Migration: Receipt numbers for sales
+-- Every laku event gets a unique, sequential nota number (IC-YYMMDD-00001) so a
+-- printed receipt can always be traced back and reprinted.
+
+CREATE SEQUENCE IF NOT EXISTS sale_receipt_number_seq;
+
+ALTER TABLE stock_events ADD COLUMN IF NOT EXISTS receipt_number TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_events_receipt_number
+ON stock_events(receipt_number)
+WHERE receipt_number IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION assign_sale_receipt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.event_type = 'laku' AND NEW.receipt_number IS NULL THEN
+    NEW.receipt_number := 'IC-' || to_char(NEW.date, 'YYMMDD') || '-' || lpad(nextval('sale_receipt_number_seq')::text, 5, '0');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_assign_sale_receipt_number ON stock_events;
+CREATE TRIGGER trg_assign_sale_receipt_number
+BEFORE INSERT ON stock_events
+FOR EACH ROW
+EXECUTE FUNCTION assign_sale_receipt_number();
+
+-- Number past sales in the order they happened so they can be reprinted.
+-- Stock is unaffected, so the recalculation triggers are skipped for the backfill.
+ALTER TABLE stock_events DISABLE TRIGGER trigger_recalc_on_event_change;
+ALTER TABLE stock_events DISABLE TRIGGER trg_cascade_after_stock_event;
+ALTER TABLE stock_events DISABLE TRIGGER trg_stamp_stock_event_created_by;
+
+WITH numbered AS (
+  SELECT id, date, row_number() OVER (ORDER BY date, created_at, id) AS seq
+  FROM stock_events
+  WHERE event_type = 'laku' AND receipt_number IS NULL
+)
+UPDATE stock_events se
+SET receipt_number = 'IC-' || to_char(numbered.date, 'YYMMDD') || '-' || lpad(numbered.seq::text, 5, '0')
+FROM numbered
+WHERE se.id = numbered.id;
+
+ALTER TABLE stock_events ENABLE TRIGGER trigger_recalc_on_event_change;
+ALTER TABLE stock_events ENABLE TRIGGER trg_cascade_after_stock_event;
+ALTER TABLE stock_events ENABLE TRIGGER trg_stamp_stock_event_created_by;
+
+SELECT setval(
+  'sale_receipt_number_seq',
+  GREATEST((SELECT count(*) FROM stock_events WHERE event_type = 'laku'), 1),
+  (SELECT count(*) FROM stock_events WHERE event_type = 'laku') > 0
+);
+
+COMMENT ON COLUMN stock_events.receipt_number IS 'Nota number of a laku event, assigned by trg_assign_sale_receipt_number';
@@ -0,0 +1,171 @@
+-- Migration: Credit (kredit) sales with installment schedules and receivables
+-- A credit sale hangs off its laku event: the customer pays a down payment at
+-- sale time and the rest according to the installment schedule. Payments are
+-- recorded against the credit sale; installments are settled oldest first.
+
+-- 1. Store-wide settings, starting with the profit recognition rule for credit sales
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+INSERT INTO app_settings (key, value)
+VALUES ('credit_profit_recognition', '"proportional"')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON app_settings
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners" ON app_settings
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners" ON app_settings
+  FOR UPDATE USING (has_app_role(ARRAY['owner']) AND is_active_user());
+
+CREATE OR REPLACE FUNCTION current_credit_profit_recognition()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT value #>> '{}' FROM app_settings WHERE key = 'credit_profit_recognition'),
+    'proportional'
+  );
+$$;
+
+-- 2. Credit sales, their schedule and the payments received
+CREATE TABLE IF NOT EXISTS credit_sales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  sale_event_id BIGINT NOT NULL UNIQUE REFERENCES stock_events(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  total_price NUMERIC NOT NULL CHECK (total_price > 0),
+  down_payment NUMERIC NOT NULL DEFAULT 0 CHECK (down_payment >= 0 AND down_payment < total_price),
+  cost_price NUMERIC NOT NULL DEFAULT 0,
+  -- Snapshot of the rule at sale time, so changing the setting does not rewrite past reports
+  profit_recognition TEXT NOT NULL DEFAULT current_credit_profit_recognition()
+    CHECK (profit_recognition IN ('at_sale', 'proportional', 'on_completion')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paid', 'cancelled')),
+  paid_off_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+CREATE TABLE IF NOT EXISTS credit_installments (
+  id BIGSERIAL PRIMARY KEY,
+  credit_sale_id UUID NOT NULL REFERENCES credit_sales(id) ON DELETE CASCADE,
+  installment_number INTEGER NOT NULL CHECK (installment_number > 0),
+  due_date DATE NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  UNIQUE (credit_sale_id, installment_number)
+);
+
+CREATE TABLE IF NOT EXISTS credit_payments (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  credit_sale_id UUID NOT NULL REFERENCES credit_sales(id) ON DELETE CASCADE,
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'transfer', 'qris')),
+  reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_sales_customer ON credit_sales(customer_id);
+CREATE INDEX IF NOT EXISTS idx_credit_sales_status ON credit_sales(status);
+CREATE INDEX IF NOT EXISTS idx_credit_installments_due ON credit_installments(due_date);
+CREATE INDEX IF NOT EXISTS idx_credit_payments_sale ON credit_payments(credit_sale_id);
+CREATE INDEX IF NOT EXISTS idx_credit_payments_paid_at ON credit_payments(paid_at);
+
+-- 3. Keep the credit status in line with payments and voids
+CREATE OR REPLACE FUNCTION refresh_credit_sale_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit credit_sales%ROWTYPE;
+  v_paid NUMERIC;
+BEGIN
+  SELECT * INTO v_credit FROM credit_sales WHERE id = NEW.credit_sale_id;
+
+  IF v_credit.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Penjualan kredit ini sudah dibatalkan';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM credit_payments WHERE credit_sale_id = v_credit.id;
+
+  IF v_credit.down_payment + v_paid > v_credit.total_price THEN
+    RAISE EXCEPTION 'Pembayaran melebihi sisa piutang';
+  END IF;
+
+  IF v_credit.down_payment + v_paid = v_credit.total_price THEN
+    UPDATE credit_sales SET status = 'paid', paid_off_at = NOW() WHERE id = v_credit.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_credit_sale_status ON credit_payments;
+CREATE TRIGGER trg_refresh_credit_sale_status
+AFTER INSERT ON credit_payments
+FOR EACH ROW
+EXECUTE FUNCTION refresh_credit_sale_status();
+
+-- Voiding the laku event cancels the credit that came with it
+CREATE OR REPLACE FUNCTION cancel_credit_sale_on_void()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_type = 'void' AND NEW.voided_event_id IS NOT NULL THEN
+    UPDATE credit_sales SET status = 'cancelled' WHERE sale_event_id = NEW.voided_event_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_cancel_credit_sale_on_void ON stock_events;
+CREATE TRIGGER trg_cancel_credit_sale_on_void
+AFTER INSERT ON stock_events
+FOR EACH ROW
+EXECUTE FUNCTION cancel_credit_sale_on_void();
+
+-- 4. Access: everyone who can sell may record credit sales and payments
+ALTER TABLE credit_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_installments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON credit_sales
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON credit_sales
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND is_active_user());
+
+CREATE POLICY "Enable read access for all authenticated users" ON credit_installments
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON credit_installments
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND is_active_user());
+
+CREATE POLICY "Enable read access for all authenticated users" ON credit_payments
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for authenticated users" ON credit_payments
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND is_active_user());
+
+COMMENT ON TABLE app_settings IS 'Store-wide settings as key/value pairs, editable by owners';
+COMMENT ON TABLE credit_sales IS 'Laku events sold on credit, with down payment and profit recognition rule';
+COMMENT ON TABLE credit_installments IS 'Payment schedule of a credit sale';
+COMMENT ON TABLE credit_payments IS 'Installment payments received after the sale; the down payment is on the laku event';
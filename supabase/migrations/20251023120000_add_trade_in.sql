@@ -0,0 +1,27 @@
+-- Migration: Trade-in (tukar tambah)
+-- A trade-in is a laku event plus a masuk event for the customer's used phone.
+-- The masuk carries metadata.condition = 'used' and links back to the sale via
+-- metadata.trade_in_sale_event_id.
+
+-- Cashiers may take in used phones, but only as part of a trade-in sale
+DROP POLICY IF EXISTS "Role check for inserting stock events" ON stock_events;
+CREATE POLICY "Role check for inserting stock events" ON stock_events
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (
+    has_app_role(ARRAY['owner', 'admin'])
+    OR event_type IN ('laku', 'retur_in', 'retur_out')
+    OR (
+      event_type = 'masuk'
+      AND metadata->>'condition' = 'used'
+      AND EXISTS (
+        SELECT 1 FROM stock_events sale
+        WHERE sale.id = (stock_events.metadata->>'trade_in_sale_event_id')::BIGINT
+          AND sale.event_type = 'laku'
+          AND sale.metadata->>'trade_in_imei' = stock_events.imei
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_used_units
+ON stock_events(imei)
+WHERE event_type = 'masuk' AND metadata->>'condition' = 'used';
@@ -0,0 +1,77 @@
+-- Migration: Suppliers and purchase records for incoming stock
+-- A purchase is one supplier invoice. The masuk events received on it point at
+-- the purchase, and so does a retur_out of one of those units, so spend and
+-- payables can be derived from the (non-voided) events.
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  name TEXT NOT NULL CHECK (TRIM(name) <> ''),
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(LOWER(TRIM(name)));
+
+CREATE TABLE IF NOT EXISTS purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  invoice_number TEXT,
+  purchase_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  paid_at TIMESTAMPTZ,
+  paid_by UUID REFERENCES auth.users(id),
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  CHECK (due_date IS NULL OR due_date >= purchase_date)
+);
+
+-- The same invoice must not be recorded twice for one supplier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchases_supplier_invoice
+ON purchases(supplier_id, invoice_number)
+WHERE invoice_number IS NOT NULL AND invoice_number <> '';
+
+CREATE INDEX IF NOT EXISTS idx_purchases_supplier ON purchases(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_unpaid ON purchases(due_date) WHERE paid_at IS NULL;
+
+ALTER TABLE stock_events
+ADD COLUMN IF NOT EXISTS purchase_id UUID REFERENCES purchases(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_purchase ON stock_events(purchase_id) WHERE purchase_id IS NOT NULL;
+
+-- Access: everyone may read (cashiers record retur_out), only those who receive stock may write
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON suppliers
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON suppliers
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners and admins" ON suppliers
+  FOR UPDATE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable read access for all authenticated users" ON purchases
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON purchases
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners and admins" ON purchases
+  FOR UPDATE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+-- Only a purchase without units, e.g. left behind by a failed save, may be removed
+CREATE POLICY "Enable delete of empty purchases for owners and admins" ON purchases
+  FOR DELETE USING (
+    has_app_role(ARRAY['owner', 'admin'])
+    AND is_active_user()
+    AND NOT EXISTS (SELECT 1 FROM stock_events WHERE stock_events.purchase_id = purchases.id)
+  );
+
+COMMENT ON TABLE suppliers IS 'Distributors that incoming stock is bought from';
+COMMENT ON TABLE purchases IS 'Supplier invoices; totals are derived from the linked stock events';
+COMMENT ON COLUMN stock_events.purchase_id IS 'For masuk events: the purchase the unit was received on. For retur_out events: the purchase the unit is returned against';
@@ -0,0 +1,130 @@
+-- Migration: Purchase orders with partial receiving
+-- A purchase order (PO) lists the models and quantities ordered from a supplier
+-- at an agreed cost. Units are received against a PO line: their masuk event
+-- points at the line, so received quantities and back-orders are derived from
+-- the (non-voided) events. A PO is closed once complete or when the remaining
+-- back-order is given up.
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  order_number TEXT NOT NULL UNIQUE
+    DEFAULT 'PO-' || to_char(CURRENT_DATE, 'YYMMDD') || '-' || lpad(nextval('purchase_order_number_seq')::text, 4, '0'),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  closed_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id BIGSERIAL PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  phone_model_id UUID NOT NULL REFERENCES phone_models(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  UNIQUE (purchase_order_id, phone_model_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+
+ALTER TABLE stock_events
+ADD COLUMN IF NOT EXISTS purchase_order_line_id BIGINT REFERENCES purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_purchase_order_line
+ON stock_events(purchase_order_line_id)
+WHERE purchase_order_line_id IS NOT NULL;
+
+-- Receiving must match the line's model and may not go past the ordered quantity
+CREATE OR REPLACE FUNCTION check_purchase_order_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line purchase_order_lines%ROWTYPE;
+  v_status TEXT;
+  v_received INTEGER;
+BEGIN
+  IF NEW.purchase_order_line_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_type <> 'masuk' THEN
+    RAISE EXCEPTION 'Hanya HP datang yang bisa diterima dari PO';
+  END IF;
+
+  SELECT * INTO v_line FROM purchase_order_lines WHERE id = NEW.purchase_order_line_id;
+  SELECT status INTO v_status FROM purchase_orders WHERE id = v_line.purchase_order_id;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'PO sudah ditutup';
+  END IF;
+
+  IF v_line.phone_model_id <> NEW.phone_model_id THEN
+    RAISE EXCEPTION 'Model HP tidak sesuai dengan baris PO';
+  END IF;
+
+  SELECT count(*) INTO v_received
+  FROM stock_events se
+  WHERE se.purchase_order_line_id = v_line.id
+    AND se.event_type = 'masuk'
+    AND NOT EXISTS (
+      SELECT 1 FROM stock_events v WHERE v.event_type = 'void' AND v.voided_event_id = se.id
+    );
+
+  IF v_received + 1 > v_line.quantity THEN
+    RAISE EXCEPTION 'Jumlah diterima melebihi pesanan PO (% unit)', v_line.quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_purchase_order_receipt ON stock_events;
+CREATE TRIGGER trg_check_purchase_order_receipt
+BEFORE INSERT ON stock_events
+FOR EACH ROW
+EXECUTE FUNCTION check_purchase_order_receipt();
+
+-- Access: everyone may read, only those who receive stock may order
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON purchase_orders
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON purchase_orders
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners and admins" ON purchase_orders
+  FOR UPDATE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+-- Only a PO nothing was received on, e.g. left behind by a failed save, may be removed
+CREATE POLICY "Enable delete of unreceived orders for owners and admins" ON purchase_orders
+  FOR DELETE USING (
+    has_app_role(ARRAY['owner', 'admin'])
+    AND is_active_user()
+    AND NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines l
+      JOIN stock_events se ON se.purchase_order_line_id = l.id
+      WHERE l.purchase_order_id = purchase_orders.id
+    )
+  );
+
+CREATE POLICY "Enable read access for all authenticated users" ON purchase_order_lines
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON purchase_order_lines
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+COMMENT ON TABLE purchase_orders IS 'Orders placed with suppliers before the goods arrive';
+COMMENT ON TABLE purchase_order_lines IS 'Ordered model, quantity and agreed unit cost; received units point here';
+COMMENT ON COLUMN stock_events.purchase_order_line_id IS 'For masuk events: the purchase order line the unit was received against';
@@ -0,0 +1,194 @@
+-- Migration: Non-serialized items (accessories) stocked by quantity
+-- Chargers, cases, tempered glass and SIM cards have no IMEI. They are catalog
+-- items like phone models, marked is_serialized = false and identified by their
+-- own barcode. Their stock_events carry imei = '' and qty = n, so one stock
+-- row per (date, location, item) holds the running quantity.
+
+ALTER TABLE phone_models
+ADD COLUMN IF NOT EXISTS is_serialized BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS barcode TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_phone_models_barcode
+ON phone_models(barcode)
+WHERE barcode IS NOT NULL;
+
+COMMENT ON COLUMN phone_models.is_serialized IS 'true for handsets tracked per IMEI, false for accessories tracked by quantity';
+COMMENT ON COLUMN phone_models.barcode IS 'Product barcode (EAN/UPC) used to find non-serialized items';
+
+-- 1. Cascade also recalculates the quantity rows of non-serialized items.
+--    Events without IMEI of handset models (legacy aggregated rows) stay ignored.
+CREATE OR REPLACE FUNCTION cascade_recalc_stock(
+  p_from_date DATE,
+  p_to_date DATE DEFAULT CURRENT_DATE,
+  p_location_id UUID DEFAULT NULL,
+  p_phone_model_id UUID DEFAULT NULL,
+  p_imei TEXT DEFAULT NULL
+)
+RETURNS TABLE(recalculated_days INTEGER, affected_entries INTEGER)
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  v_current_date DATE;
+  v_days_count INTEGER := 0;
+  v_entries_count INTEGER := 0;
+  v_location_id UUID;
+  v_phone_model_id UUID;
+  v_imei TEXT;
+BEGIN
+  -- Validate inputs
+  IF p_from_date > p_to_date THEN
+    RAISE EXCEPTION 'from_date cannot be greater than to_date';
+  END IF;
+
+  -- Get distinct location, model, and IMEI combinations to recalculate
+  FOR v_location_id, v_phone_model_id, v_imei IN
+    SELECT DISTINCT e.location_id, e.phone_model_id, e.imei
+    FROM stock_events e
+    JOIN phone_models pm ON pm.id = e.phone_model_id
+    WHERE e.date BETWEEN p_from_date AND p_to_date
+      AND (p_location_id IS NULL OR e.location_id = p_location_id)
+      AND (p_phone_model_id IS NULL OR e.phone_model_id = p_phone_model_id)
+      AND (p_imei IS NULL OR e.imei = p_imei)
+      AND e.imei IS NOT NULL
+      AND (e.imei != '' OR pm.is_serialized = false)
+  LOOP
+    v_current_date := p_from_date;
+
+    -- Loop through each day
+    WHILE v_current_date <= p_to_date LOOP
+      DECLARE
+        v_prev_night_stock INTEGER := 0;
+        v_morning_stock INTEGER := 0;
+        v_incoming INTEGER := 0;
+        v_sold INTEGER := 0;
+        v_returns INTEGER := 0;
+        v_adjustment INTEGER := 0;
+        v_night_stock INTEGER := 0;
+      BEGIN
+        -- Get previous day's night stock for this specific IMEI (or item quantity row)
+        IF v_current_date > p_from_date THEN
+          SELECT COALESCE(night_stock, 0) INTO v_prev_night_stock
+          FROM stock_entries
+          WHERE date = v_current_date - INTERVAL '1 day'
+            AND location_id = v_location_id
+            AND phone_model_id = v_phone_model_id
+            AND imei = v_imei
+          LIMIT 1;
+        ELSE
+          -- For the first day, get from existing stock_entries if exists
+          SELECT COALESCE(morning_stock, 0) INTO v_prev_night_stock
+          FROM stock_entries
+          WHERE date = v_current_date
+            AND location_id = v_location_id
+            AND phone_model_id = v_phone_model_id
+            AND imei = v_imei
+          LIMIT 1;
+        END IF;
+
+        v_morning_stock := COALESCE(v_prev_night_stock, 0);
+
+        -- Aggregate events for this day and IMEI, ignoring voided ones
+        SELECT
+          COALESCE(SUM(CASE WHEN e.event_type = 'masuk' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE WHEN e.event_type = 'laku' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE WHEN e.event_type = 'retur_in' THEN e.qty ELSE 0 END), 0),
+          COALESCE(SUM(CASE
+            WHEN e.event_type IN ('retur_out', 'transfer_out') THEN -e.qty
+            WHEN e.event_type = 'transfer_in' THEN e.qty
+            WHEN e.event_type = 'koreksi' THEN e.qty
+            ELSE 0
+          END), 0)
+        INTO v_incoming, v_sold, v_returns, v_adjustment
+        FROM stock_events e
+        WHERE e.date = v_current_date
+          AND e.location_id = v_location_id
+          AND e.phone_model_id = v_phone_model_id
+          AND e.imei = v_imei
+          AND e.event_type <> 'void'
+          AND NOT EXISTS (
+            SELECT 1 FROM stock_events v WHERE v.voided_event_id = e.id
+          );
+
+        -- Calculate night stock
+        v_night_stock := v_morning_stock + v_incoming + v_returns - v_sold + v_adjustment;
+
+        -- Upsert into stock_entries with IMEI
+        INSERT INTO stock_entries (
+          date, location_id, phone_model_id, imei,
+          morning_stock, incoming, sold, returns, adjustment, night_stock,
+          created_at, updated_at
+        ) VALUES (
+          v_current_date, v_location_id, v_phone_model_id, v_imei,
+          v_morning_stock, v_incoming, v_sold, v_returns, v_adjustment, v_night_stock,
+          NOW(), NOW()
+        )
+        ON CONFLICT (date, location_id, phone_model_id, imei)
+        DO UPDATE SET
+          morning_stock = EXCLUDED.morning_stock,
+          incoming = EXCLUDED.incoming,
+          sold = EXCLUDED.sold,
+          returns = EXCLUDED.returns,
+          adjustment = EXCLUDED.adjustment,
+          night_stock = EXCLUDED.night_stock,
+          updated_at = NOW();
+
+        v_entries_count := v_entries_count + 1;
+      END;
+
+      v_current_date := v_current_date + INTERVAL '1 day';
+      v_days_count := v_days_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_days_count, v_entries_count;
+END;
+$function$;
+
+COMMENT ON FUNCTION cascade_recalc_stock(DATE, DATE, UUID, UUID, TEXT) IS 'Recalculates per-IMEI stock_entries (and quantity rows of non-serialized items, imei = '''') from stock_events. Void events and the events they cancel are ignored.';
+
+-- 2. PO receipts count quantities instead of events
+CREATE OR REPLACE FUNCTION check_purchase_order_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line purchase_order_lines%ROWTYPE;
+  v_status TEXT;
+  v_received INTEGER;
+BEGIN
+  IF NEW.purchase_order_line_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_type <> 'masuk' THEN
+    RAISE EXCEPTION 'Hanya HP datang yang bisa diterima dari PO';
+  END IF;
+
+  SELECT * INTO v_line FROM purchase_order_lines WHERE id = NEW.purchase_order_line_id;
+  SELECT status INTO v_status FROM purchase_orders WHERE id = v_line.purchase_order_id;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'PO sudah ditutup';
+  END IF;
+
+  IF v_line.phone_model_id <> NEW.phone_model_id THEN
+    RAISE EXCEPTION 'Model HP tidak sesuai dengan baris PO';
+  END IF;
+
+  SELECT COALESCE(SUM(se.qty), 0) INTO v_received
+  FROM stock_events se
+  WHERE se.purchase_order_line_id = v_line.id
+    AND se.event_type = 'masuk'
+    AND NOT EXISTS (
+      SELECT 1 FROM stock_events v WHERE v.event_type = 'void' AND v.voided_event_id = se.id
+    );
+
+  IF v_received + NEW.qty > v_line.quantity THEN
+    RAISE EXCEPTION 'Jumlah diterima melebihi pesanan PO (% unit)', v_line.quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Migration: Multi-item sales (cart checkout)
+-- All laku events of one checkout share a transaction_id and one nota number.
+-- Each event still carries its own net price, cost and share of the payment,
+-- so per-item reports keep working; the receipt groups them back together.
+
+ALTER TABLE stock_events ADD COLUMN IF NOT EXISTS transaction_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_transaction
+ON stock_events(transaction_id)
+WHERE transaction_id IS NOT NULL;
+
+-- The nota number is no longer unique per event, only per transaction
+DROP INDEX IF EXISTS idx_stock_events_receipt_number;
+CREATE INDEX IF NOT EXISTS idx_stock_events_receipt_number
+ON stock_events(receipt_number)
+WHERE receipt_number IS NOT NULL;
+
+-- Events inserted together see the rows inserted before them in the same
+-- statement, so the first item draws the number and the others reuse it
+CREATE OR REPLACE FUNCTION assign_sale_receipt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.event_type = 'laku' AND NEW.receipt_number IS NULL THEN
+    IF NEW.transaction_id IS NOT NULL THEN
+      SELECT receipt_number INTO NEW.receipt_number
+      FROM stock_events
+      WHERE transaction_id = NEW.transaction_id
+        AND receipt_number IS NOT NULL
+      LIMIT 1;
+    END IF;
+
+    IF NEW.receipt_number IS NULL THEN
+      NEW.receipt_number := 'IC-' || to_char(NEW.date, 'YYMMDD') || '-' || lpad(nextval('sale_receipt_number_seq')::text, 5, '0');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON COLUMN stock_events.transaction_id IS 'Groups the laku events sold together in one checkout';
+COMMENT ON COLUMN stock_events.receipt_number IS 'Nota number of a laku event, shared by all events of the same transaction_id; assigned by trg_assign_sale_receipt_number';
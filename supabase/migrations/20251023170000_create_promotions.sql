@@ -0,0 +1,43 @@
+-- Migration: Promo rules for sale prices
+-- A promotion takes a percentage or a fixed amount off the SRP of the items it
+-- covers. Each scope column narrows the promo; left empty it covers everything,
+-- so a promo with no brand, model or location applies store-wide. The sale
+-- records which promo was used in its laku event metadata.
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  name TEXT NOT NULL CHECK (TRIM(name) <> ''),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+  brand TEXT,
+  phone_model_id UUID REFERENCES phone_models(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES stock_locations(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  CHECK (end_date >= start_date),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_dates ON promotions(start_date, end_date) WHERE is_active;
+
+-- Access: everyone may read (cashiers apply promos), only owners and admins manage them
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON promotions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON promotions
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners and admins" ON promotions
+  FOR UPDATE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable delete for owners and admins" ON promotions
+  FOR DELETE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+COMMENT ON TABLE promotions IS 'Promo rules: a percentage or fixed amount off the SRP, scoped by brand, model and location within a date range';
+COMMENT ON COLUMN promotions.discount_value IS 'Percent (1-100) for percentage promos, rupiah per unit for fixed promos';
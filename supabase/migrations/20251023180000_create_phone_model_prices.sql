@@ -0,0 +1,106 @@
+-- Migration: SRP price history
+-- phone_models.srp only holds today's price. Every change is also kept in
+-- phone_model_prices with the date it takes effect and who made it, so sales
+-- and margin reports can use the SRP that applied on the sale date.
+
+CREATE TABLE IF NOT EXISTS phone_model_prices (
+  id BIGSERIAL PRIMARY KEY,
+  phone_model_id UUID NOT NULL REFERENCES phone_models(id) ON DELETE CASCADE,
+  srp NUMERIC NOT NULL DEFAULT 0 CHECK (srp >= 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  changed_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  -- One price per model per day; a second change on the same day replaces the first
+  UNIQUE (phone_model_id, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_model_prices_model_date
+ON phone_model_prices(phone_model_id, effective_date DESC);
+
+-- Existing models start their history with the current SRP from the day they were added
+INSERT INTO phone_model_prices (phone_model_id, srp, effective_date, changed_by)
+SELECT id, COALESCE(srp, 0), created_at::date, NULL
+FROM phone_models
+ON CONFLICT (phone_model_id, effective_date) DO NOTHING;
+
+-- SRP in effect on a date; before the first recorded price the current SRP is used
+CREATE OR REPLACE FUNCTION srp_on_date(p_phone_model_id UUID, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT srp FROM phone_model_prices
+     WHERE phone_model_id = p_phone_model_id AND effective_date <= p_date
+     ORDER BY effective_date DESC
+     LIMIT 1),
+    (SELECT COALESCE(srp, 0) FROM phone_models WHERE id = p_phone_model_id)
+  );
+$$;
+
+-- Any write to phone_models.srp (new model, import, direct edit) lands in the history as of today
+CREATE OR REPLACE FUNCTION record_srp_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.srp IS NOT DISTINCT FROM OLD.srp THEN
+    RETURN NEW;
+  END IF;
+
+  IF srp_on_date(NEW.id, CURRENT_DATE) IS DISTINCT FROM COALESCE(NEW.srp, 0)
+     OR NOT EXISTS (SELECT 1 FROM phone_model_prices WHERE phone_model_id = NEW.id) THEN
+    INSERT INTO phone_model_prices (phone_model_id, srp, effective_date, changed_by)
+    VALUES (NEW.id, COALESCE(NEW.srp, 0), CURRENT_DATE, auth.uid())
+    ON CONFLICT (phone_model_id, effective_date)
+    DO UPDATE SET srp = EXCLUDED.srp, changed_by = EXCLUDED.changed_by, changed_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_srp_change ON phone_models;
+CREATE TRIGGER trigger_record_srp_change
+AFTER INSERT OR UPDATE OF srp ON phone_models
+FOR EACH ROW
+EXECUTE FUNCTION record_srp_change();
+
+-- Sets an SRP from a given date, which may lie in the past (e.g. a price list
+-- that started last week). phone_models.srp follows whatever applies today.
+CREATE OR REPLACE FUNCTION set_phone_model_srp(p_phone_model_id UUID, p_srp NUMERIC, p_effective_date DATE DEFAULT CURRENT_DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+
+  IF p_effective_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Tanggal berlaku tidak boleh di masa depan';
+  END IF;
+
+  INSERT INTO phone_model_prices (phone_model_id, srp, effective_date, changed_by)
+  VALUES (p_phone_model_id, p_srp, p_effective_date, auth.uid())
+  ON CONFLICT (phone_model_id, effective_date)
+  DO UPDATE SET srp = EXCLUDED.srp, changed_by = EXCLUDED.changed_by, changed_at = NOW();
+
+  UPDATE phone_models
+  SET srp = srp_on_date(p_phone_model_id, CURRENT_DATE), updated_at = NOW()
+  WHERE id = p_phone_model_id;
+END;
+$$;
+
+-- Access: everyone may read; changes go through set_phone_model_srp or the trigger
+ALTER TABLE phone_model_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON phone_model_prices
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE phone_model_prices IS 'SRP history per model; the row with the latest effective_date on or before a day is the SRP of that day';
+COMMENT ON FUNCTION srp_on_date(UUID, DATE) IS 'SRP of a model in effect on the given date';
+COMMENT ON FUNCTION set_phone_model_srp(UUID, NUMERIC, DATE) IS 'Records an SRP change effective from a date and updates phone_models.srp to the price in effect today';
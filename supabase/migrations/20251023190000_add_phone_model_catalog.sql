@@ -0,0 +1,105 @@
+-- Migration: Phone model catalog with variants
+-- Each phone_models row is one sellable variant. series groups the models of a
+-- product line (Galaxy A, Redmi Note) and ram, storage_capacity and color tell
+-- the variants of a model apart. Models are archived instead of deleted so their
+-- stock history stays intact, and duplicates are merged into one model.
+
+ALTER TABLE phone_models
+ADD COLUMN IF NOT EXISTS series TEXT,
+ADD COLUMN IF NOT EXISTS ram TEXT,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_phone_models_active
+ON phone_models(brand, model)
+WHERE archived_at IS NULL;
+
+COMMENT ON COLUMN phone_models.series IS 'Product line the model belongs to, e.g. Galaxy A; empty means the catalog derives it from the model name';
+COMMENT ON COLUMN phone_models.ram IS 'RAM of the variant, e.g. 8GB';
+COMMENT ON COLUMN phone_models.archived_at IS 'Set when the model is no longer sold; archived models are hidden from pickers but keep their history';
+
+-- Deleting a brand removed its models together with their stock history.
+-- Brands are archived from the catalog instead.
+DROP FUNCTION IF EXISTS delete_brand(TEXT);
+DROP FUNCTION IF EXISTS delete_brand_unchecked(TEXT);
+
+-- Moves everything recorded on p_source_id to p_target_id and deletes the source
+CREATE OR REPLACE FUNCTION merge_phone_models(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source phone_models%ROWTYPE;
+  v_target phone_models%ROWTYPE;
+  v_line RECORD;
+  v_target_line_id BIGINT;
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Model tidak bisa digabung dengan dirinya sendiri';
+  END IF;
+
+  SELECT * INTO v_source FROM phone_models WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Model yang digabung tidak ditemukan';
+  END IF;
+
+  SELECT * INTO v_target FROM phone_models WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Model tujuan tidak ditemukan';
+  END IF;
+
+  IF v_source.is_serialized <> v_target.is_serialized THEN
+    RAISE EXCEPTION 'HP dan aksesoris tidak bisa digabung';
+  END IF;
+
+  -- Stock rows keep their cost and sale prices. A row that would collide with
+  -- one of the target is dropped; the cascade below recalculates it.
+  UPDATE stock_entries s
+  SET phone_model_id = p_target_id
+  WHERE s.phone_model_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM stock_entries t
+      WHERE t.phone_model_id = p_target_id
+        AND t.date = s.date
+        AND t.location_id = s.location_id
+        AND t.imei = s.imei
+    );
+
+  DELETE FROM stock_entries WHERE phone_model_id = p_source_id;
+
+  -- Purchase order lines: one line per model, so quantities of a shared order are added up
+  FOR v_line IN
+    SELECT * FROM purchase_order_lines WHERE phone_model_id = p_source_id
+  LOOP
+    SELECT id INTO v_target_line_id
+    FROM purchase_order_lines
+    WHERE purchase_order_id = v_line.purchase_order_id
+      AND phone_model_id = p_target_id;
+
+    IF v_target_line_id IS NULL THEN
+      UPDATE purchase_order_lines SET phone_model_id = p_target_id WHERE id = v_line.id;
+    ELSE
+      UPDATE purchase_order_lines SET quantity = quantity + v_line.quantity WHERE id = v_target_line_id;
+      -- Moved together with the model, otherwise the cascade would rebuild stock rows for the source
+      UPDATE stock_events
+      SET purchase_order_line_id = v_target_line_id, phone_model_id = p_target_id
+      WHERE purchase_order_line_id = v_line.id;
+      DELETE FROM purchase_order_lines WHERE id = v_line.id;
+    END IF;
+  END LOOP;
+
+  -- trigger_cascade_recalc rebuilds the target's stock rows from the moved events
+  UPDATE stock_events SET phone_model_id = p_target_id WHERE phone_model_id = p_source_id;
+
+  UPDATE promotions SET phone_model_id = p_target_id WHERE phone_model_id = p_source_id;
+
+  -- The target keeps its own SRP history; the source's goes with it
+  DELETE FROM phone_models WHERE id = p_source_id;
+END;
+$$;
+
+COMMENT ON FUNCTION merge_phone_models(UUID, UUID) IS 'Merges a duplicate model into another: moves its stock, events, purchase order lines and promos, then deletes it';
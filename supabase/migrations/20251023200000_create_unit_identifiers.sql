@@ -0,0 +1,64 @@
+-- Migration: Secondary IMEI and serial number per unit
+-- Stock events and rows identify a unit by one IMEI. Dual-SIM handsets have a
+-- second IMEI, and most boxes also print a serial number; both are kept here,
+-- keyed by the IMEI the unit is recorded under, so lookups by either number
+-- find the same unit.
+
+CREATE TABLE IF NOT EXISTS unit_identifiers (
+  imei TEXT PRIMARY KEY CHECK (imei <> ''),
+  imei2 TEXT CHECK (imei2 <> '' AND imei2 <> imei),
+  serial_number TEXT CHECK (TRIM(serial_number) <> ''),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_unit_identifiers_imei2
+ON unit_identifiers(imei2)
+WHERE imei2 IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_unit_identifiers_serial_number
+ON unit_identifiers(serial_number)
+WHERE serial_number IS NOT NULL;
+
+-- A secondary IMEI may not be the recorded IMEI of another unit, and the other way round
+CREATE OR REPLACE FUNCTION check_unit_identifier_conflict()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.imei2 IS NOT NULL AND EXISTS (SELECT 1 FROM unit_identifiers WHERE imei = NEW.imei2) THEN
+    RAISE EXCEPTION 'IMEI % sudah tercatat sebagai IMEI unit lain', NEW.imei2;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unit_identifiers WHERE imei2 = NEW.imei AND imei <> NEW.imei) THEN
+    RAISE EXCEPTION 'IMEI % sudah tercatat sebagai IMEI 2 unit lain', NEW.imei;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_unit_identifier_conflict ON unit_identifiers;
+CREATE TRIGGER trg_check_unit_identifier_conflict
+BEFORE INSERT OR UPDATE ON unit_identifiers
+FOR EACH ROW
+EXECUTE FUNCTION check_unit_identifier_conflict();
+
+-- Access: everyone may read (lookups at the counter), staff who receive or edit stock write
+ALTER TABLE unit_identifiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all authenticated users" ON unit_identifiers
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable insert for owners and admins" ON unit_identifiers
+  FOR INSERT WITH CHECK (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable update for owners and admins" ON unit_identifiers
+  FOR UPDATE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+CREATE POLICY "Enable delete for owners and admins" ON unit_identifiers
+  FOR DELETE USING (has_app_role(ARRAY['owner', 'admin']) AND is_active_user());
+
+COMMENT ON TABLE unit_identifiers IS 'Secondary IMEI and serial number of a unit, keyed by the IMEI its stock events are recorded under';
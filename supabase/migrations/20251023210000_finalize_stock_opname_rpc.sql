@@ -0,0 +1,48 @@
+-- Migration: Finalize a stock opname session in one transaction
+-- The koreksi events and the session status used to be written by two
+-- separate client calls; a retry or a second tab could apply the
+-- corrections twice. The session row is now locked and checked first.
+
+CREATE OR REPLACE FUNCTION finalize_stock_opname(
+  p_session_id UUID,
+  p_events JSONB,
+  p_report JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session stock_opname_sessions%ROWTYPE;
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+
+  SELECT * INTO v_session FROM stock_opname_sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sesi opname tidak ditemukan';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'Sesi opname sudah %', CASE v_session.status WHEN 'finalized' THEN 'diselesaikan' ELSE 'dibatalkan' END;
+  END IF;
+
+  -- trigger_cascade_recalc picks up the corrections like any other event
+  INSERT INTO stock_events (date, imei, location_id, phone_model_id, event_type, qty, notes, metadata)
+  SELECT e.date, e.imei, e.location_id, e.phone_model_id, 'koreksi', e.qty, e.notes,
+    COALESCE(e.metadata, '{}'::jsonb) || jsonb_build_object('opname_session_id', p_session_id)
+  FROM jsonb_to_recordset(COALESCE(p_events, '[]'::jsonb))
+    AS e(date DATE, imei TEXT, location_id UUID, phone_model_id UUID, qty INTEGER, notes TEXT, metadata JSONB);
+
+  UPDATE stock_opname_sessions
+  SET status = 'finalized',
+    finalized_at = NOW(),
+    finalized_by = auth.uid(),
+    notes = NULLIF(TRIM(p_notes), ''),
+    report = p_report
+  WHERE id = p_session_id;
+END;
+$$;
+
+COMMENT ON FUNCTION finalize_stock_opname(UUID, JSONB, JSONB, TEXT) IS 'Writes the approved koreksi events of an open stock opname session and stores its report, once';
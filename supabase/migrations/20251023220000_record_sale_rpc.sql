@@ -0,0 +1,132 @@
+-- Migration: Record a sale in one transaction
+-- The laku event, the sale columns on the stock row and, for credit sales,
+-- the credit header and its installment schedule used to be separate client
+-- writes; a failure halfway left a cash sale without its credit, a credit
+-- without a schedule, or a sale discounted by a trade-in that never entered stock.
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_entry_id UUID,
+  p_event JSONB,
+  p_credit JSONB DEFAULT NULL,
+  p_trade_in JSONB DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry stock_entries%ROWTYPE;
+  v_imei TEXT;
+  v_qty INTEGER := COALESCE((p_event->>'qty')::INTEGER, 1);
+  v_date DATE := (p_event->>'date')::DATE;
+  v_customer_id UUID := (p_event->>'customer_id')::UUID;
+  v_metadata JSONB := COALESCE(p_event->'metadata', '{}'::jsonb);
+  v_event_id BIGINT;
+  v_credit_sale_id UUID;
+  v_installments JSONB;
+  v_installments_total NUMERIC;
+  v_trade_in_imei TEXT := p_trade_in->>'imei';
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin', 'cashier']);
+
+  -- Locking the row keeps two tills from selling the same unit at once
+  SELECT * INTO v_entry FROM stock_entries WHERE id = p_entry_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Data stok tidak ditemukan';
+  END IF;
+  v_imei := COALESCE(v_entry.imei, '');
+
+  IF v_qty < 1 THEN
+    RAISE EXCEPTION 'Jumlah barang harus lebih dari 0';
+  END IF;
+  IF v_imei <> '' AND v_qty <> 1 THEN
+    RAISE EXCEPTION 'Unit ber-IMEI hanya bisa dijual satu per satu';
+  END IF;
+  IF v_qty > v_entry.night_stock THEN
+    RAISE EXCEPTION 'Stok tidak cukup, tersisa %', v_entry.night_stock;
+  END IF;
+
+  -- Same rule as incoming stock: a number already on an active unit, as IMEI or IMEI 2, cannot come in again
+  IF p_trade_in IS NOT NULL AND EXISTS (
+    SELECT 1 FROM stock_events e
+    WHERE e.imei IN (
+        SELECT v_trade_in_imei
+        UNION SELECT u.imei FROM unit_identifiers u WHERE u.imei2 = v_trade_in_imei
+      )
+      AND e.event_type <> 'void'
+      AND NOT EXISTS (SELECT 1 FROM stock_events v WHERE v.event_type = 'void' AND v.voided_event_id = e.id)
+  ) THEN
+    RAISE EXCEPTION 'IMEI tukar tambah % sudah terdaftar', v_trade_in_imei;
+  END IF;
+
+  INSERT INTO stock_events (date, imei, location_id, phone_model_id, event_type, qty, customer_id, notes, metadata)
+  VALUES (v_date, v_imei, v_entry.location_id, v_entry.phone_model_id, 'laku', v_qty, v_customer_id, p_event->>'notes', v_metadata)
+  RETURNING id INTO v_event_id;
+
+  -- An accessory row holds many pieces and sales, so its price lives on the events only
+  IF v_imei <> '' THEN
+    UPDATE stock_entries
+    SET selling_price = (v_metadata->>'selling_price')::NUMERIC,
+      sale_date = v_date,
+      profit_loss = (v_metadata->>'profit_loss')::NUMERIC,
+      cost_price = (v_metadata->>'cost_price')::NUMERIC
+    WHERE id = p_entry_id;
+  END IF;
+
+  -- The customer's old phone enters stock as a used unit, linked to this sale
+  IF p_trade_in IS NOT NULL THEN
+    INSERT INTO stock_events (date, imei, location_id, phone_model_id, event_type, qty, customer_id, notes, metadata)
+    VALUES (
+      v_date,
+      v_trade_in_imei,
+      v_entry.location_id,
+      (p_trade_in->>'phone_model_id')::UUID,
+      'masuk',
+      1,
+      v_customer_id,
+      p_trade_in->>'notes',
+      jsonb_build_object(
+        'cost_price', (p_trade_in->>'value')::NUMERIC,
+        'condition', 'used',
+        'trade_in_sale_event_id', v_event_id,
+        'trade_in_sold_imei', v_imei
+      )
+    );
+  END IF;
+
+  IF p_credit IS NOT NULL THEN
+    IF v_customer_id IS NULL THEN
+      RAISE EXCEPTION 'Penjualan kredit wajib memilih pelanggan';
+    END IF;
+
+    v_installments := COALESCE(p_credit->'installments', '[]'::jsonb);
+    SELECT COALESCE(SUM((i->>'amount')::NUMERIC), 0) INTO v_installments_total
+    FROM jsonb_array_elements(v_installments) AS i;
+
+    IF jsonb_array_length(v_installments) = 0
+      OR v_installments_total <> (p_credit->>'total_price')::NUMERIC - (p_credit->>'down_payment')::NUMERIC THEN
+      RAISE EXCEPTION 'Total cicilan harus sama dengan harga dikurangi DP';
+    END IF;
+
+    INSERT INTO credit_sales (sale_event_id, customer_id, total_price, down_payment, cost_price)
+    VALUES (
+      v_event_id,
+      v_customer_id,
+      (p_credit->>'total_price')::NUMERIC,
+      (p_credit->>'down_payment')::NUMERIC,
+      (p_credit->>'cost_price')::NUMERIC
+    )
+    RETURNING id INTO v_credit_sale_id;
+
+    INSERT INTO credit_installments (credit_sale_id, installment_number, due_date, amount)
+    SELECT v_credit_sale_id, i.ordinality, (i.value->>'due_date')::DATE, (i.value->>'amount')::NUMERIC
+    FROM jsonb_array_elements(v_installments) WITH ORDINALITY AS i;
+  END IF;
+
+  -- trigger_cascade_recalc updates the stock rows from the new events
+  RETURN v_event_id;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(UUID, JSONB, JSONB, JSONB) IS 'Records a laku event for a stock row together with its sale columns, the trade-in unit taken in and, for credit sales, the credit and its installment schedule';
@@ -0,0 +1,127 @@
+-- Migration: Void events in one transaction
+-- Checking for later events, appending the void events and clearing the
+-- sale columns of a cancelled sale used to be separate client calls. A
+-- failed reset left a voided sale with its price, and an event added
+-- between the check and the voids went unnoticed.
+
+-- 1. Events of one IMEI are written one transaction at a time, so a check
+-- made under the same lock sees every event committed before it
+CREATE OR REPLACE FUNCTION lock_stock_event_imei()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.imei <> '' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('stock_events:' || NEW.imei));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_lock_stock_event_imei ON stock_events;
+CREATE TRIGGER trg_lock_stock_event_imei
+BEFORE INSERT ON stock_events
+FOR EACH ROW
+EXECUTE FUNCTION lock_stock_event_imei();
+
+-- 2. p_voids lists the events to cancel as {event_id, notes}
+CREATE OR REPLACE FUNCTION void_stock_events(p_voids JSONB, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT := TRIM(COALESCE(p_reason, ''));
+  v_imei TEXT;
+  v_item JSONB;
+  v_event stock_events%ROWTYPE;
+  v_later_count INTEGER;
+  v_last_later stock_events%ROWTYPE;
+BEGIN
+  PERFORM assert_app_role(ARRAY['owner', 'admin']);
+
+  IF v_reason = '' THEN
+    RAISE EXCEPTION 'Alasan pembatalan wajib diisi';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_voids, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Tidak ada transaksi yang bisa dibatalkan';
+  END IF;
+
+  -- Same lock as lock_stock_event_imei, taken in a fixed order
+  FOR v_imei IN
+    SELECT DISTINCT e.imei FROM stock_events e
+    WHERE e.id IN (SELECT (v->>'event_id')::BIGINT FROM jsonb_array_elements(p_voids) AS v)
+      AND e.imei <> ''
+    ORDER BY e.imei
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('stock_events:' || v_imei));
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_voids)
+  LOOP
+    SELECT * INTO v_event FROM stock_events WHERE id = (v_item->>'event_id')::BIGINT FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaksi tidak ditemukan';
+    END IF;
+
+    IF v_event.event_type = 'void'
+      OR EXISTS (SELECT 1 FROM stock_events WHERE event_type = 'void' AND voided_event_id = v_event.id) THEN
+      RAISE EXCEPTION 'Transaksi sudah dibatalkan';
+    END IF;
+
+    -- Later days were built on this event (sold, transferred on, ...); those have to be cancelled first
+    IF v_event.imei <> '' THEN
+      SELECT COUNT(*) INTO v_later_count
+      FROM stock_events e
+      WHERE e.imei = v_event.imei
+        AND e.date > v_event.date
+        AND e.event_type <> 'void'
+        AND NOT EXISTS (SELECT 1 FROM stock_events v WHERE v.event_type = 'void' AND v.voided_event_id = e.id);
+
+      IF v_later_count > 0 THEN
+        SELECT * INTO v_last_later
+        FROM stock_events e
+        WHERE e.imei = v_event.imei
+          AND e.date > v_event.date
+          AND e.event_type <> 'void'
+          AND NOT EXISTS (SELECT 1 FROM stock_events v WHERE v.event_type = 'void' AND v.voided_event_id = e.id)
+        ORDER BY e.date DESC, e.created_at DESC
+        LIMIT 1;
+
+        RAISE EXCEPTION 'Unit ini masih punya % transaksi setelah tanggal % (terakhir % pada %). Batalkan transaksi tersebut terlebih dahulu.',
+          v_later_count, v_event.date, v_last_later.event_type, v_last_later.date;
+      END IF;
+    END IF;
+
+    -- Compensating event; the original stays untouched
+    INSERT INTO stock_events (date, imei, location_id, phone_model_id, event_type, qty, voided_event_id, notes, metadata)
+    VALUES (
+      v_event.date,
+      v_event.imei,
+      v_event.location_id,
+      v_event.phone_model_id,
+      'void',
+      v_event.qty,
+      v_event.id,
+      v_item->>'notes',
+      jsonb_build_object('reason', v_reason, 'voided_event_type', v_event.event_type)
+    );
+
+    -- A cancelled sale must not keep its price on the snapshot row
+    IF v_event.event_type = 'laku' AND v_event.imei <> '' THEN
+      UPDATE stock_entries
+      SET selling_price = 0, sale_date = NULL, profit_loss = 0
+      WHERE date = v_event.date
+        AND imei = v_event.imei
+        AND location_id = v_event.location_id;
+    END IF;
+  END LOOP;
+
+  -- trigger_cascade_recalc recalculates the stock rows from the void events
+END;
+$$;
+
+COMMENT ON FUNCTION lock_stock_event_imei() IS 'Serializes stock_events inserts per IMEI for the rest of the transaction';
+COMMENT ON FUNCTION void_stock_events(JSONB, TEXT) IS 'Appends void events for the given events, refusing while the IMEI has later active events, and clears the sale columns of a cancelled sale';